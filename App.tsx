@@ -1,71 +1,170 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Send, Film, Sparkles, Loader2, Bookmark, ArrowUpDown, Filter, Download, FileText, File, Languages, Tags, Globe, User, LogOut, Clock, Tv, LayoutGrid, RefreshCw, WifiOff, LogIn } from 'lucide-react';
-import { Message, Movie, RecommendationResponse, Language } from './types';
-import { geminiService } from './services/geminiService';
-import { watchlistService } from './services/watchlistService';
+import { Send, Square, Film, Sparkles, Loader2, Bookmark, ArrowUpDown, Filter, Download, FileText, File, FileSpreadsheet, FileJson, FileCode, Upload, Languages, Tags, Globe, User, LogOut, Clock, Tv, LayoutGrid, MonitorPlay, RefreshCw, WifiOff, LogIn, Info, Cloud, CloudOff, MessagesSquare, SquarePen, SlidersHorizontal, Wand2, X, MessageSquare, Layers } from 'lucide-react';
+import { Message, Movie, RecommendationResponse, Language, Conversation, TitleFeedback, WatchlistEntry, WatchStatus, Collection, SharedCollection, Source, SimilarThread, RequestConstraints, TitleRef, ResultFilters, FeedMode, ExportFormat } from './types';
+import { geminiService, isMockMode, StreamHandle } from './services/geminiService';
+import { buildSimilarityRequest } from './services/recommendationProvider';
+import { chatSessionManager, createSessionId } from './services/chatSessionManager';
+import { watchlistService, DEFAULT_COLLECTION_ID } from './services/watchlistService';
+import { collectionShareService } from './services/collectionShareService';
 import { historyService } from './services/historyService';
+import { cloudSync, SyncStatus } from './services/cloudSyncService';
+import { guestMigrationService, GuestDataSummary, GuestMigrationResult } from './services/guestMigrationService';
+import { conversationService } from './services/conversationService';
+import { tasteProfileService } from './services/tasteProfileService';
+import { feedbackService } from './services/feedbackService';
+import { titleVerificationService } from './services/titleVerificationService';
+import { availabilityService, getStreamableOffers } from './services/availabilityService';
+import { AppRoute, matchesTitleRoute } from './services/router';
 import { MovieCard } from './components/MovieCard';
 import { ChatBubble } from './components/ChatBubble';
 import { TrailerModal } from './components/TrailerModal';
 import { AuthModal } from './components/AuthModal';
 import { HistoryModal } from './components/HistoryModal';
+import { ConversationList } from './components/ConversationList';
+import { ProfileModal } from './components/ProfileModal';
+import { WatchTracker, WATCH_STATUSES } from './components/WatchTracker';
+import { CollectionBar } from './components/CollectionBar';
+import { CollectionEditorModal } from './components/CollectionEditorModal';
+import { SharedCollectionModal } from './components/SharedCollectionModal';
+import { GuestMigrationModal } from './components/GuestMigrationModal';
+import { DebugPanel } from './components/DebugPanel';
+import { TitleDetailPage } from './components/TitleDetailPage';
+import { SimilarCarousel } from './components/SimilarCarousel';
+import { RequestBuilderModal } from './components/RequestBuilderModal';
+import { applyConstraintChecks, countConstraints } from './services/requestConstraints';
+import { matchesResultFilters } from './services/resultFilters';
+import { buildFeed, toTitleRefs, withoutSeen, FEED_PAGE_SIZE } from './services/recommendationFeed';
+import { exportService } from './services/exportService';
 import { AuthProvider, useAuth } from './context/AuthContext';
-import { jsPDF } from "jspdf";
+import { WatchlistProvider, useWatchlist } from './context/WatchlistContext';
+import { StreamingProvider, useStreaming } from './context/StreamingContext';
+import { RouterProvider, useRouter } from './context/RouterContext';
 import { translations } from './translations';
+import { INDUSTRIES } from './constants';
 
-// Standard Genres List
-const GENRES = [
-  'Action', 'Adventure', 'Animation', 'Biography', 'Comedy', 
-  'Crime', 'Documentary', 'Drama', 'Family', 'Fantasy', 
-  'History', 'Horror', 'Music', 'Musical', 'Mystery', 
-  'Romance', 'Sci-Fi', 'Sport', 'Thriller', 'War', 'Western'
-];
+type SortOption = 'default' | 'newest' | 'oldest' | 'added' | 'status' | 'myRating' | 'watchedDate';
+
+// Sorts on tracking fields only make sense in the watchlist view
+const WATCHLIST_SORTS: SortOption[] = ['added', 'status', 'myRating', 'watchedDate'];
+
+// Older "More like this" carousels drop off beyond this
+const MAX_SIMILAR_THREADS = 3;
 
-// Major Film Industries
-const INDUSTRIES = [
-  'Hollywood', 'Bollywood', 'Tollywood', 'Kollywood', 
-  'Mollywood', 'Sandalwood', 'Anime', 'K-Drama',
-  'European', 'British', 'International'
+// Download menu entries, in menu order
+const EXPORT_OPTIONS: { format: ExportFormat; labelKey: string; icon: typeof FileText; iconClass: string }[] = [
+  { format: 'pdf', labelKey: 'downloadPdf', icon: FileText, iconClass: 'text-red-500' },
+  { format: 'docx', labelKey: 'downloadWord', icon: File, iconClass: 'text-blue-500' },
+  { format: 'csv', labelKey: 'downloadCsv', icon: FileSpreadsheet, iconClass: 'text-green-500' },
+  { format: 'markdown', labelKey: 'downloadMarkdown', icon: FileCode, iconClass: 'text-gray-400' },
+  { format: 'json', labelKey: 'downloadJson', icon: FileJson, iconClass: 'text-yellow-500' },
+  { format: 'letterboxd', labelKey: 'downloadLetterboxd', icon: FileSpreadsheet, iconClass: 'text-orange-400' },
+  { format: 'imdb', labelKey: 'downloadImdb', icon: FileSpreadsheet, iconClass: 'text-yellow-400' },
 ];
 
+const STATUS_ORDER: Record<WatchStatus, number> = { watching: 0, plan: 1, watched: 2, dropped: 3 };
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  local: 'syncLocal',
+  syncing: 'syncSyncing',
+  synced: 'syncSynced',
+  offline: 'syncOffline',
+  error: 'syncError',
+};
+
 // Inner App Component to use Auth Context
 const MoviesGPTApp = () => {
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [recommendations, setRecommendations] = useState<Movie[]>([]);
+  // Everything recommended in this conversation, first appearance only
+  const feed = useMemo(() => buildFeed(messages), [messages]);
+  const [feedMode, setFeedMode] = useState<FeedMode>('latest');
+  const resultMovies = feedMode === 'all' ? feed : recommendations;
   const [hasInitializationError, setHasInitializationError] = useState(false);
   
   // Auth State
-  const { user, logout } = useAuth();
+  const { user, logout, loading: authLoading } = useAuth();
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(cloudSync.getStatus());
+  const [guestSummary, setGuestSummary] = useState<GuestDataSummary | null>(null);
+  const [guestMigrationResult, setGuestMigrationResult] = useState<GuestMigrationResult | null>(null);
 
   // Language State
   const [language, setLanguage] = useState<Language>('English');
   const t = translations[language];
 
   // View State
-  const [viewMode, setViewMode] = useState<'recommendations' | 'watchlist'>('recommendations');
-  const [watchlist, setWatchlist] = useState<Movie[]>([]);
+  const { route, navigate } = useRouter();
+  // The grid follows the URL: /watchlist and /collection/:id show lists, every other route the picks
+  const viewMode: 'recommendations' | 'watchlist' = route.name === 'watchlist' || route.name === 'collection' ? 'watchlist' : 'recommendations';
+  const [watchStatus, setWatchStatus] = useState<'all' | WatchStatus>('all');
+
+  // Collections State
+  const { collections, moveEntry, reorderEntry, importCollection, createCollection } = useWatchlist();
+  const { preferences: streaming } = useStreaming();
+  const [activeCollectionId, setActiveCollectionId] = useState<string>(DEFAULT_COLLECTION_ID);
+  const activeCollection = collections.find(c => c.id === activeCollectionId);
+  const watchlist = activeCollection?.items || [];
+  // Titles from "more like this" on the title page, so their links resolve too
+  const [extraTitles, setExtraTitles] = useState<Movie[]>([]);
+  // "More like this" carousels, newest first; they sit above the main results without replacing them
+  const [similarThreads, setSimilarThreads] = useState<SimilarThread[]>([]);
+  // undefined = closed, null = creating a new list
+  const [editingCollection, setEditingCollection] = useState<Collection | null | undefined>(undefined);
+  const [sharedCollection, setSharedCollection] = useState<SharedCollection | null>(() => collectionShareService.readFromLocation());
+  const draggedEntryRef = useRef<WatchlistEntry | null>(null);
 
   // Filter/Sort State
-  const [sortBy, setSortBy] = useState<'default' | 'newest' | 'oldest'>('default');
+  const [sortBy, setSortBy] = useState<SortOption>('default');
   const [filterType, setFilterType] = useState<'all' | 'movie' | 'tv'>('all');
   const [filterDecade, setFilterDecade] = useState<string>('all');
   const [filterGenre, setFilterGenre] = useState<string>('all');
   const [filterIndustry, setFilterIndustry] = useState<string>('all');
+  // Only titles free or included with the user's services in their country
+  const [streamableOnly, setStreamableOnly] = useState(false);
+  // Bumped as availability lookups land, so the filter re-runs against the warmed cache
+  const [availabilityVersion, setAvailabilityVersion] = useState(0);
+  // "Load more" for the current results; exhausted once a page brings nothing new that passes the filters
+  const [moreResultsStatus, setMoreResultsStatus] = useState<'idle' | 'loading' | 'exhausted' | 'error'>('idle');
   
   // Download Menu State
   const [showDownloadMenu, setShowDownloadMenu] = useState(false);
+  const [importError, setImportError] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showSidebarUserMenu, setShowSidebarUserMenu] = useState(false);
   
   // History State
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
 
+  // Taste Profile State
+  const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
+
+  // Preference builder: its constraints ride along with every request until cleared
+  const [isRequestBuilderOpen, setIsRequestBuilderOpen] = useState(false);
+  const [requestConstraints, setRequestConstraints] = useState<RequestConstraints | null>(null);
+  const [isDebugPanelOpen, setIsDebugPanelOpen] = useState(() => new URLSearchParams(window.location.search).has('debug'));
+
   // Trailer State
   const [selectedTrailerMovie, setSelectedTrailerMovie] = useState<Movie | null>(null);
 
+  // Conversation State
+  // Each conversation id maps to its own independent chat session, created on first use
+  const [activeConversationId, setActiveConversationId] = useState<string>(createSessionId);
+  const [isConversationListOpen, setIsConversationListOpen] = useState(false);
+  const pendingSaveRef = useRef<string | null>(null);
+  // Read after an await, when the closure's activeConversationId may be stale
+  const activeConversationRef = useRef(activeConversationId);
+  activeConversationRef.current = activeConversationId;
+
+  // Card feedback not yet reported to the model, keyed by title|year
+  const pendingFeedbackRef = useRef(new Map<string, TitleFeedback>());
+
+  // Streaming State
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const streamRef = useRef<StreamHandle | null>(null);
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom of chat
@@ -77,22 +176,248 @@ const MoviesGPTApp = () => {
     scrollToBottom();
   }, [messages]);
 
-  // Load Watchlist
+  // Cloud sync follows the signed-in account
+  useEffect(() => {
+    if (user) cloudSync.start(user.uid);
+    else cloudSync.stop();
+  }, [user]);
+
+  useEffect(() => cloudSync.subscribeStatus(setSyncStatus), []);
+
+  // Offer to move anything saved as a guest into the account that just signed in
+  useEffect(() => {
+    setGuestMigrationResult(null);
+    setGuestSummary(user && guestMigrationService.shouldOffer(user.uid) ? guestMigrationService.getGuestSummary() : null);
+  }, [user]);
+
+  // Fall back to the main list if the active one was deleted (here, in another tab or on another device)
+  useEffect(() => {
+    if (activeCollection || authLoading) return;
+    if (route.name === 'collection') navigate({ name: 'watchlist' }, { replace: true });
+    else setActiveCollectionId(DEFAULT_COLLECTION_ID);
+  }, [activeCollection, authLoading]);
+
+  // Ctrl+Shift+D toggles the developer stats panel
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        setIsDebugPanelOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Share links can also arrive while the app is already open
+  useEffect(() => {
+    const handleHashChange = () => {
+      const shared = collectionShareService.readFromLocation();
+      if (shared) setSharedCollection(shared);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  useEffect(() => {
+    if (viewMode === 'recommendations' && WATCHLIST_SORTS.includes(sortBy)) setSortBy('default');
+  }, [viewMode]);
+
+  // Persist the active conversation once an exchange has finished
   useEffect(() => {
-    // Reload watchlist whenever user changes or view mode changes
-    if (viewMode === 'watchlist' || user) {
-      setWatchlist(watchlistService.getWatchlist(user?.uid));
+    const conversationId = pendingSaveRef.current;
+    if (isLoading || !conversationId) return;
+    pendingSaveRef.current = null;
+
+    const firstQuery = messages.find(m => m.role === 'user');
+    if (!firstQuery) return;
+
+    const existing = conversationService.getConversation(conversationId, user?.uid);
+    conversationService.saveConversation({
+      id: conversationId,
+      title: existing?.title || conversationService.deriveTitle(firstQuery.content as string),
+      messages,
+      recommendations,
+      // An evicted or disposed session would come back empty, so keep what was stored
+      modelHistory: chatSessionManager.has(conversationId)
+        ? chatSessionManager.get(conversationId).getHistory()
+        : existing?.modelHistory || [],
+      language,
+      createdAt: existing?.createdAt || Date.now(),
+      updatedAt: Date.now(),
+    }, user?.uid);
+  }, [isLoading, messages, recommendations]);
+
+  const handleSelectConversation = (conversation: Conversation) => {
+    if (isLoading) return;
+    // Reuse the live session, or rebuild the model chat so it remembers the earlier turns
+    if (!chatSessionManager.has(conversation.id)) {
+      chatSessionManager.create(conversation.id, conversation.modelHistory);
     }
-  }, [viewMode, user]);
+    setMessages(conversation.messages);
+    setRecommendations(conversation.recommendations);
+    setSimilarThreads([]);
+    setMoreResultsStatus('idle');
+    setActiveConversationId(conversation.id);
+    navigate({ name: 'chat', id: conversation.id });
+    setIsConversationListOpen(false);
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    chatSessionManager.dispose(id);
+    if (id === activeConversationId) {
+      // A reply still streaming into the deleted thread is dropped, not saved back
+      streamRef.current?.cancel();
+      pendingSaveRef.current = null;
+      startNewChat();
+    }
+  };
+
+  // Start a fresh thread; the previous one stays live and can be reopened from the list
+  const handleNewChat = () => {
+    if (isLoading) return;
+    startNewChat();
+  };
+
+  const startNewChat = () => {
+    const conversationId = chatSessionManager.create();
+    // Set right away so a reply that settles before the next render sees the switch
+    activeConversationRef.current = conversationId;
+    setActiveConversationId(conversationId);
+    setMessages([]);
+    setRecommendations([]);
+    setSimilarThreads([]);
+    setMoreResultsStatus('idle');
+    setInput('');
+    navigate({ name: 'home' });
+    setIsConversationListOpen(false);
+  };
+
+  const collectionRoute = (collectionId: string): AppRoute =>
+    collectionId === DEFAULT_COLLECTION_ID ? { name: 'watchlist' } : { name: 'collection', id: collectionId };
+
+  // Back to the current conversation, or the start page if nothing was asked yet
+  const conversationRoute = (): AppRoute =>
+    messages.some(m => m.role === 'user') ? { name: 'chat', id: activeConversationId } : { name: 'home' };
+
+  const setViewMode = (mode: 'recommendations' | 'watchlist') =>
+    navigate(mode === 'watchlist' ? collectionRoute(activeCollectionId) : conversationRoute());
+
+  const selectCollection = (collectionId: string) => {
+    setWatchStatus('all');
+    navigate(collectionRoute(collectionId));
+  };
 
-  const refreshWatchlist = () => {
-     setWatchlist(watchlistService.getWatchlist(user?.uid));
+  const handleCollectionSaved = (collectionId: string) => {
+    setEditingCollection(undefined);
+    selectCollection(collectionId);
+  };
+
+  const handleCollectionDeleted = () => {
+    setEditingCollection(undefined);
+    selectCollection(DEFAULT_COLLECTION_ID);
+  };
+
+  // Dropping a dragged card on another list's tab moves it there
+  const handleDropOnCollection = (collectionId: string) => {
+    const dragged = draggedEntryRef.current;
+    draggedEntryRef.current = null;
+    if (!dragged) return;
+    moveEntry(dragged, activeCollectionId, collectionId);
+  };
+
+  const handleDropOnEntry = (target: WatchlistEntry) => {
+    const dragged = draggedEntryRef.current;
+    draggedEntryRef.current = null;
+    if (!dragged) return;
+    reorderEntry(dragged, target, activeCollectionId);
+  };
+
+  const closeSharedCollection = () => {
+    collectionShareService.clearFromLocation();
+    setSharedCollection(null);
+  };
+
+  const handleImportCollection = (shared: SharedCollection) => {
+    const imported = importCollection(shared);
+    closeSharedCollection();
+    selectCollection(imported.id);
+  };
+
+  const handleMergeGuestData = () => {
+    if (!user) return;
+    setGuestMigrationResult(guestMigrationService.migrate(user.uid));
+  };
+
+  const handleDeclineGuestData = () => {
+    if (user) guestMigrationService.decline(user.uid);
+    setGuestSummary(null);
+  };
+
+  const closeGuestMigration = () => {
+    setGuestSummary(null);
+    setGuestMigrationResult(null);
   };
 
   const handlePlayTrailer = (movie: Movie) => {
+    tasteProfileService.recordSignal('trailer', movie, user?.uid);
     setSelectedTrailerMovie(movie);
   };
 
+  // Queued for the next turn; clearing a verdict withdraws it
+  const handleFeedback = (movie: Movie, feedback: TitleFeedback | null) => {
+    const key = `${movie.title}|${movie.year}`;
+    if (feedback) {
+      pendingFeedbackRef.current.set(key, feedback);
+    } else {
+      pendingFeedbackRef.current.delete(key);
+    }
+  };
+
+  // Everything the model should know about this user for the next request
+  const buildPromptContext = () => {
+    const context = {
+      tasteProfile: tasteProfileService.getProfile(user?.uid),
+      feedback: [...pendingFeedbackRef.current.values()],
+      excludeTitles: feedbackService.getHiddenTitles(user?.uid),
+      seenTitles: toTitleRefs(feed),
+      streaming,
+    };
+    pendingFeedbackRef.current.clear();
+    return context;
+  };
+
+  const updateSimilarThread = (id: string, changes: Partial<SimilarThread>) =>
+    setSimilarThreads(threads => threads.map(thread => thread.id === id ? { ...thread, ...changes } : thread));
+
+  // Stateless request: the conversation and its pending card feedback are left alone
+  const loadSimilarThread = async (thread: SimilarThread) => {
+    updateSimilarThread(thread.id, { status: 'loading', results: [] });
+    const shown = [...recommendations, ...similarThreads.flatMap(t => t.results)].map(({ title, year }) => ({ title, year }));
+    const raw = await geminiService.getSimilarTitles(buildSimilarityRequest(thread.source, shown), language, {
+      tasteProfile: tasteProfileService.getProfile(user?.uid),
+      excludeTitles: feedbackService.getHiddenTitles(user?.uid),
+      streaming,
+    });
+    const verified = await titleVerificationService.verifyRecommendations(raw.recommendations);
+    const results = feedbackService.applyFeedback(verified, user?.uid);
+    updateSimilarThread(thread.id, { status: results.length > 0 ? 'done' : 'error', results });
+  };
+
+  const handleMoreLikeThis = (movie: Movie, via?: string) => {
+    const existing = similarThreads.find(thread => thread.source.title === movie.title && thread.source.year === movie.year);
+    if (existing) {
+      setSimilarThreads(threads => [existing, ...threads.filter(thread => thread !== existing)]);
+      return;
+    }
+    const thread: SimilarThread = { id: Date.now().toString(), source: movie, via, status: 'loading', results: [] };
+    setSimilarThreads(threads => [thread, ...threads].slice(0, MAX_SIMILAR_THREADS));
+    loadSimilarThread(thread);
+  };
+
+  const closeSimilarThread = (thread: SimilarThread) =>
+    setSimilarThreads(threads => threads.filter(t => t.id !== thread.id));
+
   const closeTrailer = () => {
     setSelectedTrailerMovie(null);
   };
@@ -102,7 +427,9 @@ const MoviesGPTApp = () => {
     setIsLoading(true);
     setHasInitializationError(false);
     try {
-      const response = await geminiService.getColdStart(language);
+      const raw = await chatSessionManager.get(activeConversationId).getColdStart(language, buildPromptContext());
+      const verified = await titleVerificationService.verifyRecommendations(raw.recommendations);
+      const response = { ...raw, recommendations: feedbackService.applyFeedback(verified, user?.uid) };
       const initialMsg: Message = {
         id: Date.now().toString(),
         role: 'model',
@@ -119,12 +446,33 @@ const MoviesGPTApp = () => {
     }
   };
 
-  // Handle Cold Start
+  // Handle Cold Start; a /chat link reopens that conversation instead
   useEffect(() => {
-    initApp();
+    if (route.name !== 'chat') initApp();
   }, []);
 
-  const handleSend = async (textOverride?: string) => {
+  // Apply the URL when it changes underneath us: first load, back/forward, or a link
+  useEffect(() => {
+    if (route.name === 'collection') {
+      setActiveCollectionId(route.id);
+    } else if (route.name === 'watchlist') {
+      setActiveCollectionId(DEFAULT_COLLECTION_ID);
+    } else if (route.name === 'chat' && route.id !== activeConversationId) {
+      // Signed-in users' conversations are only readable once auth has settled
+      if (authLoading) return;
+      const conversation = conversationService.getConversation(route.id, user?.uid);
+      if (conversation) {
+        handleSelectConversation(conversation);
+      } else {
+        navigate({ name: 'home' }, { replace: true });
+        if (messages.length === 0) initApp();
+      }
+    } else if (route.name === 'home' && messages.some(m => m.role === 'user')) {
+      handleNewChat();
+    }
+  }, [route, authLoading]);
+
+  const handleSend = async (textOverride?: string, constraints: RequestConstraints | null = requestConstraints) => {
     const userText = textOverride || input.trim();
     if (!userText || isLoading) return;
 
@@ -133,12 +481,13 @@ const MoviesGPTApp = () => {
     
     historyService.addToHistory(userText, user?.uid);
     
-    setViewMode('recommendations');
+    navigate({ name: 'chat', id: activeConversationId });
     setSortBy('default');
     setFilterType('all');
     setFilterDecade('all');
     setFilterGenre('all');
     setFilterIndustry('all');
+    setMoreResultsStatus('idle');
 
     const userMsg: Message = {
       id: Date.now().toString(),
@@ -148,34 +497,86 @@ const MoviesGPTApp = () => {
     };
     setMessages((prev) => [...prev, userMsg]);
 
+    const conversationId = activeConversationId;
+    pendingSaveRef.current = conversationId;
+    // False once the thread was deleted mid-reply
+    const isCurrent = () => activeConversationRef.current === conversationId;
+
+    const botId = (Date.now() + 1).toString();
+    const upsertBotMessage = (content: RecommendationResponse) => {
+      setMessages((prev) => {
+        const botMsg: Message = { id: botId, role: 'model', content, timestamp: Date.now() };
+        return prev.some(m => m.id === botId)
+          ? prev.map(m => m.id === botId ? botMsg : m)
+          : [...prev, botMsg];
+      });
+    };
+
     try {
-      const response = await geminiService.sendMessage(userText, language);
-      const botMsg: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        content: response,
-        timestamp: Date.now(),
-      };
-      setMessages((prev) => [...prev, botMsg]);
-      if (response.recommendations && response.recommendations.length > 0) {
+      let streamedSummary = '';
+      let streamedRecommendations: Movie[] = [];
+
+      const handle = chatSessionManager.get(conversationId).sendMessageStream(userText, language, {
+        onSummary: (summary) => {
+          if (!isCurrent()) return;
+          streamedSummary = summary;
+          setStreamingMessageId(botId);
+          upsertBotMessage({ summary, recommendations: streamedRecommendations });
+        },
+        onRecommendation: (movie) => {
+          // Seen and disliked titles never reach the grid
+          if (!isCurrent() || feedbackService.isHidden(movie, user?.uid)) return;
+          // The first visible card replaces the previous answer's grid
+          streamedRecommendations = [...streamedRecommendations, movie];
+          setStreamingMessageId(botId);
+          setRecommendations(streamedRecommendations);
+          upsertBotMessage({ summary: streamedSummary, recommendations: streamedRecommendations });
+        },
+      }, { ...buildPromptContext(), constraints: constraints || undefined });
+      streamRef.current = handle;
+
+      const raw = await handle.response;
+      // Streamed cards are swapped for the checked ones once the catalog has answered
+      const verified = await titleVerificationService.verifyRecommendations(raw.recommendations);
+      const ranked = feedbackService.applyFeedback(verified, user?.uid);
+      const response = { ...raw, recommendations: constraints ? applyConstraintChecks(ranked, constraints) : ranked };
+      if (!isCurrent()) return;
+      // Nothing to show when the user stopped before the first token; otherwise the grid follows the
+      // settled answer, even when checks or feedback left it empty
+      if (response.summary || response.recommendations.length > 0) {
+        upsertBotMessage(response);
         setRecommendations(response.recommendations);
       }
     } catch (error) {
-        const errorMsg: Message = {
-            id: (Date.now() + 1).toString(),
-            role: 'model',
-            content: {
-                summary: translations[language].connectionError,
-                recommendations: []
-            },
-            timestamp: Date.now()
-        }
-        setMessages(prev => [...prev, errorMsg]);
+        if (!isCurrent()) return;
+        setRecommendations([]);
+        upsertBotMessage({
+            summary: translations[language].connectionError,
+            recommendations: []
+        });
     } finally {
+      streamRef.current = null;
+      setStreamingMessageId(null);
       setIsLoading(false);
     }
   };
 
+  const handleBuildRequest = (constraints: RequestConstraints, note: string) => {
+    const active = countConstraints(constraints) > 0 ? constraints : null;
+    setRequestConstraints(active);
+    handleSend(note || t.builderDefaultQuery, active);
+  };
+
+  // Offered in the builder's "similar to" picker; liked titles are re-read each time it opens
+  const knownTitles = useMemo((): TitleRef[] => {
+    const refs = [...recommendations, ...collections.flatMap(c => c.items), ...tasteProfileService.getProfile(user?.uid).likedTitles];
+    return Array.from(new Map(refs.map(({ title, year }) => [`${title}|${year}`, { title, year }])).values());
+  }, [recommendations, collections, user, isRequestBuilderOpen]);
+
+  const handleStop = () => {
+    streamRef.current?.cancel();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -188,81 +589,170 @@ const MoviesGPTApp = () => {
       handleSend(query);
   };
 
-  const displayMovies = useMemo(() => {
-    const currentList = viewMode === 'watchlist' ? watchlist : recommendations;
-    let filtered = currentList;
-    if (filterType !== 'all') filtered = filtered.filter(item => item.type === filterType);
-    if (filterIndustry !== 'all') {
-      filtered = filtered.filter(movie => {
-        const ind = movie.industry?.toLowerCase() || '';
-        const lang = movie.language?.toLowerCase() || '';
-        const target = filterIndustry.toLowerCase();
-        return ind.includes(target) || lang.includes(target);
+  // Sticks to the filters in use, so the next page matches what the grid shows
+  const activeFilters = useMemo((): ResultFilters => ({
+    type: filterType !== 'all' ? filterType : undefined,
+    genre: filterGenre !== 'all' ? filterGenre : undefined,
+    decade: filterDecade !== 'all' ? filterDecade : undefined,
+    industry: filterIndustry !== 'all' ? filterIndustry : undefined,
+    streamableOnly: streamableOnly || undefined,
+  }), [filterType, filterGenre, filterDecade, filterIndustry, streamableOnly]);
+
+  // A new filter may have more to find even if the last one ran dry
+  useEffect(() => {
+    setMoreResultsStatus(status => status === 'loading' ? status : 'idle');
+  }, [activeFilters]);
+
+  const isStreamable = (movie: Movie) =>
+    getStreamableOffers(availabilityService.peek(movie, streaming.country), streaming.services).length > 0;
+
+  // Appends a page of new titles to the grid and to the reply they extend, so a saved conversation keeps them
+  const handleFindMore = async () => {
+    if (isLoading || moreResultsStatus === 'loading') return;
+    setMoreResultsStatus('loading');
+    const conversationId = activeConversationId;
+    const lastQuery = [...messages].reverse().find(m => m.role === 'user')?.content;
+    try {
+      const raw = await geminiService.getMoreResults({
+        query: typeof lastQuery === 'string' ? lastQuery : undefined,
+        filters: activeFilters,
+        exclude: toTitleRefs(feed),
+        count: FEED_PAGE_SIZE,
+      }, language, {
+        tasteProfile: tasteProfileService.getProfile(user?.uid),
+        excludeTitles: feedbackService.getHiddenTitles(user?.uid),
+        streaming,
+        constraints: requestConstraints || undefined,
       });
+      // Providers answer failures with a message rather than rejecting
+      if (raw.error) throw new Error(raw.summary);
+      const verified = await titleVerificationService.verifyRecommendations(raw.recommendations);
+      const ranked = feedbackService.applyFeedback(verified, user?.uid);
+      const checked = requestConstraints ? applyConstraintChecks(ranked, requestConstraints) : ranked;
+      const fresh = withoutSeen(checked, feed);
+      // The page belongs to the conversation it was asked from
+      if (activeConversationRef.current !== conversationId) return;
+
+      pendingSaveRef.current = conversationId;
+      setRecommendations(prev => [...prev, ...fresh]);
+      setMessages(prev => {
+        const lastReply = [...prev].reverse().find(m => m.role === 'model' && typeof m.content !== 'string');
+        if (!lastReply) return prev;
+        const content = lastReply.content as RecommendationResponse;
+        return prev.map(m => m === lastReply ? { ...m, content: { ...content, recommendations: [...content.recommendations, ...fresh] } } : m);
+      });
+      // Streamability is only known once offers are looked up, so it's left to the grid to decide
+      setMoreResultsStatus(fresh.some(movie => matchesResultFilters(movie, activeFilters)) ? 'idle' : 'exhausted');
+    } catch (error) {
+      console.error("Failed to load more results", error);
+      if (activeConversationRef.current === conversationId) setMoreResultsStatus('error');
     }
-    if (filterDecade !== 'all') {
-        filtered = filtered.filter(movie => {
-            const yearStr = movie.year.split('–')[0].split('-')[0].trim();
-            const year = parseInt(yearStr);
-            if (isNaN(year)) return false;
-            if (filterDecade === 'older') return year < 1980;
-            const decadeStart = parseInt(filterDecade);
-            return year >= decadeStart && year < decadeStart + 10;
-        });
-    }
-    if (filterGenre !== 'all') {
-      filtered = filtered.filter(movie => 
-        movie.genres.some(g => g.toLowerCase().includes(filterGenre.toLowerCase()))
+  };
+
+  const hasActiveFilters = filterDecade !== 'all' || filterGenre !== 'all' || filterIndustry !== 'all' || filterType !== 'all' || streamableOnly
+    || (viewMode === 'watchlist' && watchStatus !== 'all');
+
+  // Results only; the watchlist is the user's own list
+  const canLoadMore = viewMode === 'recommendations' && resultMovies.length > 0 && !isLoading;
+
+  const renderFindMore = () => {
+    if (moreResultsStatus === 'loading') {
+      return (
+        <span className="flex items-center gap-2 text-sm text-gray-400">
+          <Loader2 size={16} className="animate-spin" /> {t.loadingMore}
+        </span>
       );
     }
+    if (moreResultsStatus === 'exhausted') {
+      return <span className="text-sm text-gray-500">{hasActiveFilters ? t.noMoreMatches : t.noMoreResults}</span>;
+    }
+    return (
+      <div className="flex items-center gap-3">
+        {moreResultsStatus === 'error' && <span className="text-sm text-gray-500">{t.genericError}</span>}
+        <button
+          onClick={handleFindMore}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-surfaceHighlight hover:bg-white/10 border border-gray-700 rounded-xl transition-colors"
+        >
+          {moreResultsStatus === 'error' ? <RefreshCw size={14} /> : <Sparkles size={14} className="text-primary" />}
+          {moreResultsStatus === 'error' ? t.tryAgain : (hasActiveFilters ? t.findMoreMatching : t.loadMore)}
+        </button>
+      </div>
+    );
+  };
+
+  const canReorder = viewMode === 'watchlist' && sortBy === 'default' && !hasActiveFilters;
+
+  const watchStatusCounts = useMemo(() => watchlistService.countByStatus(watchlist), [watchlist]);
+
+  useEffect(() => {
+    if (!streamableOnly) return;
+    let cancelled = false;
+    const list: Movie[] = viewMode === 'watchlist' ? watchlist : resultMovies;
+    Promise.all(list.map(movie => availabilityService.getAvailability(movie, streaming.country)))
+      .then(() => { if (!cancelled) setAvailabilityVersion(v => v + 1); });
+    return () => { cancelled = true; };
+  }, [streamableOnly, viewMode, watchlist, resultMovies, streaming.country]);
+
+  // The title a /title link points to, wherever this device has seen it, plus the sources of the reply that recommended it
+  const detail = useMemo((): { movie: Movie | null; sources: Source[] } => {
+    if (route.name !== 'title') return { movie: null, sources: [] };
+    const replies = [messages, ...conversationService.getConversations(user?.uid).map(c => c.messages)]
+      .flat()
+      .map(m => m.content)
+      .filter((content): content is RecommendationResponse => typeof content !== 'string');
+    for (const reply of replies) {
+      const movie = reply.recommendations.find(m => matchesTitleRoute(m, route));
+      if (movie) return { movie, sources: reply.sources || [] };
+    }
+    const movie = [...recommendations, ...collections.flatMap(c => c.items), ...similarThreads.flatMap(t => t.results), ...extraTitles].find(m => matchesTitleRoute(m, route));
+    return { movie: movie || null, sources: [] };
+  }, [route, messages, recommendations, collections, similarThreads, extraTitles, user]);
+
+  const displayMovies = useMemo(() => {
+    const currentList: Movie[] = viewMode === 'watchlist'
+      ? watchlist.filter(entry => watchStatus === 'all' || entry.status === watchStatus)
+      : resultMovies;
+    // Titles still being looked up stay hidden until their offers are known
+    const filtered = currentList.filter(movie => matchesResultFilters(movie, activeFilters) && (!streamableOnly || isStreamable(movie)));
     const sorted = [...filtered];
     if (sortBy === 'newest') {
         sorted.sort((a, b) => (parseInt(b.year.split('–')[0]) || 0) - (parseInt(a.year.split('–')[0]) || 0));
     } else if (sortBy === 'oldest') {
         sorted.sort((a, b) => (parseInt(a.year.split('–')[0]) || 0) - (parseInt(b.year.split('–')[0]) || 0));
+    } else if (viewMode === 'watchlist' && WATCHLIST_SORTS.includes(sortBy)) {
+        // Only watchlist entries reach here, so the tracking fields are present
+        const entries = sorted as WatchlistEntry[];
+        if (sortBy === 'added') entries.sort((a, b) => b.addedAt - a.addedAt);
+        if (sortBy === 'status') entries.sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || b.updatedAt - a.updatedAt);
+        if (sortBy === 'myRating') entries.sort((a, b) => (b.userRating || 0) - (a.userRating || 0));
+        if (sortBy === 'watchedDate') entries.sort((a, b) => (b.watchedAt || 0) - (a.watchedAt || 0));
     }
     return sorted;
-  }, [viewMode, watchlist, recommendations, sortBy, filterDecade, filterGenre, filterIndustry, filterType]);
-
-  const handleDownloadPDF = () => {
-    const doc = new jsPDF();
-    const title = viewMode === 'watchlist' ? `${t.watchlist} - MoviesGPT` : `${t.topPicks} - MoviesGPT`;
-    doc.setFontSize(18);
-    doc.setTextColor(229, 9, 20);
-    doc.text(title, 14, 20);
-    doc.setFontSize(10);
-    doc.setTextColor(100);
-    doc.text(`Generated on ${new Date().toLocaleDateString()}`, 14, 26);
-    let y = 40;
-    displayMovies.forEach((movie, index) => {
-        if (y > 270) { doc.addPage(); y = 20; }
-        doc.setFont("helvetica", "bold"); doc.setFontSize(12); doc.setTextColor(0);
-        doc.text(`${index + 1}. ${movie.title} (${movie.year})`, 14, y);
-        y += 6;
-        doc.setFont("helvetica", "normal"); doc.setFontSize(10); doc.setTextColor(80);
-        doc.text(`${movie.genres.join(', ')} | ${movie.rating} | ${movie.runtime}${movie.industry ? ` | ${movie.industry}` : ''}${movie.type === 'tv' ? ` | ${movie.totalSeasons || 'TV Series'}` : ''}`, 14, y);
-        y += 6;
-        const desc = movie.synopsis || movie.reason || "";
-        const splitDesc = doc.splitTextToSize(desc, 180);
-        doc.setTextColor(50); doc.text(splitDesc, 14, y);
-        y += (splitDesc.length * 5) + 8;
-    });
-    doc.save("moviesgpt-list.pdf");
+  }, [viewMode, watchlist, watchStatus, resultMovies, sortBy, activeFilters, streamableOnly, streaming, availabilityVersion]);
+
+  const handleExport = async (format: ExportFormat) => {
     setShowDownloadMenu(false);
+    const title = viewMode === 'watchlist' ? (activeCollection?.name || t.watchlist) : t.topPicks;
+    // Sources can come from any saved conversation, as on the title page
+    const allMessages = [messages, ...conversationService.getConversations(user?.uid).map(c => c.messages)].flat();
+    const doc = exportService.createDocument(title, displayMovies, collections, allMessages);
+    await exportService.download(doc, format, `moviesgpt-${viewMode}`);
   };
 
-  const handleDownloadDOC = () => {
-    const title = viewMode === 'watchlist' ? t.watchlist : t.topPicks;
-    let htmlContent = `<html><body style="font-family: Arial;"><h1 style="color: #E50914;">${title}</h1>`;
-    displayMovies.forEach((movie, idx) => {
-        htmlContent += `<h2>${idx + 1}. ${movie.title} (${movie.year})</h2><p>Rating: ${movie.rating} | Runtime: ${movie.runtime}</p><p>${movie.synopsis || movie.reason}</p><hr/>`;
-    });
-    htmlContent += "</body></html>";
-    const blob = new Blob(['\ufeff', htmlContent], { type: 'application/msword' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a'); link.href = url; link.download = `moviesgpt-${viewMode}.doc`;
-    document.body.appendChild(link); link.click(); document.body.removeChild(link);
+  // A JSON export comes back in as a new list, tracking data included
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const doc = exportService.parseJson(await file.text());
+    if (!doc || doc.items.length === 0) {
+      setImportError(true);
+      return;
+    }
+    setImportError(false);
     setShowDownloadMenu(false);
+    const collection = createCollection({ name: doc.title || file.name.replace(/\.json$/i, '') }, exportService.toWatchlistEntries(doc));
+    selectCollection(collection.id);
   };
 
   return (
@@ -279,6 +769,25 @@ const MoviesGPTApp = () => {
           </div>
           
           <div className="flex items-center gap-1.5">
+             {/* New Chat Button */}
+             <button
+                onClick={handleNewChat}
+                disabled={isLoading}
+                className="p-2 text-textMuted hover:text-white hover:bg-surfaceHighlight rounded-lg transition-colors disabled:opacity-40"
+                title={t.newChat}
+             >
+                <SquarePen size={18} />
+             </button>
+
+             {/* Conversations Button */}
+             <button
+                onClick={() => setIsConversationListOpen(true)}
+                className="p-2 text-textMuted hover:text-white hover:bg-surfaceHighlight rounded-lg transition-colors"
+                title={t.conversations}
+             >
+                <MessagesSquare size={18} />
+             </button>
+
              {/* History Button */}
              <button
                 onClick={() => setIsHistoryModalOpen(true)}
@@ -288,6 +797,15 @@ const MoviesGPTApp = () => {
                 <Clock size={18} />
              </button>
 
+             {/* Taste Profile Button */}
+             <button
+                onClick={() => setIsProfileModalOpen(true)}
+                className="p-2 text-textMuted hover:text-white hover:bg-surfaceHighlight rounded-lg transition-colors"
+                title={t.tasteProfile}
+             >
+                <SlidersHorizontal size={18} />
+             </button>
+
              {/* Language Dropdown */}
              <div className="relative">
                 <div className="flex items-center gap-1.5 bg-surfaceHighlight hover:bg-gray-800 text-xs font-medium text-gray-300 rounded-lg px-2 py-2 cursor-pointer border border-gray-800 transition-colors">
@@ -331,6 +849,12 @@ const MoviesGPTApp = () => {
                                    <div className="p-3 border-b border-gray-800">
                                        <p className="text-xs font-bold text-white truncate">{user.displayName || t.guest}</p>
                                        <p className="text-[10px] text-gray-500 truncate">{user.email}</p>
+                                       {cloudSync.isEnabled && (
+                                           <p className={`flex items-center gap-1.5 mt-1.5 text-[10px] ${syncStatus === 'error' ? 'text-red-400' : 'text-gray-400'}`}>
+                                               {syncStatus === 'offline' || syncStatus === 'error' ? <CloudOff size={12} /> : <Cloud size={12} />}
+                                               {t[SYNC_STATUS_LABELS[syncStatus]]}
+                                           </p>
+                                       )}
                                    </div>
                                    <div className="p-1">
                                        <button
@@ -363,6 +887,14 @@ const MoviesGPTApp = () => {
 
         {/* Chat List */}
         <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+          {/* Offline fixture mode notice */}
+          {isMockMode && (
+            <div className="mb-4 p-3 bg-blue-900/10 border border-blue-500/20 rounded-xl flex items-start gap-3 text-blue-200 text-xs">
+                <Info size={14} className="shrink-0 mt-0.5" />
+                <span><strong>{t.offlineDemo}:</strong> {t.offlineDemoMessage}</span>
+            </div>
+          )}
+
           {/* Subtle Auth Prompt for guests */}
           {!user && (
             <div className="mb-6 p-4 bg-primary/5 border border-primary/10 rounded-2xl text-center">
@@ -377,9 +909,9 @@ const MoviesGPTApp = () => {
           )}
 
           {messages.map((msg) => (
-            <ChatBubble key={msg.id} message={msg} />
+            <ChatBubble key={msg.id} message={msg} isStreaming={msg.id === streamingMessageId} onQuickReply={(text) => handleSend(text)} disabled={isLoading} />
           ))}
-          {isLoading && (
+          {isLoading && !streamingMessageId && (
             <div className="flex items-center gap-2 text-textMuted text-sm px-4 mb-4">
               <Loader2 className="animate-spin text-primary" size={16} />
               <span>{t.thinking}</span>
@@ -390,6 +922,30 @@ const MoviesGPTApp = () => {
 
         {/* Input Area */}
         <div className="p-4 border-t border-surfaceHighlight bg-surface shrink-0">
+          <div className="flex items-center gap-1 mb-2">
+            <button
+              onClick={() => setIsRequestBuilderOpen(true)}
+              className={`flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-full border transition-colors ${
+                requestConstraints
+                  ? 'bg-primary/15 text-white border-primary/40'
+                  : 'text-textMuted border-white/10 hover:text-white hover:bg-white/5'
+              }`}
+              title={t.requestBuilderHint}
+            >
+              <Wand2 size={12} />
+              {requestConstraints ? `${t.preferencesActive} (${countConstraints(requestConstraints)})` : t.requestBuilder}
+            </button>
+            {requestConstraints && (
+              <button
+                onClick={() => setRequestConstraints(null)}
+                className="p-1 text-textMuted hover:text-white rounded-full transition-colors"
+                title={t.clearAll}
+                aria-label={t.clearAll}
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
           <div className="relative">
             <input
               type="text"
@@ -400,23 +956,46 @@ const MoviesGPTApp = () => {
               className="w-full bg-surfaceHighlight border border-gray-700 text-textMain placeholder-gray-500 rounded-xl pl-4 pr-12 py-3 focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary transition-all shadow-sm text-sm"
               disabled={isLoading}
             />
-            <button
-              onClick={() => handleSend()}
-              disabled={!input.trim() || isLoading}
-              className={`absolute right-1.5 top-1/2 -translate-y-1/2 p-2 rounded-lg transition-colors ${
-                !input.trim() || isLoading 
-                  ? 'text-gray-600 cursor-not-allowed' 
-                  : 'text-primary hover:bg-primary/10'
-              }`}
-            >
-              <Send size={16} />
-            </button>
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                disabled={!streamRef.current}
+                className="absolute right-1.5 top-1/2 -translate-y-1/2 p-2 rounded-lg transition-colors text-primary hover:bg-primary/10"
+                title={t.stopGenerating}
+                aria-label={t.stopGenerating}
+              >
+                <Square size={16} fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                onClick={() => handleSend()}
+                disabled={!input.trim()}
+                className={`absolute right-1.5 top-1/2 -translate-y-1/2 p-2 rounded-lg transition-colors ${
+                  !input.trim()
+                    ? 'text-gray-600 cursor-not-allowed' 
+                    : 'text-primary hover:bg-primary/10'
+                }`}
+              >
+                <Send size={16} />
+              </button>
+            )}
           </div>
           <p className="text-[10px] text-center text-gray-600 mt-2">
             {t.disclaimer}
           </p>
         </div>
 
+        {/* Saved Conversations Overlay (Sidebar Mode) */}
+        <ConversationList
+          isOpen={isConversationListOpen}
+          onClose={() => setIsConversationListOpen(false)}
+          activeId={activeConversationId}
+          onSelect={handleSelectConversation}
+          onDelete={handleDeleteConversation}
+          onNewChat={handleNewChat}
+          language={language}
+        />
+
         {/* Auth Overlay (Sidebar Mode) */}
         <AuthModal 
           isOpen={isAuthModalOpen}
@@ -462,6 +1041,45 @@ const MoviesGPTApp = () => {
           </div>
 
           <div className="flex items-center gap-4">
+             {/* Latest answer or the whole conversation */}
+             {viewMode === 'recommendations' && (
+               <>
+                 <div className="flex items-center bg-surfaceHighlight rounded-lg p-0.5 border border-white/10 text-sm" title={t.feedModeHint}>
+                   {(['latest', 'all'] as FeedMode[]).map(mode => (
+                     <button
+                       key={mode}
+                       onClick={() => setFeedMode(mode)}
+                       className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md transition-colors ${
+                         feedMode === mode ? 'bg-primary/20 text-white' : 'text-gray-400 hover:text-white'
+                       }`}
+                     >
+                       {mode === 'latest' ? <MessageSquare size={14} /> : <Layers size={14} />}
+                       <span className="hidden lg:inline">{mode === 'latest' ? t.latestAnswer : t.wholeConversation}</span>
+                       {mode === 'all' && feed.length > 0 && <span className="text-xs text-gray-500">{feed.length}</span>}
+                     </button>
+                   ))}
+                 </div>
+
+                 <div className="h-4 w-px bg-white/10"></div>
+               </>
+             )}
+
+             {/* Streamable Filter */}
+             <button
+                onClick={() => setStreamableOnly(!streamableOnly)}
+                className={`flex items-center gap-2 text-sm rounded-lg px-3 py-1.5 border transition-colors ${
+                  streamableOnly
+                    ? 'bg-primary/20 text-white border-primary/50'
+                    : 'bg-surfaceHighlight hover:bg-surfaceHighlight/80 text-gray-200 border-white/10'
+                }`}
+                title={t.streamableOnlyHint}
+             >
+                <MonitorPlay size={14} className="text-primary" />
+                <span className="hidden md:inline">{t.streamableOnly}</span>
+             </button>
+
+             <div className="h-4 w-px bg-white/10"></div>
+
              {/* Type Filter */}
              <div className="flex items-center gap-2">
                 <span className="text-xs text-textMuted uppercase tracking-wider font-medium hidden lg:block">{t.type}</span>
@@ -511,12 +1129,20 @@ const MoviesGPTApp = () => {
                         <ArrowUpDown size={14} className="text-primary" />
                         <select
                             value={sortBy}
-                            onChange={(e) => setSortBy(e.target.value as 'default' | 'newest' | 'oldest')}
+                            onChange={(e) => setSortBy(e.target.value as SortOption)}
                             className="bg-transparent border-none outline-none appearance-none cursor-pointer pr-4 focus:ring-0"
                         >
-                            <option value="default">{t.relevance}</option>
+                            <option value="default">{viewMode === 'watchlist' ? t.customOrder : t.relevance}</option>
                             <option value="newest">{t.newest}</option>
                             <option value="oldest">{t.oldest}</option>
+                            {viewMode === 'watchlist' && (
+                              <>
+                                <option value="added">{t.sortAdded}</option>
+                                <option value="status">{t.sortStatus}</option>
+                                <option value="myRating">{t.sortMyRating}</option>
+                                <option value="watchedDate">{t.sortWatchedDate}</option>
+                              </>
+                            )}
                         </select>
                     </div>
                 </div>
@@ -527,22 +1153,32 @@ const MoviesGPTApp = () => {
              {/* Download */}
              <div className="relative">
                 <button
-                    onClick={() => setShowDownloadMenu(!showDownloadMenu)}
+                    onClick={() => { setShowDownloadMenu(!showDownloadMenu); setImportError(false); }}
                     className="flex items-center gap-2 bg-surfaceHighlight hover:bg-surfaceHighlight/80 text-sm text-gray-200 rounded-lg px-3 py-1.5 border border-white/10 transition-colors"
                 >
                     <Download size={14} className="text-primary" />
                 </button>
+                <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImportFile} className="hidden" />
                 {showDownloadMenu && (
                     <>
                         <div className="fixed inset-0 z-40" onClick={() => setShowDownloadMenu(false)}></div>
-                        <div className="absolute right-0 mt-2 w-48 bg-surface border border-gray-800 rounded-xl shadow-xl z-50 overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200">
+                        <div className="absolute right-0 mt-2 w-60 bg-surface border border-gray-800 rounded-xl shadow-xl z-50 overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200">
                              <div className="p-1">
-                                <button onClick={handleDownloadPDF} className="flex items-center gap-3 w-full px-4 py-2 text-sm text-gray-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors">
-                                    <FileText size={16} className="text-red-500" /> <span>{t.downloadPdf}</span>
-                                </button>
-                                <button onClick={handleDownloadDOC} className="flex items-center gap-3 w-full px-4 py-2 text-sm text-gray-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors">
-                                    <File size={16} className="text-blue-500" /> <span>{t.downloadWord}</span>
+                                {EXPORT_OPTIONS.map(option => (
+                                    <button
+                                        key={option.format}
+                                        onClick={() => handleExport(option.format)}
+                                        disabled={displayMovies.length === 0}
+                                        className="flex items-center gap-3 w-full px-4 py-2 text-sm text-gray-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                                    >
+                                        <option.icon size={16} className={option.iconClass} /> <span>{t[option.labelKey]}</span>
+                                    </button>
+                                ))}
+                                <div className="my-1 h-px bg-white/10"></div>
+                                <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-3 w-full px-4 py-2 text-sm text-gray-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors">
+                                    <Upload size={16} className="text-gray-400" /> <span>{t.importList}</span>
                                 </button>
+                                {importError && <p className="px-4 pb-2 text-xs text-red-400">{t.importFailed}</p>}
                              </div>
                         </div>
                     </>
@@ -572,6 +1208,12 @@ const MoviesGPTApp = () => {
                                    <div className="p-4 border-b border-gray-800">
                                        <p className="text-sm font-bold text-white truncate">{user.displayName || t.guest}</p>
                                        <p className="text-xs text-gray-500 truncate">{user.email}</p>
+                                       {cloudSync.isEnabled && (
+                                           <p className={`flex items-center gap-1.5 mt-2 text-xs ${syncStatus === 'error' ? 'text-red-400' : 'text-gray-400'}`}>
+                                               {syncStatus === 'offline' || syncStatus === 'error' ? <CloudOff size={14} /> : <Cloud size={14} />}
+                                               {t[SYNC_STATUS_LABELS[syncStatus]]}
+                                           </p>
+                                       )}
                                    </div>
                                    <div className="p-1">
                                        <button
@@ -605,6 +1247,57 @@ const MoviesGPTApp = () => {
 
         {/* Grid */}
         <div className="flex-1 overflow-y-auto p-8 relative z-10 custom-scrollbar">
+          {viewMode === 'watchlist' && (
+            <CollectionBar
+              collections={collections}
+              activeId={activeCollectionId}
+              onSelect={selectCollection}
+              onCreate={() => setEditingCollection(null)}
+              onEdit={(collection) => setEditingCollection(collection)}
+              onDropEntry={handleDropOnCollection}
+              language={language}
+            />
+          )}
+
+          {/* Watch Status Tabs */}
+          {viewMode === 'watchlist' && watchlist.length > 0 && (
+            <div className="flex items-center gap-2 mb-6 flex-wrap">
+              {[{ value: 'all' as const, labelKey: 'allStatuses' }, ...WATCH_STATUSES].map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setWatchStatus(option.value)}
+                  className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-full border transition-colors ${
+                    watchStatus === option.value
+                      ? 'bg-primary/15 text-white border-primary/40'
+                      : 'text-textMuted border-white/10 hover:text-white hover:bg-white/5'
+                  }`}
+                >
+                  {t[option.labelKey]}
+                  <span className="text-[10px] font-bold bg-white/10 rounded-full px-1.5 py-0.5">
+                    {option.value === 'all' ? watchlist.length : watchStatusCounts[option.value]}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {similarThreads.length > 0 && (
+            <div className="space-y-4 mb-6">
+              {similarThreads.map(thread => (
+                <SimilarCarousel
+                  key={thread.id}
+                  thread={thread}
+                  onPlayTrailer={handlePlayTrailer}
+                  onFeedback={handleFeedback}
+                  onMoreLikeThis={movie => handleMoreLikeThis(movie, thread.source.title)}
+                  onRetry={loadSimilarThread}
+                  onClose={closeSimilarThread}
+                  language={language}
+                />
+              ))}
+            </div>
+          )}
+
           {hasInitializationError && displayMovies.length === 0 ? (
              <div className="h-full flex flex-col items-center justify-center text-textMuted space-y-6">
                  <div className="w-20 h-20 rounded-full bg-surfaceHighlight flex items-center justify-center border border-gray-800">
@@ -619,35 +1312,109 @@ const MoviesGPTApp = () => {
                  </button>
              </div>
           ) : displayMovies.length > 0 ? (
-            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4 gap-6 pb-20">
-              {displayMovies.map((movie, idx) => (
-                <MovieCard key={`${movie.title}-${movie.year}-${idx}`} movie={movie} index={idx} onToggle={refreshWatchlist} onPlayTrailer={handlePlayTrailer} language={language} />
+            <>
+            <div className={`grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4 gap-6 ${canLoadMore ? 'pb-6' : 'pb-20'}`}>
+              {displayMovies.map((movie, idx) => viewMode === 'watchlist' ? (
+                <div
+                  key={`${movie.title}-${movie.year}`}
+                  // Cards can always be dragged to another list; reordering needs the unsorted, unfiltered view
+                  draggable
+                  onDragStart={(e) => {
+                    draggedEntryRef.current = movie as WatchlistEntry;
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onDragOver={(e) => canReorder && e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDropOnEntry(movie as WatchlistEntry);
+                  }}
+                  onDragEnd={() => { draggedEntryRef.current = null; }}
+                  className={canReorder ? 'cursor-grab active:cursor-grabbing' : ''}
+                >
+                  <MovieCard movie={movie} index={idx} onPlayTrailer={handlePlayTrailer} onFeedback={handleFeedback} onMoreLikeThis={handleMoreLikeThis} language={language} collectionId={activeCollectionId}>
+                    <WatchTracker
+                      entry={movie as WatchlistEntry}
+                      collectionId={activeCollectionId}
+                      language={language}
+                    />
+                  </MovieCard>
+                </div>
+              ) : (
+                <MovieCard key={`${movie.title}-${movie.year}-${idx}`} movie={movie} index={idx} onPlayTrailer={handlePlayTrailer} onFeedback={handleFeedback} onMoreLikeThis={handleMoreLikeThis} language={language} />
               ))}
             </div>
+            {canLoadMore && <div className="flex justify-center pb-20">{renderFindMore()}</div>}
+            </>
           ) : (
              <div className="h-full flex flex-col items-center justify-center text-gray-500 space-y-4">
                 <div className="w-16 h-16 rounded-full bg-surfaceHighlight flex items-center justify-center">
-                    {filterDecade !== 'all' || filterGenre !== 'all' || filterIndustry !== 'all' || filterType !== 'all' ? <Filter size={32} className="opacity-50" /> : (viewMode === 'watchlist' ? <Bookmark size={32} className="opacity-50" /> : <Film size={32} className="opacity-50" />)}
+                    {hasActiveFilters ? <Filter size={32} className="opacity-50" /> : (viewMode === 'watchlist' ? <Bookmark size={32} className="opacity-50" /> : <Film size={32} className="opacity-50" />)}
                 </div>
-                <p>{filterDecade !== 'all' || filterGenre !== 'all' || filterIndustry !== 'all' || filterType !== 'all' ? t.emptyFilter : (viewMode === 'watchlist' ? t.emptyWatchlist : t.welcome)}</p>
-                {viewMode === 'watchlist' && filterDecade === 'all' && filterGenre === 'all' && filterIndustry === 'all' && filterType === 'all' && (
+                <p>{hasActiveFilters ? t.emptyFilter : (viewMode === 'watchlist' ? t.emptyWatchlist : t.welcome)}</p>
+                {viewMode === 'watchlist' && !hasActiveFilters && (
                     <button onClick={() => setViewMode('recommendations')} className="text-primary text-sm hover:underline">{t.browse}</button>
                 )}
+                {canLoadMore && hasActiveFilters && renderFindMore()}
              </div>
           )}
         </div>
       </div>
 
-      <TrailerModal movie={selectedTrailerMovie} isOpen={!!selectedTrailerMovie} onClose={closeTrailer} language={language} />
+      {route.name === 'title' && (
+        <TitleDetailPage
+          slug={route.slug}
+          year={route.year}
+          movie={detail.movie}
+          sources={detail.sources}
+          onPlayTrailer={handlePlayTrailer}
+          onFeedback={handleFeedback}
+          onSimilarLoaded={movies => setExtraTitles(prev => [...movies, ...prev].slice(0, 100))}
+          language={language}
+        />
+      )}
+      <TrailerModal movie={selectedTrailerMovie} isOpen={!!selectedTrailerMovie} onClose={closeTrailer} language={language} queue={displayMovies} onSelectMovie={setSelectedTrailerMovie} />
       <HistoryModal isOpen={isHistoryModalOpen} onClose={() => setIsHistoryModalOpen(false)} onSelect={handleHistorySelect} language={language} />
+      <ProfileModal isOpen={isProfileModalOpen} onClose={() => setIsProfileModalOpen(false)} language={language} />
+      <RequestBuilderModal
+        isOpen={isRequestBuilderOpen}
+        onClose={() => setIsRequestBuilderOpen(false)}
+        initial={requestConstraints}
+        knownTitles={knownTitles}
+        onSubmit={handleBuildRequest}
+        language={language}
+      />
+      <CollectionEditorModal
+        isOpen={editingCollection !== undefined}
+        collection={editingCollection || null}
+        onClose={() => setEditingCollection(undefined)}
+        onSaved={handleCollectionSaved}
+        onDeleted={handleCollectionDeleted}
+        language={language}
+      />
+      <SharedCollectionModal collection={sharedCollection} onClose={closeSharedCollection} onImport={handleImportCollection} language={language} />
+      <GuestMigrationModal
+        summary={guestSummary}
+        result={guestMigrationResult}
+        onMerge={handleMergeGuestData}
+        onDecline={handleDeclineGuestData}
+        onClose={closeGuestMigration}
+        language={language}
+      />
+      <DebugPanel isOpen={isDebugPanelOpen} onClose={() => setIsDebugPanelOpen(false)} refreshKey={recommendations} />
     </div>
   );
 };
 
 export default function App() {
   return (
-    <AuthProvider>
-      <MoviesGPTApp />
-    </AuthProvider>
+    <RouterProvider>
+      <AuthProvider>
+        <WatchlistProvider>
+          <StreamingProvider>
+            <MoviesGPTApp />
+          </StreamingProvider>
+        </WatchlistProvider>
+      </AuthProvider>
+    </RouterProvider>
   );
 }
\ No newline at end of file
@@ -1,16 +1,21 @@
-import React from 'react';
-import { Message, RecommendationResponse } from '../types';
-import { Bot, User, Globe } from 'lucide-react';
+import React, { useState } from 'react';
+import { Message, QuickReply, RecommendationResponse } from '../types';
+import { Bot, User, Globe, ChevronDown, CornerDownRight } from 'lucide-react';
 
 interface ChatBubbleProps {
   message: Message;
+  isStreaming?: boolean;
+  onQuickReply?: (text: string) => void;
+  disabled?: boolean;
 }
 
-export const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
+export const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isStreaming = false, onQuickReply, disabled = false }) => {
   const isUser = message.role === 'user';
+  const [openQuestion, setOpenQuestion] = useState<number | null>(null);
   
   let textContent = '';
   let clarifyingQuestions: string[] = [];
+  let quickReplies: QuickReply[] = [];
   let sources: { title: string; uri: string }[] = [];
 
   if (typeof message.content === 'string') {
@@ -19,9 +24,41 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
     const response = message.content as RecommendationResponse;
     textContent = response.summary;
     clarifyingQuestions = response.clarifyingQuestions || [];
+    quickReplies = response.quickReplies || [];
     sources = response.sources || [];
   }
 
+  const answersFor = (idx: number) => quickReplies.filter(reply => reply.questionIndex === idx);
+  const generalReplies = quickReplies.filter(reply => reply.questionIndex === undefined);
+  const isInteractive = !!onQuickReply && !disabled && !isStreaming;
+
+  // Questions with suggested answers expand into chips; the rest are sent as-is
+  const handleQuestionClick = (question: string, idx: number) => {
+    if (answersFor(idx).length > 0) {
+      setOpenQuestion(openQuestion === idx ? null : idx);
+    } else if (isInteractive) {
+      onQuickReply!(question);
+    }
+  };
+
+  const sendReply = (reply: QuickReply) => {
+    if (!isInteractive) return;
+    setOpenQuestion(null);
+    onQuickReply!(reply.message);
+  };
+
+  const renderReplyChip = (reply: QuickReply, key: React.Key) => (
+    <button
+      key={key}
+      onClick={() => sendReply(reply)}
+      disabled={!isInteractive}
+      title={reply.message}
+      className="px-3 py-1.5 bg-primary/10 border border-primary/30 text-primary text-xs rounded-full hover:bg-primary hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-primary/10 disabled:hover:text-primary"
+    >
+      {reply.label}
+    </button>
+  );
+
   return (
     <div className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div className={`flex max-w-[85%] md:max-w-[70%] gap-3 ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
@@ -40,7 +77,10 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
               ? 'bg-surfaceHighlight text-textMain rounded-tr-sm border border-gray-800' 
               : 'bg-surfaceHighlight/30 text-gray-200 rounded-tl-sm border border-transparent'
           }`}>
-            <p className="whitespace-pre-wrap">{textContent}</p>
+            <p className="whitespace-pre-wrap">
+              {textContent}
+              {isStreaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />}
+            </p>
           </div>
 
           {/* Sources (Model Only) */}
@@ -69,17 +109,43 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
              </div>
           )}
 
-          {/* Clarifying Questions (Only for Model) */}
-          {!isUser && clarifyingQuestions.length > 0 && (
+          {/* Clarifying Questions & Quick Replies (Only for Model) */}
+          {!isUser && (clarifyingQuestions.length > 0 || generalReplies.length > 0) && (
             <div className="flex flex-col gap-2 mt-2 w-full">
                <span className="text-xs text-textMuted uppercase tracking-wider ml-1">Refine your search</span>
-               <div className="flex flex-wrap gap-2">
-                 {clarifyingQuestions.map((q, idx) => (
-                   <div key={idx} className="px-3 py-1.5 bg-surfaceHighlight/50 border border-primary/20 text-primary text-xs rounded-full cursor-default">
-                     {q}
-                   </div>
-                 ))}
-               </div>
+               {clarifyingQuestions.length > 0 && (
+                 <div className="flex flex-col items-start gap-2">
+                   {clarifyingQuestions.map((q, idx) => {
+                     const answers = answersFor(idx);
+                     return (
+                       <div key={idx} className="flex flex-col items-start gap-1.5">
+                         <button
+                           onClick={() => handleQuestionClick(q, idx)}
+                           disabled={answers.length === 0 && !isInteractive}
+                           aria-expanded={answers.length > 0 ? openQuestion === idx : undefined}
+                           className="flex items-center gap-1.5 px-3 py-1.5 bg-surfaceHighlight/50 border border-primary/20 text-primary text-xs rounded-full text-left hover:border-primary/50 hover:bg-surfaceHighlight transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                         >
+                           {q}
+                           {answers.length > 0 && (
+                             <ChevronDown size={12} className={`shrink-0 transition-transform ${openQuestion === idx ? 'rotate-180' : ''}`} />
+                           )}
+                         </button>
+                         {openQuestion === idx && (
+                           <div className="flex flex-wrap items-center gap-1.5 pl-3 animate-in fade-in slide-in-from-top-1 duration-200">
+                             <CornerDownRight size={12} className="text-textMuted" />
+                             {answers.map((reply, replyIdx) => renderReplyChip(reply, replyIdx))}
+                           </div>
+                         )}
+                       </div>
+                     );
+                   })}
+                 </div>
+               )}
+               {generalReplies.length > 0 && (
+                 <div className="flex flex-wrap gap-2">
+                   {generalReplies.map((reply, idx) => renderReplyChip(reply, idx))}
+                 </div>
+               )}
             </div>
           )}
         </div>
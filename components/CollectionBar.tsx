@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Link2, Check, Library } from 'lucide-react';
+import { Collection, Language } from '../types';
+import { collectionShareService } from '../services/collectionShareService';
+import { translations } from '../translations';
+
+interface CollectionBarProps {
+  collections: Collection[];
+  activeId: string;
+  onSelect: (collectionId: string) => void;
+  onCreate: () => void;
+  onEdit: (collection: Collection) => void;
+  // A card dragged from the grid was dropped on another list's tab
+  onDropEntry: (collectionId: string) => void;
+  language: Language;
+}
+
+interface CollectionCoverProps {
+  name: string;
+  cover?: string;
+  className?: string;
+}
+
+// Cover image, or a tile with the list's initial when there is none
+export const CollectionCover: React.FC<CollectionCoverProps> = ({ name, cover, className = 'w-16 h-16' }) => {
+  const [failed, setFailed] = useState(false);
+
+  if (cover && !failed) {
+    return <img src={cover} alt={name} onError={() => setFailed(true)} className={`${className} rounded-xl object-cover border border-white/10 shrink-0`} />;
+  }
+  return (
+    <div className={`${className} rounded-xl bg-gradient-to-br from-primary/40 to-purple-900/40 border border-white/10 flex items-center justify-center text-2xl font-bold text-white/80 shrink-0`}>
+      {name.charAt(0).toUpperCase() || <Library size={20} />}
+    </div>
+  );
+};
+
+export const CollectionBar: React.FC<CollectionBarProps> = ({ collections, activeId, onSelect, onCreate, onEdit, onDropEntry, language }) => {
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [justCopied, setJustCopied] = useState(false);
+  const t = translations[language];
+
+  const active = collections.find(c => c.id === activeId) || collections[0];
+  const displayName = (collection: Collection) => collection.name || t.watchlist;
+
+  const handleShare = async () => {
+    const url = collectionShareService.buildShareUrl(collectionShareService.toShared(active, t.watchlist));
+    try {
+      await navigator.clipboard.writeText(url);
+      setJustCopied(true);
+      setTimeout(() => setJustCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mb-6">
+      {/* List Tabs */}
+      <div className="flex items-center gap-2 overflow-x-auto custom-scrollbar pb-1">
+        {collections.map(collection => (
+          <button
+            key={collection.id}
+            onClick={() => onSelect(collection.id)}
+            onDragOver={(e) => {
+              if (collection.id === activeId) return;
+              e.preventDefault();
+              setDropTargetId(collection.id);
+            }}
+            onDragLeave={() => setDropTargetId(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDropTargetId(null);
+              onDropEntry(collection.id);
+            }}
+            className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border whitespace-nowrap transition-colors ${
+              dropTargetId === collection.id
+                ? 'bg-primary/30 text-white border-primary border-dashed'
+                : collection.id === activeId
+                  ? 'bg-surfaceHighlight text-white border-white/20'
+                  : 'text-textMuted border-transparent hover:text-white hover:bg-white/5'
+            }`}
+          >
+            {displayName(collection)}
+            <span className="text-[10px] text-gray-500">{collection.items.length}</span>
+          </button>
+        ))}
+        <button
+          onClick={onCreate}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-primary hover:bg-primary/10 rounded-lg whitespace-nowrap transition-colors"
+        >
+          <Plus size={14} /> {t.newList}
+        </button>
+      </div>
+
+      {/* Active List Header */}
+      {active && (
+        <div className="flex items-center gap-4">
+          <CollectionCover name={displayName(active)} cover={active.cover} />
+          <div className="flex-1 min-w-0">
+            <h2 className="text-lg font-bold text-white truncate">{displayName(active)}</h2>
+            {active.description && <p className="text-sm text-gray-400 line-clamp-2">{active.description}</p>}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={() => onEdit(active)}
+              className="p-2 text-textMuted hover:text-white hover:bg-white/5 rounded-lg transition-colors"
+              title={t.editList}
+            >
+              <Pencil size={16} />
+            </button>
+            <button
+              onClick={handleShare}
+              disabled={active.items.length === 0}
+              className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border transition-colors disabled:opacity-40 ${
+                justCopied ? 'bg-green-600/20 text-green-400 border-green-600/40' : 'text-gray-200 border-white/10 hover:bg-white/5'
+              }`}
+            >
+              {justCopied ? <Check size={14} /> : <Link2 size={14} />}
+              {justCopied ? t.linkCopied : t.shareList}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
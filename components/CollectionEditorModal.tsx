@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { X, FolderPlus, Pencil, Trash2 } from 'lucide-react';
+import { Collection, Language } from '../types';
+import { CollectionDetails, DEFAULT_COLLECTION_ID } from '../services/watchlistService';
+import { translations } from '../translations';
+import { useWatchlist } from '../context/WatchlistContext';
+
+interface CollectionEditorModalProps {
+  isOpen: boolean;
+  // Edit this collection, or create a new one when null
+  collection: Collection | null;
+  onClose: () => void;
+  onSaved: (collectionId: string) => void;
+  onDeleted: (collectionId: string) => void;
+  language: Language;
+}
+
+export const CollectionEditorModal: React.FC<CollectionEditorModalProps> = ({ isOpen, collection, onClose, onSaved, onDeleted, language }) => {
+  const [details, setDetails] = useState<CollectionDetails>({ name: '', description: '', cover: '' });
+  const { createCollection, updateCollection, deleteCollection } = useWatchlist();
+  const t = translations[language];
+
+  useEffect(() => {
+    if (isOpen) {
+      setDetails({
+        name: collection?.name || '',
+        description: collection?.description || '',
+        cover: collection?.cover || '',
+      });
+    }
+  }, [isOpen, collection]);
+
+  if (!isOpen) return null;
+
+  const isDefault = collection?.id === DEFAULT_COLLECTION_ID;
+  const coverIsValid = !details.cover || /^https?:\/\//.test(details.cover.trim());
+  // The default list may keep an empty name and show the built-in label
+  const canSave = (isDefault || details.name.trim().length > 0) && coverIsValid;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    if (collection) {
+      updateCollection(collection.id, details);
+      onSaved(collection.id);
+    } else {
+      onSaved(createCollection(details).id);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!collection || isDefault) return;
+    if (!window.confirm(t.deleteListConfirm)) return;
+    deleteCollection(collection.id);
+    onDeleted(collection.id);
+  };
+
+  const inputClass = "w-full bg-surfaceHighlight border border-gray-700 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-primary";
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <form onSubmit={handleSubmit} className="relative w-full max-w-md bg-surface border border-surfaceHighlight rounded-2xl shadow-2xl overflow-hidden flex flex-col">
+
+        {/* Header */}
+        <div className="p-4 border-b border-surfaceHighlight flex items-center justify-between bg-surface/80 backdrop-blur-md">
+          <div className="flex items-center gap-2 text-white">
+            {collection ? <Pencil size={20} className="text-primary" /> : <FolderPlus size={20} className="text-primary" />}
+            <h2 className="font-bold text-lg">{collection ? t.editList : t.newList}</h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-textMuted hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <label className="block space-y-1.5">
+            <span className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.listName}</span>
+            <input
+              autoFocus
+              value={details.name}
+              onChange={(e) => setDetails({ ...details, name: e.target.value })}
+              placeholder={isDefault ? t.watchlist : t.listNamePlaceholder}
+              maxLength={80}
+              className={inputClass}
+            />
+          </label>
+
+          <label className="block space-y-1.5">
+            <span className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.listDescription}</span>
+            <textarea
+              value={details.description}
+              onChange={(e) => setDetails({ ...details, description: e.target.value })}
+              maxLength={300}
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+          </label>
+
+          <label className="block space-y-1.5">
+            <span className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.listCover}</span>
+            <input
+              value={details.cover}
+              onChange={(e) => setDetails({ ...details, cover: e.target.value })}
+              placeholder="https://..."
+              className={`${inputClass} ${coverIsValid ? '' : 'border-red-500/60'}`}
+            />
+          </label>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-surfaceHighlight bg-surface flex items-center gap-2">
+          {collection && !isDefault && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="flex items-center gap-2 px-3 py-2.5 text-sm font-medium text-red-400 hover:text-white hover:bg-red-500/10 border border-red-500/20 rounded-xl transition-all"
+            >
+              <Trash2 size={16} />
+              {t.deleteList}
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!canSave}
+            className="flex-1 py-2.5 bg-primary hover:bg-primaryHover text-white rounded-xl text-sm font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {t.save}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
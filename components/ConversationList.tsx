@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { X, MessagesSquare, Pencil, Trash2, Check, SquarePen } from 'lucide-react';
+import { Conversation, Language } from '../types';
+import { conversationService } from '../services/conversationService';
+import { translations } from '../translations';
+import { useAuth } from '../context/AuthContext';
+
+interface ConversationListProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeId: string | null;
+  onSelect: (conversation: Conversation) => void;
+  onDelete: (id: string) => void;
+  onNewChat: () => void;
+  language: Language;
+}
+
+export const ConversationList: React.FC<ConversationListProps> = ({ isOpen, onClose, activeId, onSelect, onDelete, onNewChat, language }) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const { user } = useAuth();
+  const t = translations[language];
+
+  useEffect(() => {
+    if (isOpen) {
+      setConversations(conversationService.getConversations(user?.uid));
+      setEditingId(null);
+    }
+  }, [isOpen, user]);
+
+  if (!isOpen) return null;
+
+  const startRename = (conversation: Conversation, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = (id: string) => {
+    conversationService.renameConversation(id, draftTitle, user?.uid);
+    setConversations(conversationService.getConversations(user?.uid));
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    conversationService.deleteConversation(id, user?.uid);
+    setConversations(conversationService.getConversations(user?.uid));
+    onDelete(id);
+  };
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex flex-col bg-background/95 backdrop-blur-xl animate-in fade-in slide-in-from-left-4 duration-300">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-surfaceHighlight bg-surface/50">
+        <div className="flex items-center gap-2">
+            <MessagesSquare size={16} className="text-primary" />
+            <h2 className="font-bold text-sm uppercase tracking-widest">{t.conversations}</h2>
+        </div>
+        <button onClick={onClose} className="p-2 text-textMuted hover:text-white hover:bg-white/5 rounded-full transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="p-2 border-b border-surfaceHighlight">
+        <button
+          onClick={onNewChat}
+          className="w-full flex items-center justify-center gap-2 py-2.5 text-sm font-medium text-primary hover:text-white hover:bg-primary/10 border border-primary/20 rounded-xl transition-all"
+        >
+          <SquarePen size={16} />
+          {t.newChat}
+        </button>
+      </div>
+
+      {/* List */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+        {conversations.length > 0 ? (
+          <div className="space-y-1">
+            {conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                onClick={() => editingId !== conversation.id && onSelect(conversation)}
+                className={`w-full flex items-center justify-between p-3 rounded-xl group transition-all duration-200 cursor-pointer ${
+                  conversation.id === activeId ? 'bg-primary/10 border border-primary/20' : 'hover:bg-surfaceHighlight border border-transparent'
+                }`}
+              >
+                {editingId === conversation.id ? (
+                  <form
+                    className="flex items-center gap-2 w-full"
+                    onSubmit={(e) => { e.preventDefault(); commitRename(conversation.id); }}
+                  >
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                      className="flex-1 bg-surfaceHighlight border border-gray-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-primary"
+                      aria-label={t.renameConversation}
+                    />
+                    <button type="submit" className="p-1.5 text-primary hover:bg-white/5 rounded-lg" title={t.save}>
+                      <Check size={14} />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <div className="flex flex-col overflow-hidden">
+                      <span className="text-gray-200 text-sm truncate pr-2 font-medium group-hover:text-white">{conversation.title}</span>
+                      <span className="text-[10px] text-gray-500">{formatTime(conversation.updatedAt)}</span>
+                    </div>
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                      <button
+                        onClick={(e) => startRename(conversation, e)}
+                        className="p-1.5 text-textMuted hover:text-white hover:bg-white/5 rounded-lg"
+                        title={t.renameConversation}
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => handleDelete(conversation.id, e)}
+                        className="p-1.5 text-textMuted hover:text-red-400 hover:bg-white/5 rounded-lg"
+                        title={t.deleteConversation}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-12 text-textMuted space-y-3">
+            <div className="w-12 h-12 rounded-full bg-surfaceHighlight flex items-center justify-center">
+              <MessagesSquare size={24} className="opacity-50" />
+            </div>
+            <p className="text-sm">{t.emptyConversations}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { X, Bug, RotateCcw } from 'lucide-react';
+import { geminiService } from '../services/geminiService';
+import { metadataService } from '../services/metadataService';
+import { availabilityService } from '../services/availabilityService';
+import { validationStatsService, ValidationStats } from '../services/validationStatsService';
+import { titleVerificationService, getVerificationMode, canFlagMisses, VerificationStats } from '../services/titleVerificationService';
+
+interface DebugPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Changes whenever new answers may have updated the stats
+  refreshKey?: unknown;
+}
+
+const percent = (count: number, total: number) => total > 0 ? `${Math.round((count / total) * 100)}%` : '–';
+
+const StatRow: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex items-center justify-between text-xs py-0.5">
+    <span className="text-gray-400">{label}</span>
+    <span className="font-mono text-gray-200">{value}</span>
+  </div>
+);
+
+const RecentList: React.FC<{ label: string; items: string[] }> = ({ label, items }) => items.length > 0 ? (
+  <div className="pt-2">
+    <p className="text-[10px] uppercase tracking-wider text-gray-500 font-bold mb-1">{label}</p>
+    <ul className="space-y-0.5">
+      {items.map((item, idx) => <li key={idx} className="text-[11px] text-gray-400 font-mono break-words">{item}</li>)}
+    </ul>
+  </div>
+) : null;
+
+// Developer view of model output quality; opened with Ctrl+Shift+D or ?debug in the URL.
+// Not translated on purpose: it's for whoever is tuning prompts and providers.
+export const DebugPanel: React.FC<DebugPanelProps> = ({ isOpen, onClose, refreshKey }) => {
+  const [validation, setValidation] = useState<ValidationStats>(validationStatsService.getStats());
+  const [verification, setVerification] = useState<VerificationStats>(titleVerificationService.getStats());
+
+  const reload = () => {
+    setValidation(validationStatsService.getStats());
+    setVerification(titleVerificationService.getStats());
+  };
+
+  useEffect(() => {
+    if (isOpen) reload();
+  }, [isOpen, refreshKey]);
+
+  if (!isOpen) return null;
+
+  const resetAll = () => {
+    validationStatsService.resetStats();
+    titleVerificationService.resetStats();
+    reload();
+  };
+
+  const sectionClass = "p-3 rounded-xl bg-surfaceHighlight/40 border border-white/5";
+  const headingClass = "text-[10px] uppercase tracking-wider text-primary font-bold mb-2";
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[70] w-80 max-h-[80vh] flex flex-col bg-surface border border-surfaceHighlight rounded-2xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-bottom-2 duration-200">
+      <div className="p-3 border-b border-surfaceHighlight flex items-center justify-between">
+        <div className="flex items-center gap-2 text-white">
+          <Bug size={16} className="text-primary" />
+          <h2 className="font-bold text-sm">Debug</h2>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={resetAll} className="p-1.5 text-textMuted hover:text-white hover:bg-white/5 rounded-lg transition-colors" title="Reset stats">
+            <RotateCcw size={14} />
+          </button>
+          <button onClick={onClose} className="p-1.5 text-textMuted hover:text-white hover:bg-white/5 rounded-lg transition-colors" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-3">
+        <section className={sectionClass}>
+          <h3 className={headingClass}>Providers</h3>
+          <StatRow label="Recommendations" value={geminiService.name} />
+          <StatRow label="Catalog" value={metadataService.providerName} />
+          <StatRow label="Availability" value={availabilityService.providerName} />
+          <StatRow label="Title check" value={`${getVerificationMode()}${canFlagMisses() ? '' : ' (demo catalog: misses not flagged)'}`} />
+        </section>
+
+        <section className={sectionClass}>
+          <h3 className={headingClass}>Response validation</h3>
+          <StatRow label="Responses" value={validation.total} />
+          <StatRow label="Valid" value={`${validation.outcomes.valid} (${percent(validation.outcomes.valid, validation.total)})`} />
+          <StatRow label="Coerced" value={validation.outcomes.coerced} />
+          <StatRow label="Repaired" value={`${validation.outcomes.repaired} / ${validation.repairAttempts} tries`} />
+          <StatRow label="Failed" value={validation.outcomes.failed} />
+          <StatRow label="Dropped titles" value={validation.droppedRecommendations} />
+          <RecentList label="Last issues" items={validation.lastIssues} />
+        </section>
+
+        <section className={sectionClass}>
+          <h3 className={headingClass}>Catalog check</h3>
+          <StatRow label="Titles checked" value={verification.total} />
+          <StatRow label="Verified" value={`${verification.outcomes.verified} (${percent(verification.outcomes.verified, verification.total)})`} />
+          <StatRow label="Corrected" value={`${verification.outcomes.corrected} (${percent(verification.outcomes.corrected, verification.total)})`} />
+          <StatRow label="Unverified" value={`${verification.outcomes.unverified} (${percent(verification.outcomes.unverified, verification.total)})`} />
+          <StatRow label="Not checked" value={verification.unchecked} />
+          <StatRow label="Dropped" value={verification.dropped} />
+          <RecentList label="Recently unverified" items={verification.lastUnverified} />
+          <RecentList label="Recent corrections" items={verification.lastCorrections} />
+        </section>
+      </div>
+    </div>
+  );
+};
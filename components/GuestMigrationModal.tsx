@@ -0,0 +1,94 @@
+import React from 'react';
+import { X, UserCheck, CheckCircle2 } from 'lucide-react';
+import { Language } from '../types';
+import { GuestDataSummary, GuestMigrationResult } from '../services/guestMigrationService';
+import { translations } from '../translations';
+
+interface GuestMigrationModalProps {
+  summary: GuestDataSummary | null;
+  // Set once the data was moved; switches the modal to the summary view
+  result: GuestMigrationResult | null;
+  onMerge: () => void;
+  onDecline: () => void;
+  onClose: () => void;
+  language: Language;
+}
+
+export const GuestMigrationModal: React.FC<GuestMigrationModalProps> = ({ summary, result, onMerge, onDecline, onClose, language }) => {
+  const t = translations[language];
+
+  if (!summary) return null;
+
+  const rows: { label: string; value: number }[] = result
+    ? [
+        { label: t.guestMoved, value: result.moved },
+        { label: t.guestDuplicates, value: result.duplicates },
+        { label: t.guestNewLists, value: result.newLists },
+        { label: t.guestSearchesAdded, value: result.searches },
+      ]
+    : [
+        { label: t.guestTitles, value: summary.titles },
+        { label: t.guestLists, value: summary.lists },
+        { label: t.guestSearches, value: summary.searches },
+      ];
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="relative w-full max-w-md bg-surface border border-surfaceHighlight rounded-2xl shadow-2xl overflow-hidden flex flex-col">
+
+        {/* Header */}
+        <div className="p-4 border-b border-surfaceHighlight flex items-center justify-between bg-surface/80 backdrop-blur-md">
+          <div className="flex items-center gap-2 text-white">
+            {result ? <CheckCircle2 size={20} className="text-green-400" /> : <UserCheck size={20} className="text-primary" />}
+            <h2 className="font-bold text-lg">{result ? t.guestMigrated : t.guestDataTitle}</h2>
+          </div>
+          <button
+            onClick={result ? onClose : onDecline}
+            className="p-2 text-textMuted hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {!result && <p className="text-sm text-gray-400">{t.guestDataBody}</p>}
+          <dl className="space-y-1">
+            {rows.map(row => (
+              <div key={row.label} className="flex items-center justify-between px-3 py-2 rounded-lg bg-surfaceHighlight/50 text-sm">
+                <dt className="text-gray-300">{row.label}</dt>
+                <dd className="font-bold text-white">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-surfaceHighlight bg-surface flex items-center gap-2">
+          {result ? (
+            <button
+              onClick={onClose}
+              className="flex-1 py-2.5 bg-primary hover:bg-primaryHover text-white rounded-xl text-sm font-bold transition-all"
+            >
+              {t.done}
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onDecline}
+                className="px-4 py-2.5 text-sm font-medium text-gray-300 hover:text-white hover:bg-white/5 border border-white/10 rounded-xl transition-all"
+              >
+                {t.guestKeepSeparate}
+              </button>
+              <button
+                onClick={onMerge}
+                className="flex-1 py-2.5 bg-primary hover:bg-primaryHover text-white rounded-xl text-sm font-bold transition-all"
+              >
+                {t.guestMerge}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
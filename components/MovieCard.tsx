@@ -1,35 +1,82 @@
 
-import React, { useState, useEffect } from 'react';
-import { Movie, Language } from '../types';
-import { Star, Clock, Calendar, Info, Bookmark, Check, Share2, Play, FileText, Globe, Clapperboard, Sparkles, Tv, Layers } from 'lucide-react';
-import { watchlistService } from '../services/watchlistService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Movie, Language, FeedbackVerdict, TitleFeedback, TitleMetadata, ConstraintKey } from '../types';
+import { Star, Clock, Calendar, Info, Bookmark, Check, Share2, Play, FileText, Globe, Clapperboard, Sparkles, Tv, Layers, ThumbsUp, ThumbsDown, Eye, Users, ExternalLink, AlertTriangle, BadgeCheck, ScanSearch } from 'lucide-react';
 import { geminiService } from '../services/geminiService';
+import { metadataService } from '../services/metadataService';
+import { tasteProfileService } from '../services/tasteProfileService';
+import { feedbackService } from '../services/feedbackService';
 import { translations } from '../translations';
+import { useAuth } from '../context/AuthContext';
+import { useWatchlist } from '../context/WatchlistContext';
+import { useRouter } from '../context/RouterContext';
+import { titleRoute, routeUrl } from '../services/router';
+import { WhereToWatch } from './WhereToWatch';
 
 interface MovieCardProps {
   movie: Movie;
   index: number;
-  onToggle?: () => void;
   onPlayTrailer?: (movie: Movie) => void;
+  onFeedback?: (movie: Movie, feedback: TitleFeedback | null) => void;
+  // Opens a carousel of similar titles; the button is hidden without it
+  onMoreLikeThis?: (movie: Movie) => void;
   language?: Language;
+  // List the bookmark saves to and removes from; the main watchlist when unset
+  collectionId?: string;
+  // Extra controls rendered at the bottom of the card body
+  children?: React.ReactNode;
 }
 
-export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, onPlayTrailer, language = 'English' }) => {
-  // Generate a deterministic random image based on title length to simulate variety
-  const seed = movie.title.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  const imageUrl = `https://picsum.photos/seed/${seed}/400/600`;
+// Translation key for each constraint a title can break
+const VIOLATION_LABEL_KEYS: Record<ConstraintKey, string> = {
+  type: 'violationType',
+  runtime: 'violationRuntime',
+  seasons: 'violationSeasons',
+  language: 'violationLanguage',
+  industry: 'violationIndustry',
+  era: 'violationEra',
+  contentRating: 'violationContentRating',
+  similarTo: 'violationSimilarTo',
+};
+
+// Same shape as the model's runtimes, e.g. "2h 28m"
+const formatRuntime = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
 
-  const [inWatchlist, setInWatchlist] = useState(false);
+export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onPlayTrailer, onFeedback, onMoreLikeThis, language = 'English', collectionId, children }) => {
   const [justShared, setJustShared] = useState(false);
+  const [verdict, setVerdict] = useState<FeedbackVerdict | null>(null);
+  const [reason, setReason] = useState('');
+  const [showReason, setShowReason] = useState(false);
+  const { user } = useAuth();
+  const [metadata, setMetadata] = useState<TitleMetadata | null>(() => metadataService.peek(movie) || null);
+  const [posterFailed, setPosterFailed] = useState(false);
+  const { isInWatchlist, addToWatchlist, removeFromWatchlist } = useWatchlist();
+  const { navigate } = useRouter();
+  const inWatchlist = isInWatchlist(movie, collectionId);
   const t = translations[language];
   
   // Synopsis state
   const [synopsis, setSynopsis] = useState<string>(movie.synopsis || '');
   const [loadingSynopsis, setLoadingSynopsis] = useState(false);
 
+  // Catalog details (artwork, cast, runtime); cached, so usually instant
+  useEffect(() => {
+    let active = true;
+    setMetadata(metadataService.peek(movie) || null);
+    setPosterFailed(false);
+    metadataService.getMetadata(movie).then(result => {
+      if (active) setMetadata(result);
+    });
+    return () => { active = false; };
+  }, [movie.title, movie.year, movie.type]);
+
   useEffect(() => {
-    setInWatchlist(watchlistService.isInWatchlist(movie));
-  }, [movie]);
+    const feedback = feedbackService.getFeedback(movie, user?.uid);
+    setVerdict(feedback?.verdict || null);
+    setReason(feedback?.reason || '');
+    setShowReason(false);
+  }, [movie, user]);
 
   // Handle Synopsis: Use prop if available, otherwise fetch
   useEffect(() => {
@@ -63,27 +110,57 @@ export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, on
   const toggleWatchlist = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (inWatchlist) {
-      watchlistService.removeFromWatchlist(movie);
-      setInWatchlist(false);
+      removeFromWatchlist(movie, collectionId);
+    } else {
+      addToWatchlist(movie, collectionId);
+      tasteProfileService.recordSignal('watchlist', movie, user?.uid);
+    }
+  };
+
+  // Clicking the active control again clears it
+  const handleFeedback = (value: FeedbackVerdict) => {
+    if (verdict === value) {
+      feedbackService.clearFeedback(movie, user?.uid);
+      setVerdict(null);
+      setReason('');
+      setShowReason(false);
+      onFeedback && onFeedback(movie, null);
     } else {
-      watchlistService.addToWatchlist(movie);
-      setInWatchlist(true);
+      const feedback = feedbackService.setFeedback(movie, value, user?.uid);
+      setVerdict(value);
+      setReason('');
+      // Only a dislike asks why; the reason is optional
+      setShowReason(value === 'dislike');
+      onFeedback && onFeedback(movie, feedback);
     }
-    
-    if (onToggle) {
-      onToggle();
+  };
+
+  const submitReason = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (verdict) {
+      const feedback = feedbackService.setFeedback(movie, verdict, user?.uid, reason);
+      onFeedback && onFeedback(movie, feedback);
     }
+    setShowReason(false);
   };
 
+  const feedbackButtonClass = (value: FeedbackVerdict, activeClass: string) =>
+    `p-1.5 rounded-lg border transition-colors ${
+      verdict === value ? activeClass : 'text-textMuted border-transparent hover:text-white hover:bg-white/5'
+    }`;
+
   const handleShare = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    const shareText = `🎬 ${t.shareTitle}: ${movie.title} (${movie.year})\n⭐ ${t.shareRating}: ${movie.rating}\n🎭 ${t.shareGenre}: ${movie.genres.join(', ')}\n\n"${movie.reason}"\n\n${t.shareRecommended}`;
+    // Links open the title page, which rebuilds the details on the other end
+    const url = routeUrl(titleRoute(movie));
+    const shareText = `🎬 ${t.shareTitle}: ${movie.title} (${movie.year}) · ⭐ ${movie.rating} · ${t.shareRecommended}`;
 
     if (navigator.share) {
       try {
         await navigator.share({
-          title: `${t.watchTrailer} ${movie.title}`,
+          title: `${movie.title} (${movie.year})`,
           text: shareText,
+          url,
         });
       } catch (err) {
         // User cancelled or share failed
@@ -91,7 +168,7 @@ export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, on
       }
     } else {
       try {
-        await navigator.clipboard.writeText(shareText);
+        await navigator.clipboard.writeText(url);
         setJustShared(true);
         setTimeout(() => setJustShared(false), 2000);
       } catch (err) {
@@ -101,13 +178,22 @@ export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, on
   };
 
   const isTv = movie.type === 'tv';
+  const verification = movie.verification;
+
+  const placeholderPoster = useMemo(() => metadataService.getPlaceholderPoster(movie), [movie.title, movie.year]);
+  const posterUrl = metadata?.posterUrl && !posterFailed ? metadata.posterUrl : placeholderPoster;
+  // The catalog's year and runtime win over the model's; shows keep their year range
+  const displayYear = !isTv && metadata?.year ? metadata.year : movie.year;
+  const displayRuntime = !isTv && metadata?.runtimeMinutes ? formatRuntime(metadata.runtimeMinutes) : movie.runtime;
+  const imdbUrl = metadata?.externalIds.imdb ? `https://www.imdb.com/title/${metadata.externalIds.imdb}/` : undefined;
 
   return (
     <div className="group relative bg-surface border border-surfaceHighlight rounded-xl overflow-hidden hover:border-gray-700 transition-all duration-300 flex flex-col h-full shadow-lg">
       <div className="relative aspect-[2/3] overflow-hidden bg-surfaceHighlight">
         <img 
-          src={imageUrl} 
-          alt={movie.title} 
+          src={posterUrl}
+          alt={movie.title}
+          onError={() => setPosterFailed(true)}
           className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105 opacity-90 group-hover:opacity-100"
           loading="lazy"
         />
@@ -156,22 +242,46 @@ export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, on
             >
               {justShared ? <Check size={16} /> : <Share2 size={16} />}
             </button>
+
+            {/* More Like This Button */}
+            {onMoreLikeThis && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMoreLikeThis(movie);
+                }}
+                className="p-2 rounded-full backdrop-blur-md border bg-black/40 text-white border-white/20 hover:bg-black/60 transition-all duration-200"
+                aria-label={t.moreLikeThis}
+                title={t.moreLikeThis}
+              >
+                <ScanSearch size={16} />
+              </button>
+            )}
         </div>
 
         <div className="absolute bottom-0 left-0 right-0 p-4 z-20 pointer-events-none">
           <h3 className="text-xl font-bold text-white leading-tight mb-1 drop-shadow-md flex items-center gap-2">
-            {movie.title}
+            <button
+              onClick={() => navigate(titleRoute(movie))}
+              className="pointer-events-auto text-left hover:underline underline-offset-4 decoration-primary"
+              title={t.viewDetails}
+            >
+              {movie.title}
+            </button>
           </h3>
           
           {/* Metadata Row */}
           <div className="flex items-center text-sm text-gray-300 space-x-3 flex-wrap gap-y-1 mb-1">
-            <span className="flex items-center"><Calendar size={14} className="mr-1" /> {movie.year}</span>
+            <span className="flex items-center"><Calendar size={14} className="mr-1" /> {displayYear}</span>
             <span className="flex items-center"><Star size={14} className="mr-1 text-yellow-500" /> {movie.rating}</span>
+            {movie.contentRating && (
+              <span className="px-1.5 py-px text-[10px] font-bold border border-gray-500 rounded text-gray-300">{movie.contentRating}</span>
+            )}
             {/* Show Runtime OR Seasons */}
             {isTv && movie.totalSeasons ? (
                 <span className="flex items-center text-blue-300"><Layers size={14} className="mr-1" /> {movie.totalSeasons}</span>
             ) : (
-                <span className="flex items-center"><Clock size={14} className="mr-1" /> {movie.runtime}</span>
+                <span className="flex items-center"><Clock size={14} className="mr-1" /> {displayRuntime}</span>
             )}
             
             {/* Language + Industry (if available) */}
@@ -190,6 +300,14 @@ export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, on
                 <span className="font-medium text-gray-200">{movie.director}</span>
             </div>
           )}
+
+          {/* Cast Row */}
+          {metadata && metadata.cast.length > 0 && (
+            <div className="flex items-center text-xs text-gray-400 mt-0.5">
+                <Users size={12} className="mr-1.5 text-primary shrink-0" />
+                <span className="truncate" title={`${t.starring}: ${metadata.cast.join(', ')}`}>{metadata.cast.slice(0, 3).join(', ')}</span>
+            </div>
+          )}
         </div>
         
         {/* Type Badge (TV vs Movie) */}
@@ -197,6 +315,23 @@ export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, on
           {isTv ? <Tv size={10} /> : null}
           {isTv ? 'TV' : `#${index + 1}`}
         </div>
+
+        {/* Catalog Check Badge; verified titles need no marker */}
+        {verification && verification.status !== 'verified' && (
+          <div
+            className={`absolute top-10 right-2 backdrop-blur-md text-[10px] font-bold px-2 py-1 rounded-full border z-20 flex items-center gap-1 ${
+              verification.status === 'unverified'
+                ? 'bg-yellow-500/80 text-black border-yellow-300/40'
+                : 'bg-blue-900/70 text-blue-100 border-blue-400/30'
+            }`}
+            title={verification.status === 'unverified'
+              ? t.unverifiedHint
+              : [t.correctedHint, ...(verification.corrections || [])].join('\n')}
+          >
+            {verification.status === 'unverified' ? <AlertTriangle size={10} /> : <BadgeCheck size={10} />}
+            {verification.status === 'unverified' ? t.unverified : t.corrected}
+          </div>
+        )}
       </div>
 
       <div className="p-4 flex flex-col flex-grow space-y-3 relative z-10">
@@ -209,6 +344,22 @@ export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, on
           ))}
         </div>
 
+        {/* Where to Watch */}
+        <WhereToWatch movie={movie} language={language} />
+
+        {/* Request Check: limits from the preference builder this title breaks */}
+        {movie.constraintViolations && movie.constraintViolations.length > 0 && (
+          <div className="flex items-start gap-2 bg-orange-900/20 border border-orange-500/30 rounded-lg px-2.5 py-2" title={t.offBriefHint}>
+            <AlertTriangle size={14} className="text-orange-400 mt-0.5 shrink-0" />
+            <p className="text-xs text-orange-200 leading-snug">
+              <span className="font-semibold">{t.offBrief}:</span>{' '}
+              {movie.constraintViolations.map(v =>
+                `${t[VIOLATION_LABEL_KEYS[v.constraint]]}: ${v.constraint === 'type' ? (v.actual === 'tv' ? t.tvSeries : t.movies) : v.actual}`
+              ).join(' · ')}
+            </p>
+          </div>
+        )}
+
         {/* Special Feature Badge */}
         {movie.specialFeature && (
             <div className="bg-gradient-to-r from-purple-900/30 to-blue-900/30 border border-purple-500/20 rounded-lg px-2.5 py-2">
@@ -232,6 +383,17 @@ export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, on
              <div className="flex items-center gap-1.5 mb-1">
                 <FileText size={12} className="text-textMuted" />
                 <h4 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.synopsis}</h4>
+                {imdbUrl && (
+                  <a
+                    href={imdbUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="ml-auto flex items-center gap-1 text-[10px] font-bold text-yellow-500/80 hover:text-yellow-400 transition-colors"
+                  >
+                    IMDb <ExternalLink size={10} />
+                  </a>
+                )}
              </div>
              {loadingSynopsis ? (
                  <div className="space-y-1.5 animate-pulse">
@@ -245,6 +407,64 @@ export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, on
              )}
         </div>
 
+        {/* Taste Feedback */}
+        <div className="px-1 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.rateThis}</span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => handleFeedback('like')}
+                className={feedbackButtonClass('like', 'bg-green-600/20 text-green-400 border-green-600/40')}
+                aria-pressed={verdict === 'like'}
+                aria-label={t.like}
+                title={t.like}
+              >
+                <ThumbsUp size={14} />
+              </button>
+              <button
+                onClick={() => handleFeedback('dislike')}
+                className={feedbackButtonClass('dislike', 'bg-red-600/20 text-red-400 border-red-600/40')}
+                aria-pressed={verdict === 'dislike'}
+                aria-label={t.dislike}
+                title={t.dislike}
+              >
+                <ThumbsDown size={14} />
+              </button>
+              <button
+                onClick={() => handleFeedback('seen')}
+                className={feedbackButtonClass('seen', 'bg-blue-600/20 text-blue-300 border-blue-600/40')}
+                aria-pressed={verdict === 'seen'}
+                aria-label={t.alreadySeen}
+                title={t.alreadySeen}
+              >
+                <Eye size={14} />
+              </button>
+            </div>
+          </div>
+
+          {showReason ? (
+            <form onSubmit={submitReason} className="flex gap-2">
+              <input
+                autoFocus
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setShowReason(false)}
+                placeholder={t.dislikeReasonPlaceholder}
+                className="flex-1 bg-surfaceHighlight border border-gray-700 rounded-lg px-2 py-1 text-xs text-white placeholder-gray-500 focus:outline-none focus:border-primary"
+                aria-label={t.dislikeReason}
+              />
+              <button type="submit" className="px-2 py-1 text-xs text-primary hover:bg-primary/10 rounded-lg">
+                {t.save}
+              </button>
+            </form>
+          ) : (verdict === 'dislike' || verdict === 'seen') && (
+            <p className="text-[11px] text-gray-500">
+              {t.hiddenFromFuturePicks}
+              {verdict === 'dislike' && reason && <span className="italic"> — "{reason}"</span>}
+            </p>
+          )}
+        </div>
+
         {/* Tone & Context */}
         <div className="grid grid-cols-2 gap-2 mt-auto pt-2 text-xs text-gray-400 border-t border-white/5">
           <div className="flex flex-col">
@@ -257,6 +477,8 @@ export const MovieCard: React.FC<MovieCardProps> = ({ movie, index, onToggle, on
           </div>
         </div>
         
+        {children}
+
         {/* Mobile-only Play Button (Visible below image on small screens) */}
         <button
             onClick={() => onPlayTrailer && onPlayTrailer(movie)}
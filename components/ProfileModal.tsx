@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { X, SlidersHorizontal, ThumbsUp, ThumbsDown, Plus, Trash2 } from 'lucide-react';
+import { Language, RuntimePreference, TasteProfile, TitleRef } from '../types';
+import { tasteProfileService, createEmptyProfile, topAffinities } from '../services/tasteProfileService';
+import { GENRES, INDUSTRIES, CONTENT_LANGUAGES, STREAMING_COUNTRIES, STREAMING_SERVICES } from '../constants';
+import { translations } from '../translations';
+import { useAuth } from '../context/AuthContext';
+import { useStreaming } from '../context/StreamingContext';
+
+interface ProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  language: Language;
+}
+
+// Translation key for each runtime option
+const RUNTIME_OPTIONS: { value: RuntimePreference; labelKey: string }[] = [
+  { value: 'any', labelKey: 'runtimeAny' },
+  { value: 'short', labelKey: 'runtimeShort' },
+  { value: 'medium', labelKey: 'runtimeMedium' },
+  { value: 'long', labelKey: 'runtimeLong' },
+];
+
+export const ProfileModal: React.FC<ProfileModalProps> = ({ isOpen, onClose, language }) => {
+  const [profile, setProfile] = useState<TasteProfile>(createEmptyProfile());
+  const [avoidDraft, setAvoidDraft] = useState('');
+  const { user } = useAuth();
+  const { preferences: streaming, updatePreferences: updateStreaming } = useStreaming();
+  const t = translations[language];
+
+  useEffect(() => {
+    if (isOpen) {
+      setProfile(tasteProfileService.getProfile(user?.uid));
+      setAvoidDraft('');
+    }
+  }, [isOpen, user]);
+
+  if (!isOpen) return null;
+
+  // Every edit is saved immediately so the next prompt picks it up
+  const update = (changes: Partial<TasteProfile>) => {
+    const next = { ...profile, ...changes };
+    tasteProfileService.saveProfile(next, user?.uid);
+    setProfile(next);
+  };
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const addAvoid = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = avoidDraft.trim();
+    if (value && !profile.avoid.includes(value)) {
+      update({ avoid: [...profile.avoid, value] });
+    }
+    setAvoidDraft('');
+  };
+
+  const removeTitle = (key: 'likedTitles' | 'dislikedTitles', ref: TitleRef) => {
+    update({ [key]: profile[key].filter(item => !(item.title === ref.title && item.year === ref.year)) });
+  };
+
+  const handleReset = () => {
+    const empty = createEmptyProfile();
+    tasteProfileService.saveProfile(empty, user?.uid);
+    setProfile(empty);
+  };
+
+  const inferred = topAffinities(profile.affinity.genres, 5);
+
+  const renderChips = (options: string[], selected: string[], onToggle: (value: string) => void) => (
+    <div className="flex flex-wrap gap-1.5">
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onToggle(option)}
+          className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${
+            selected.includes(option)
+              ? 'bg-primary/20 text-white border-primary/50'
+              : 'bg-surfaceHighlight text-gray-400 border-gray-800 hover:text-white'
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderTitles = (key: 'likedTitles' | 'dislikedTitles', icon: React.ReactNode) => (
+    profile[key].length > 0 ? (
+      <div className="space-y-1">
+        {profile[key].map(ref => (
+          <div key={`${ref.title}-${ref.year}`} className="flex items-center justify-between px-3 py-1.5 rounded-lg bg-surfaceHighlight/50 group">
+            <span className="flex items-center gap-2 text-sm text-gray-300 truncate">
+              {icon}
+              <span className="truncate">{ref.title} <span className="text-gray-500">({ref.year})</span></span>
+            </span>
+            <button
+              onClick={() => removeTitle(key, ref)}
+              className="p-1 text-textMuted hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              title={t.remove}
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+    ) : (
+      <p className="text-xs text-gray-500">{t.noRatedTitles}</p>
+    )
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="relative w-full max-w-lg bg-surface border border-surfaceHighlight rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+
+        {/* Header */}
+        <div className="p-4 border-b border-surfaceHighlight flex items-center justify-between bg-surface/80 backdrop-blur-md">
+          <div className="flex items-center gap-2 text-white">
+            <SlidersHorizontal size={20} className="text-primary" />
+            <h2 className="font-bold text-lg">{t.tasteProfile}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-textMuted hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6">
+          <p className="text-xs text-gray-400">{t.tasteProfileHint}</p>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.favoriteGenres}</h3>
+            {renderChips(GENRES, profile.favoriteGenres, value => update({ favoriteGenres: toggle(profile.favoriteGenres, value) }))}
+            {inferred.length > 0 && (
+              <p className="text-[11px] text-gray-500">{t.inferredFromActivity}: {inferred.join(', ')}</p>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.favoriteIndustries}</h3>
+            {renderChips(INDUSTRIES, profile.favoriteIndustries, value => update({ favoriteIndustries: toggle(profile.favoriteIndustries, value) }))}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.favoriteLanguages}</h3>
+            {renderChips(CONTENT_LANGUAGES, profile.favoriteLanguages, value => update({ favoriteLanguages: toggle(profile.favoriteLanguages, value) }))}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.preferredRuntime}</h3>
+            <div className="grid grid-cols-4 gap-1.5">
+              {RUNTIME_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => update({ preferredRuntime: option.value })}
+                  className={`py-1.5 text-xs rounded-lg border transition-colors ${
+                    profile.preferredRuntime === option.value
+                      ? 'bg-primary/20 text-white border-primary/50'
+                      : 'bg-surfaceHighlight text-gray-400 border-gray-800 hover:text-white'
+                  }`}
+                >
+                  {t[option.labelKey]}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.whereYouWatch}</h3>
+            <select
+              value={streaming.country}
+              onChange={(e) => updateStreaming({ country: e.target.value })}
+              className="w-full bg-surfaceHighlight border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-primary"
+              aria-label={t.streamingCountry}
+            >
+              {STREAMING_COUNTRIES.map(country => <option key={country.code} value={country.code}>{country.name}</option>)}
+            </select>
+            <p className="text-[11px] text-gray-500">{t.myServices}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {STREAMING_SERVICES.map(service => (
+                <button
+                  key={service.id}
+                  onClick={() => updateStreaming({ services: toggle(streaming.services, service.id) })}
+                  className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${
+                    streaming.services.includes(service.id)
+                      ? 'bg-primary/20 text-white border-primary/50'
+                      : 'bg-surfaceHighlight text-gray-400 border-gray-800 hover:text-white'
+                  }`}
+                >
+                  {service.name}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.avoidContent}</h3>
+            <form onSubmit={addAvoid} className="flex gap-2">
+              <input
+                value={avoidDraft}
+                onChange={(e) => setAvoidDraft(e.target.value)}
+                placeholder={t.avoidPlaceholder}
+                className="flex-1 bg-surfaceHighlight border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-primary"
+              />
+              <button type="submit" disabled={!avoidDraft.trim()} className="p-2 text-primary hover:bg-primary/10 rounded-lg disabled:opacity-40" title={t.add}>
+                <Plus size={16} />
+              </button>
+            </form>
+            <div className="flex flex-wrap gap-1.5">
+              {profile.avoid.map(item => (
+                <span key={item} className="flex items-center gap-1 px-2.5 py-1 text-xs rounded-full bg-red-900/20 text-red-200 border border-red-500/20">
+                  {item}
+                  <button onClick={() => update({ avoid: profile.avoid.filter(a => a !== item) })} className="hover:text-white" title={t.remove}>
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.likedTitles}</h3>
+            {renderTitles('likedTitles', <ThumbsUp size={12} className="text-green-400 shrink-0" />)}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.dislikedTitles}</h3>
+            {renderTitles('dislikedTitles', <ThumbsDown size={12} className="text-red-400 shrink-0" />)}
+          </section>
+        </div>
+
+        {/* Footer */}
+        {!tasteProfileService.isEmpty(profile) && (
+          <div className="p-4 border-t border-surfaceHighlight bg-surface">
+            <button
+              onClick={handleReset}
+              className="w-full flex items-center justify-center gap-2 py-2.5 text-sm font-medium text-red-400 hover:text-white hover:bg-red-500/10 border border-red-500/20 rounded-xl transition-all"
+            >
+              <Trash2 size={16} />
+              {t.resetProfile}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { X, Wand2, Plus, Search } from 'lucide-react';
+import { Language, RequestConstraints, TitleRef } from '../types';
+import { createEmptyConstraints, countConstraints, CONTENT_RATINGS } from '../services/requestConstraints';
+import { INDUSTRIES, CONTENT_LANGUAGES } from '../constants';
+import { translations } from '../translations';
+
+interface RequestBuilderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // What the builder opens with, usually the constraints already in use
+  initial: RequestConstraints | null;
+  // Offered in the "similar to" picker
+  knownTitles: TitleRef[];
+  onSubmit: (constraints: RequestConstraints, note: string) => void;
+  language: Language;
+}
+
+const TYPE_OPTIONS: { value: RequestConstraints['type']; labelKey: string }[] = [
+  { value: undefined, labelKey: 'allTypes' },
+  { value: 'movie', labelKey: 'movies' },
+  { value: 'tv', labelKey: 'tvSeries' },
+];
+
+const formatRef = (ref: TitleRef) => ref.year ? `${ref.title} (${ref.year})` : ref.title;
+
+// "Arrival (2016)" -> { title: 'Arrival', year: '2016' }
+const parseRef = (text: string): TitleRef => {
+  const match = text.trim().match(/^(.+?)\s*\((\d{4})\)$/);
+  return match ? { title: match[1], year: match[2] } : { title: text.trim(), year: '' };
+};
+
+// Empty inputs mean "no preference"
+const toNumber = (value: string): number | undefined => {
+  const number = parseInt(value, 10);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+export const RequestBuilderModal: React.FC<RequestBuilderModalProps> = ({ isOpen, onClose, initial, knownTitles, onSubmit, language }) => {
+  const [draft, setDraft] = useState<RequestConstraints>(createEmptyConstraints());
+  const [note, setNote] = useState('');
+  const [similarDraft, setSimilarDraft] = useState('');
+  const t = translations[language];
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(initial || createEmptyConstraints());
+      setNote('');
+      setSimilarDraft('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<RequestConstraints>) => setDraft(current => ({ ...current, ...changes }));
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const addSimilar = (e: React.FormEvent) => {
+    e.preventDefault();
+    const ref = parseRef(similarDraft);
+    if (ref.title && !draft.similarTo.some(item => item.title === ref.title && item.year === ref.year)) {
+      update({ similarTo: [...draft.similarTo, ref] });
+    }
+    setSimilarDraft('');
+  };
+
+  const handleSubmit = () => {
+    onSubmit(draft, note.trim());
+    onClose();
+  };
+
+  const optionClass = (active: boolean) => `py-1.5 text-xs rounded-lg border transition-colors ${
+    active ? 'bg-primary/20 text-white border-primary/50' : 'bg-surfaceHighlight text-gray-400 border-gray-800 hover:text-white'
+  }`;
+
+  const inputClass = 'w-full bg-surfaceHighlight border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-primary';
+
+  const renderChips = (options: string[], selected: string[], onToggle: (value: string) => void) => (
+    <div className="flex flex-wrap gap-1.5">
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onToggle(option)}
+          className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${
+            selected.includes(option)
+              ? 'bg-primary/20 text-white border-primary/50'
+              : 'bg-surfaceHighlight text-gray-400 border-gray-800 hover:text-white'
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderSlider = (key: 'tone' | 'pace', label: string, low: string, high: string) => (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-[11px] text-gray-500">
+        <span>{low}</span>
+        <span className="text-gray-400">{label}</span>
+        <span>{high}</span>
+      </div>
+      <input
+        type="range"
+        min={-2}
+        max={2}
+        step={1}
+        value={draft[key]}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        className="w-full accent-[#E50914]"
+        aria-label={label}
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="relative w-full max-w-lg bg-surface border border-surfaceHighlight rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+
+        {/* Header */}
+        <div className="p-4 border-b border-surfaceHighlight flex items-center justify-between bg-surface/80 backdrop-blur-md">
+          <div className="flex items-center gap-2 text-white">
+            <Wand2 size={20} className="text-primary" />
+            <h2 className="font-bold text-lg">{t.requestBuilder}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-textMuted hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6">
+          <p className="text-xs text-gray-400">{t.requestBuilderHint}</p>
+
+          <section className="space-y-2">
+            <div className="grid grid-cols-3 gap-1.5">
+              {TYPE_OPTIONS.map(option => (
+                <button key={option.labelKey} onClick={() => update({ type: option.value })} className={optionClass(draft.type === option.value)}>
+                  {t[option.labelKey]}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.moodLabel}</h3>
+            {renderSlider('tone', t.moodTone, t.moodLight, t.moodDark)}
+            {renderSlider('pace', t.moodPace, t.moodSlow, t.moodFast)}
+          </section>
+
+          {draft.type !== 'tv' && (
+            <section className="space-y-2">
+              <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.runtimeRange}</h3>
+              <div className="grid grid-cols-2 gap-2">
+                <input type="number" min={0} step={15} value={draft.minRuntime ?? ''} onChange={(e) => update({ minRuntime: toNumber(e.target.value) })} placeholder={t.minMinutes} className={inputClass} />
+                <input type="number" min={0} step={15} value={draft.maxRuntime ?? ''} onChange={(e) => update({ maxRuntime: toNumber(e.target.value) })} placeholder={t.maxMinutes} className={inputClass} />
+              </div>
+            </section>
+          )}
+
+          {draft.type !== 'movie' && (
+            <section className="space-y-2">
+              <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.maxSeasonsLabel}</h3>
+              <input type="number" min={1} value={draft.maxSeasons ?? ''} onChange={(e) => update({ maxSeasons: toNumber(e.target.value) || undefined })} placeholder={t.runtimeAny} className={inputClass} />
+            </section>
+          )}
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.languagesLabel}</h3>
+            {renderChips(CONTENT_LANGUAGES, draft.languages, value => update({ languages: toggle(draft.languages, value) }))}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.industriesLabel}</h3>
+            {renderChips(INDUSTRIES, draft.industries, value => update({ industries: toggle(draft.industries, value) }))}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.eraLabel}</h3>
+            <div className="grid grid-cols-2 gap-2">
+              <input type="number" min={1900} max={2100} value={draft.fromYear ?? ''} onChange={(e) => update({ fromYear: toNumber(e.target.value) })} placeholder={t.fromYear} className={inputClass} />
+              <input type="number" min={1900} max={2100} value={draft.toYear ?? ''} onChange={(e) => update({ toYear: toNumber(e.target.value) })} placeholder={t.toYear} className={inputClass} />
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.ratingCeiling}</h3>
+            <div className="grid grid-cols-5 gap-1.5">
+              <button onClick={() => update({ maxContentRating: undefined })} className={optionClass(!draft.maxContentRating)}>{t.runtimeAny}</button>
+              {CONTENT_RATINGS.map(rating => (
+                <button key={rating} onClick={() => update({ maxContentRating: rating })} className={optionClass(draft.maxContentRating === rating)}>
+                  {rating}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.similarToLabel}</h3>
+            <form onSubmit={addSimilar} className="flex gap-2">
+              <input
+                value={similarDraft}
+                onChange={(e) => setSimilarDraft(e.target.value)}
+                placeholder={t.similarToPlaceholder}
+                list="request-builder-titles"
+                className={`flex-1 ${inputClass}`}
+              />
+              <datalist id="request-builder-titles">
+                {knownTitles.map(ref => <option key={formatRef(ref)} value={formatRef(ref)} />)}
+              </datalist>
+              <button type="submit" disabled={!similarDraft.trim()} className="p-2 text-primary hover:bg-primary/10 rounded-lg disabled:opacity-40" title={t.add}>
+                <Plus size={16} />
+              </button>
+            </form>
+            <div className="flex flex-wrap gap-1.5">
+              {draft.similarTo.map(ref => (
+                <span key={formatRef(ref)} className="flex items-center gap-1 px-2.5 py-1 text-xs rounded-full bg-primary/10 text-gray-200 border border-primary/30">
+                  {formatRef(ref)}
+                  <button onClick={() => update({ similarTo: draft.similarTo.filter(item => item !== ref) })} className="hover:text-white" title={t.remove}>
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.builderNote}</h3>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={t.builderNotePlaceholder}
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+          </section>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-surfaceHighlight bg-surface flex gap-2">
+          <button
+            onClick={() => setDraft(createEmptyConstraints())}
+            disabled={countConstraints(draft) === 0}
+            className="px-4 py-2.5 text-sm font-medium text-textMuted hover:text-white border border-white/10 rounded-xl disabled:opacity-40 transition-colors"
+          >
+            {t.clearAll}
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={countConstraints(draft) === 0 && !note.trim()}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 text-sm font-bold text-white bg-primary hover:bg-primaryHover rounded-xl disabled:opacity-50 transition-colors"
+          >
+            <Search size={16} />
+            {t.findTitles}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
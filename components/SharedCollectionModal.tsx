@@ -0,0 +1,83 @@
+import React from 'react';
+import { X, Download, Eye, Star, Tv, Film } from 'lucide-react';
+import { Language, SharedCollection } from '../types';
+import { CollectionCover } from './CollectionBar';
+import { translations } from '../translations';
+
+interface SharedCollectionModalProps {
+  collection: SharedCollection | null;
+  onClose: () => void;
+  onImport: (collection: SharedCollection) => void;
+  language: Language;
+}
+
+// Read-only view of a list opened from a share link
+export const SharedCollectionModal: React.FC<SharedCollectionModalProps> = ({ collection, onClose, onImport, language }) => {
+  const t = translations[language];
+
+  if (!collection) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="relative w-full max-w-2xl bg-surface border border-surfaceHighlight rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+
+        {/* Header */}
+        <div className="p-5 border-b border-surfaceHighlight flex items-start gap-4 bg-surface/80 backdrop-blur-md">
+          <CollectionCover name={collection.name} cover={collection.cover} className="w-20 h-20" />
+          <div className="flex-1 min-w-0">
+            <span className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-primary font-bold">
+              <Eye size={12} /> {t.sharedList}
+            </span>
+            <h2 className="font-bold text-xl text-white truncate">{collection.name}</h2>
+            {collection.description && <p className="text-sm text-gray-400 mt-1">{collection.description}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-textMuted hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors shrink-0"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Items */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-3">
+          {collection.items.length > 0 ? (
+            <ol className="space-y-1">
+              {collection.items.map((movie, idx) => (
+                <li key={`${movie.title}-${movie.year}`} className="flex items-start gap-3 p-3 rounded-xl hover:bg-surfaceHighlight/50 transition-colors">
+                  <span className="w-6 text-right text-sm font-bold text-gray-600 shrink-0">{idx + 1}</span>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      {movie.type === 'tv' ? <Tv size={14} className="text-blue-300 shrink-0" /> : <Film size={14} className="text-primary shrink-0" />}
+                      <span className="font-medium text-white">{movie.title}</span>
+                      <span className="text-xs text-gray-500">{movie.year}</span>
+                      {movie.rating && (
+                        <span className="flex items-center gap-1 text-xs text-gray-400"><Star size={11} className="text-yellow-500" /> {movie.rating}</span>
+                      )}
+                    </div>
+                    {movie.genres.length > 0 && <p className="text-xs text-gray-500 mt-0.5">{movie.genres.join(' · ')}</p>}
+                    {movie.reason && <p className="text-xs text-gray-400 italic mt-1 line-clamp-2">"{movie.reason}"</p>}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-textMuted text-center py-12">{t.emptyWatchlist}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-surfaceHighlight bg-surface">
+          <button
+            onClick={() => onImport(collection)}
+            disabled={collection.items.length === 0}
+            className="w-full flex items-center justify-center gap-2 py-2.5 bg-primary hover:bg-primaryHover text-white rounded-xl text-sm font-bold transition-all disabled:opacity-40"
+          >
+            <Download size={16} />
+            {t.importToMyLists}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
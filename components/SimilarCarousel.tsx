@@ -0,0 +1,85 @@
+import React from 'react';
+import { ScanSearch, X, RefreshCw, CornerDownRight } from 'lucide-react';
+import { Movie, Language, SimilarThread, TitleFeedback } from '../types';
+import { translations } from '../translations';
+import { useRouter } from '../context/RouterContext';
+import { titleRoute } from '../services/router';
+import { MovieCard } from './MovieCard';
+
+interface SimilarCarouselProps {
+  thread: SimilarThread;
+  onPlayTrailer?: (movie: Movie) => void;
+  onFeedback?: (movie: Movie, feedback: TitleFeedback | null) => void;
+  // Starts a new carousel from one of this one's titles
+  onMoreLikeThis?: (movie: Movie) => void;
+  onRetry: (thread: SimilarThread) => void;
+  onClose: (thread: SimilarThread) => void;
+  language: Language;
+}
+
+// A horizontal row of titles similar to one source title, kept apart from the main results
+export const SimilarCarousel: React.FC<SimilarCarouselProps> = ({ thread, onPlayTrailer, onFeedback, onMoreLikeThis, onRetry, onClose, language }) => {
+  const t = translations[language];
+  const { navigate } = useRouter();
+
+  return (
+    <section className="bg-surface/60 border border-surfaceHighlight rounded-xl p-4 animate-in fade-in duration-200">
+      <div className="flex items-center gap-2 mb-3">
+        <ScanSearch size={16} className="text-primary shrink-0" />
+        <h3 className="text-sm font-semibold text-white truncate">
+          {t.moreLike}{' '}
+          <button onClick={() => navigate(titleRoute(thread.source))} className="hover:underline underline-offset-4 decoration-primary">
+            {thread.source.title} ({thread.source.year})
+          </button>
+        </h3>
+        {thread.via && (
+          <span className="hidden sm:flex items-center gap-1 text-xs text-gray-500 truncate">
+            <CornerDownRight size={12} /> {t.similarVia} {thread.via}
+          </span>
+        )}
+        <button
+          onClick={() => onClose(thread)}
+          className="ml-auto p-1 text-gray-500 hover:text-white rounded transition-colors"
+          aria-label={t.closeCarousel}
+          title={t.closeCarousel}
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {thread.status === 'loading' && (
+        <div className="flex gap-4 overflow-hidden">
+          {[0, 1, 2, 3].map(i => (
+            <div key={i} className="w-64 shrink-0 aspect-[2/3] rounded-xl bg-surfaceHighlight animate-pulse" />
+          ))}
+        </div>
+      )}
+
+      {thread.status === 'error' && (
+        <div className="flex items-center gap-3 text-sm text-gray-500 py-4">
+          <span>{t.noSimilarFound}</span>
+          <button onClick={() => onRetry(thread)} className="flex items-center gap-1 text-primary hover:underline">
+            <RefreshCw size={12} /> {t.tryAgain}
+          </button>
+        </div>
+      )}
+
+      {thread.status === 'done' && (
+        <div className="flex gap-4 overflow-x-auto pb-2 snap-x">
+          {thread.results.map((movie, idx) => (
+            <div key={`${movie.title}-${movie.year}`} className="w-64 shrink-0 snap-start">
+              <MovieCard
+                movie={movie}
+                index={idx}
+                onPlayTrailer={onPlayTrailer}
+                onFeedback={onFeedback}
+                onMoreLikeThis={onMoreLikeThis}
+                language={language}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
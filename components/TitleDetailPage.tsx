@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ArrowLeft, Star, Clock, Calendar, Globe, Clapperboard, Users, Layers, Play, Bookmark, Info, FileText, ExternalLink, Sparkles, Link as LinkIcon, Loader2, AlertTriangle, BadgeCheck } from 'lucide-react';
+import { Movie, Language, Source, TitleFeedback, TitleMetadata } from '../types';
+import { geminiService } from '../services/geminiService';
+import { buildSimilarityRequest } from '../services/recommendationProvider';
+import { metadataService } from '../services/metadataService';
+import { titleVerificationService } from '../services/titleVerificationService';
+import { feedbackService } from '../services/feedbackService';
+import { tasteProfileService } from '../services/tasteProfileService';
+import { normalizeTitle } from '../services/metadataProvider';
+import { titleFromSlug } from '../services/router';
+import { translations } from '../translations';
+import { useAuth } from '../context/AuthContext';
+import { useWatchlist } from '../context/WatchlistContext';
+import { useStreaming } from '../context/StreamingContext';
+import { useRouter } from '../context/RouterContext';
+import { MovieCard } from './MovieCard';
+import { WatchTracker } from './WatchTracker';
+import { WhereToWatch } from './WhereToWatch';
+
+interface TitleDetailPageProps {
+  // From the /title link
+  slug: string;
+  year: string;
+  // The title as recommended, when this device has seen it; otherwise the catalog is asked
+  movie: Movie | null;
+  sources?: Source[];
+  onPlayTrailer: (movie: Movie) => void;
+  onFeedback?: (movie: Movie, feedback: TitleFeedback | null) => void;
+  // Lets the app resolve links to the similar titles shown here
+  onSimilarLoaded?: (movies: Movie[]) => void;
+  language: Language;
+}
+
+const formatRuntime = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+// Bare-bones title built from the catalog, for links opened on a device that never saw the recommendation
+const movieFromMetadata = (metadata: TitleMetadata): Movie => ({
+  title: metadata.title,
+  year: metadata.year,
+  genres: [],
+  runtime: metadata.runtimeMinutes ? formatRuntime(metadata.runtimeMinutes) : '',
+  rating: '',
+  emotionalTone: '',
+  reason: '',
+  bestSuitedFor: '',
+  director: metadata.director,
+});
+
+const sameTitle = (a: { title: string }, b: { title: string }) => normalizeTitle(a.title) === normalizeTitle(b.title);
+
+export const TitleDetailPage: React.FC<TitleDetailPageProps> = ({ slug, year, movie: knownMovie, sources = [], onPlayTrailer, onFeedback, onSimilarLoaded, language }) => {
+  const t = translations[language];
+  const { user } = useAuth();
+  const { collections, addToWatchlist } = useWatchlist();
+  const { preferences: streaming } = useStreaming();
+  const { goBack } = useRouter();
+
+  const [catalogMovie, setCatalogMovie] = useState<Movie | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
+  const movie = knownMovie || catalogMovie;
+
+  const [metadata, setMetadata] = useState<TitleMetadata | null>(null);
+  const [synopsis, setSynopsis] = useState('');
+  const [loadingSynopsis, setLoadingSynopsis] = useState(false);
+
+  const [similar, setSimilar] = useState<Movie[]>([]);
+  const [loadingSimilar, setLoadingSimilar] = useState(false);
+  const [similarError, setSimilarError] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Read after an await, when the user may have moved on to another title
+  const pageKeyRef = useRef('');
+  pageKeyRef.current = `${slug}|${year}`;
+
+  // Unknown titles: ask the catalog for the title the slug spells. Without a match the page is built
+  // from the link itself, and the synopsis and similar titles come from the model as usual
+  useEffect(() => {
+    if (knownMovie) return;
+    let active = true;
+    setCatalogMovie(null);
+    const guess = movieFromMetadata({ title: titleFromSlug(slug), year, cast: [], externalIds: {}, source: '' });
+    if (!guess.title) return;
+    setLookingUp(true);
+    metadataService.getMetadata(guess).then(result => {
+      if (!active) return;
+      setCatalogMovie(result && sameTitle(result, guess) ? movieFromMetadata(result) : guess);
+      setLookingUp(false);
+    });
+    return () => { active = false; };
+  }, [knownMovie, slug, year]);
+
+  useEffect(() => {
+    if (!movie) return;
+    let active = true;
+    // A title guessed from the link mustn't pick up the poster and credits of the catalog's nearest match
+    const accept = (result: TitleMetadata | null | undefined) => result && (knownMovie || sameTitle(result, movie)) ? result : null;
+    setMetadata(accept(metadataService.peek(movie)));
+    metadataService.getMetadata(movie).then(result => {
+      if (active) setMetadata(accept(result));
+    });
+    return () => { active = false; };
+  }, [movie?.title, movie?.year, movie?.type]);
+
+  useEffect(() => {
+    if (!movie) return;
+    let active = true;
+    if (movie.synopsis) {
+      setSynopsis(movie.synopsis);
+      return;
+    }
+    setSynopsis('');
+    setLoadingSynopsis(true);
+    geminiService.getMovieSynopsis(movie.title, movie.year, language)
+      .then(text => { if (active) setSynopsis(text); })
+      .catch(() => { if (active) setSynopsis(t.noSynopsis); })
+      .finally(() => { if (active) setLoadingSynopsis(false); });
+    return () => { active = false; };
+  }, [movie?.title, movie?.year, movie?.synopsis, language]);
+
+  // A new title starts without the previous one's similar titles
+  useEffect(() => {
+    setSimilar([]);
+    setSimilarError(false);
+    setLoadingSimilar(false);
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [slug, year]);
+
+  // Stateless, so the open conversation is left untouched
+  const loadSimilar = async () => {
+    if (!movie) return;
+    const pageKey = pageKeyRef.current;
+    setLoadingSimilar(true);
+    setSimilarError(false);
+    try {
+      const raw = await geminiService.getSimilarTitles(buildSimilarityRequest(movie), language, {
+        tasteProfile: tasteProfileService.getProfile(user?.uid),
+        excludeTitles: feedbackService.getHiddenTitles(user?.uid),
+        streaming,
+      });
+      const verified = await titleVerificationService.verifyRecommendations(raw.recommendations);
+      const results = feedbackService.applyFeedback(verified, user?.uid);
+      if (pageKeyRef.current !== pageKey) return;
+      setSimilar(results);
+      setSimilarError(results.length === 0);
+      onSimilarLoaded && onSimilarLoaded(results);
+    } catch (e) {
+      console.error("Failed to load similar titles", e);
+      if (pageKeyRef.current === pageKey) setSimilarError(true);
+    } finally {
+      if (pageKeyRef.current === pageKey) setLoadingSimilar(false);
+    }
+  };
+
+  // The user's own copy, from whichever list holds it
+  const saved = useMemo(() => {
+    if (!movie) return null;
+    for (const collection of collections) {
+      const entry = collection.items.find(item => item.title === movie.title && item.year === movie.year);
+      if (entry) return { entry, collectionId: collection.id };
+    }
+    return null;
+  }, [collections, movie]);
+
+  const page = (content: React.ReactNode) => (
+    <div ref={scrollRef} className="fixed inset-0 z-40 bg-background text-textMain overflow-y-auto animate-in fade-in duration-200">
+      <div className="max-w-5xl mx-auto px-4 md:px-8 py-6">
+        <button onClick={() => goBack()} className="flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors mb-6">
+          <ArrowLeft size={16} /> {t.backToResults}
+        </button>
+        {content}
+      </div>
+    </div>
+  );
+
+  if (!movie) {
+    return page(
+      <div className="flex flex-col items-center justify-center text-gray-500 py-24 space-y-3">
+        {lookingUp ? <Loader2 size={32} className="animate-spin" /> : <Info size={32} className="opacity-50" />}
+        <p>{lookingUp ? t.loadingTitle : t.titleNotFound}</p>
+      </div>
+    );
+  }
+
+  const isTv = movie.type === 'tv';
+  const posterUrl = metadata?.posterUrl || metadataService.getPlaceholderPoster(movie);
+  const displayYear = !isTv && metadata?.year ? metadata.year : movie.year;
+  const displayRuntime = !isTv && metadata?.runtimeMinutes ? formatRuntime(metadata.runtimeMinutes) : movie.runtime;
+  const director = movie.director || metadata?.director;
+  const imdbUrl = metadata?.externalIds.imdb ? `https://www.imdb.com/title/${metadata.externalIds.imdb}/` : undefined;
+  const verification = movie.verification;
+
+  return page(
+    <>
+      <div className="relative rounded-2xl overflow-hidden border border-surfaceHighlight bg-surface">
+        {metadata?.backdropUrl && (
+          <img src={metadata.backdropUrl} alt="" className="absolute inset-0 w-full h-full object-cover opacity-20" />
+        )}
+        <div className="relative flex flex-col md:flex-row gap-6 p-6">
+          <img src={posterUrl} alt={movie.title} className="w-40 md:w-56 aspect-[2/3] object-cover rounded-xl shadow-lg self-center md:self-start" />
+          <div className="flex-1 space-y-4 min-w-0">
+            <div>
+              <h1 className="text-3xl font-bold text-white leading-tight">{movie.title}</h1>
+              <div className="flex items-center text-sm text-gray-300 gap-x-4 gap-y-1 flex-wrap mt-2">
+                <span className="flex items-center"><Calendar size={14} className="mr-1" /> {displayYear}</span>
+                {movie.rating && <span className="flex items-center"><Star size={14} className="mr-1 text-yellow-500" /> {movie.rating}</span>}
+                {isTv && movie.totalSeasons ? (
+                  <span className="flex items-center text-blue-300"><Layers size={14} className="mr-1" /> {movie.totalSeasons}</span>
+                ) : displayRuntime && (
+                  <span className="flex items-center"><Clock size={14} className="mr-1" /> {displayRuntime}</span>
+                )}
+                {(movie.language || movie.industry) && (
+                  <span className="flex items-center text-primary">
+                    <Globe size={14} className="mr-1" />
+                    {[movie.language, movie.industry].filter(Boolean).join(' | ')}
+                  </span>
+                )}
+                {imdbUrl && (
+                  <a href={imdbUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 font-bold text-yellow-500/80 hover:text-yellow-400">
+                    IMDb <ExternalLink size={12} />
+                  </a>
+                )}
+              </div>
+            </div>
+
+            {director && (
+              <div className="flex items-center text-sm text-gray-400">
+                <Clapperboard size={14} className="mr-2 text-primary" />
+                <span className="font-medium text-gray-200">{director}</span>
+              </div>
+            )}
+            {metadata && metadata.cast.length > 0 && (
+              <div className="flex items-start text-sm text-gray-400">
+                <Users size={14} className="mr-2 mt-0.5 text-primary shrink-0" />
+                <span>{t.starring}: {metadata.cast.join(', ')}</span>
+              </div>
+            )}
+
+            {movie.genres.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {movie.genres.map(genre => (
+                  <span key={genre} className="px-2 py-0.5 text-xs bg-surfaceHighlight text-gray-300 rounded border border-gray-800">{genre}</span>
+                ))}
+              </div>
+            )}
+
+            <WhereToWatch movie={movie} language={language} maxBadges={99} />
+
+            <div className="flex flex-wrap gap-2 pt-1">
+              <button
+                onClick={() => onPlayTrailer(movie)}
+                className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primaryHover text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                <Play size={16} fill="currentColor" /> {t.watchTrailer}
+              </button>
+              {!saved && (
+                <button
+                  onClick={() => {
+                    addToWatchlist(movie);
+                    tasteProfileService.recordSignal('watchlist', movie, user?.uid);
+                  }}
+                  className="flex items-center gap-2 px-4 py-2 bg-surfaceHighlight hover:bg-white/10 text-white text-sm font-medium rounded-lg border border-gray-700 transition-colors"
+                >
+                  <Bookmark size={16} /> {t.addToWatchlist}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
+        <div className="md:col-span-2 space-y-6">
+          <section>
+            <h2 className="flex items-center gap-2 text-xs uppercase tracking-wider text-gray-500 font-bold mb-2">
+              <FileText size={14} /> {t.synopsis}
+            </h2>
+            {loadingSynopsis ? (
+              <div className="space-y-2 animate-pulse">
+                <div className="h-3 w-full bg-surfaceHighlight rounded"></div>
+                <div className="h-3 w-4/5 bg-surfaceHighlight rounded"></div>
+              </div>
+            ) : (
+              <p className="text-gray-300 leading-relaxed">{synopsis || t.noSynopsis}</p>
+            )}
+          </section>
+
+          {movie.reason && (
+            <section className="bg-surfaceHighlight/50 p-4 rounded-lg border border-white/5">
+              <div className="flex items-start gap-2">
+                <Info size={16} className="text-primary mt-0.5 shrink-0" />
+                <p className="text-sm text-gray-300 leading-relaxed italic">"{movie.reason}"</p>
+              </div>
+              {(movie.emotionalTone || movie.bestSuitedFor) && (
+                <p className="text-xs text-gray-500 mt-2 pl-6">{[movie.emotionalTone, movie.bestSuitedFor].filter(Boolean).join(' · ')}</p>
+              )}
+            </section>
+          )}
+
+          {movie.specialFeature && (
+            <div className="bg-gradient-to-r from-purple-900/30 to-blue-900/30 border border-purple-500/20 rounded-lg px-3 py-2 flex items-start gap-2">
+              <Sparkles size={14} className="text-purple-400 mt-0.5 shrink-0" />
+              <span className="text-sm text-purple-200">{movie.specialFeature}</span>
+            </div>
+          )}
+
+          {verification && verification.status !== 'verified' && (
+            <div className="flex items-start gap-2 text-xs text-gray-400">
+              {verification.status === 'unverified' ? <AlertTriangle size={14} className="text-yellow-500 shrink-0" /> : <BadgeCheck size={14} className="text-blue-300 shrink-0" />}
+              <span>{verification.status === 'unverified' ? t.unverifiedHint : [t.correctedHint, ...(verification.corrections || [])].join(' ')}</span>
+            </div>
+          )}
+        </div>
+
+        <aside className="space-y-6">
+          {saved && (
+            <section>
+              <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-2">{t.yourStatus}</h2>
+              <div className="bg-surface border border-surfaceHighlight rounded-xl p-3">
+                <WatchTracker entry={saved.entry} collectionId={saved.collectionId} language={language} />
+              </div>
+            </section>
+          )}
+
+          {sources.length > 0 && (
+            <section>
+              <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-2">{t.sourcesLabel}</h2>
+              <ul className="space-y-1.5">
+                {sources.map(source => (
+                  <li key={source.uri}>
+                    <a href={source.uri} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white truncate">
+                      <LinkIcon size={12} className="shrink-0" /> <span className="truncate">{source.title || source.uri}</span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </aside>
+      </div>
+
+      <section className="mt-10">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-white">{t.moreLikeThis}</h2>
+          {similar.length === 0 && (
+            <button
+              onClick={loadSimilar}
+              disabled={loadingSimilar}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-primary border border-primary/40 rounded-lg hover:bg-primary/10 disabled:opacity-50 transition-colors"
+            >
+              {loadingSimilar ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} {t.findSimilar}
+            </button>
+          )}
+        </div>
+        {similarError && !loadingSimilar && <p className="text-sm text-gray-500">{t.noSimilarFound}</p>}
+        {similar.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {similar.map((rec, idx) => (
+              <MovieCard key={`${rec.title}-${rec.year}`} movie={rec} index={idx} onPlayTrailer={onPlayTrailer} onFeedback={onFeedback} language={language} />
+            ))}
+          </div>
+        )}
+      </section>
+    </>
+  );
+};
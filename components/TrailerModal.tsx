@@ -1,92 +1,165 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, ExternalLink, Search, PlayCircle, Play, Pause, Volume2, VolumeX, RotateCcw } from 'lucide-react';
+import { X, ExternalLink, Search, PlayCircle, Play, Pause, Volume2, VolumeX, RotateCcw, Loader2, Captions, SkipBack, SkipForward } from 'lucide-react';
 import { Movie, Language } from '../types';
 import { translations } from '../translations';
+import { trailerService, buildEmbedUrl, getWatchUrl, getTrailerSearchUrl } from '../services/trailerService';
+import { YouTubePlayerChannel, PlayerSnapshot, PLAYER_STATE, initialPlayerSnapshot, formatPlayerTime } from '../services/youtubePlayer';
 
 interface TrailerModalProps {
   movie: Movie | null;
   isOpen: boolean;
   onClose: () => void;
   language?: Language;
+  // Titles to step through with next/previous, in display order
+  queue?: Movie[];
+  onSelectMovie?: (movie: Movie) => void;
 }
 
-export const TrailerModal: React.FC<TrailerModalProps> = ({ movie, isOpen, onClose, language = 'English' }) => {
+// Player error codes meaning this video will never play here: bad ID (2), removed or private (100),
+// embedding disabled by the owner (101, 150). Anything else is treated as a playback hiccup.
+const DEAD_VIDEO_ERRORS = [2, 100, 101, 150];
+// Until the player reports what this video supports
+const DEFAULT_PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export const TrailerModal: React.FC<TrailerModalProps> = ({ movie, isOpen, onClose, language = 'English', queue = [], onSelectMovie }) => {
   const [hasError, setHasError] = useState(false);
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  const playerRef = useRef<YouTubePlayerChannel | null>(null);
   const t = translations[language];
+
+  // Resolved trailer; bumping `attempt` re-runs the resolver after a video is marked dead
+  const [videoId, setVideoId] = useState<string | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [attempt, setAttempt] = useState(0);
   
-  // Player state tracking
-  const [isMuted, setIsMuted] = useState(true);
-  const [isPlaying, setIsPlaying] = useState(true);
+  // What the player last reported; only the captions module has no readable state
+  const [player, setPlayer] = useState<PlayerSnapshot>(initialPlayerSnapshot());
+  const [captionsOn, setCaptionsOn] = useState(false);
+  // Play the rest of the queue when a trailer ends
+  const [autoAdvance, setAutoAdvance] = useState(true);
 
   useEffect(() => {
-    // Reset error and player state when modal opens or movie changes
-    if (isOpen) {
-      setHasError(false);
-      setIsMuted(true);
-      setIsPlaying(true);
-    }
-  }, [isOpen, movie]);
+    if (!isOpen || !movie) return;
+    // Reset error and player state when modal opens, movie changes or the next candidate is tried
+    let cancelled = false;
+    setHasError(false);
+    setIsResolving(true);
+    trailerService.resolve(movie).then(id => {
+      if (cancelled) return;
+      setVideoId(id);
+      setIsResolving(false);
+    });
+    return () => { cancelled = true; };
+  }, [isOpen, movie, attempt]);
 
-  if (!isOpen || !movie) return null;
+  // A new video starts with a fresh player and channel
+  useEffect(() => {
+    setPlayer(initialPlayerSnapshot());
+    setCaptionsOn(false);
+    return () => {
+      playerRef.current?.dispose();
+      playerRef.current = null;
+    };
+  }, [isOpen, videoId]);
 
-  // Helper to extract Video ID from various YouTube URL formats
-  const getYouTubeEmbedUrl = (url?: string): string | null => {
-    if (!url) return null;
-    
-    const cleanUrl = url.trim();
-    
-    // Enhanced Regex to handle various YouTube formats
-    const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=|shorts\/|live\/)([^#&?]*).*/;
-    const match = cleanUrl.match(regExp);
-
-    if (match && match[2].length === 11) {
-      const origin = typeof window !== 'undefined' ? window.location.origin : '';
-      // Critical params:
-      // enablejsapi=1: Allows postMessage control and error listening
-      return `https://www.youtube.com/embed/${match[2]}?autoplay=1&mute=1&enablejsapi=1&controls=1&origin=${encodeURIComponent(origin)}&modestbranding=1&rel=0&playsinline=1`;
-    }
-    return null;
+  const queueIndex = movie ? queue.findIndex(m => m.title === movie.title && m.year === movie.year) : -1;
+  const previousMovie = queueIndex > 0 ? queue[queueIndex - 1] : null;
+  const nextMovie = queueIndex >= 0 && queueIndex < queue.length - 1 ? queue[queueIndex + 1] : null;
+
+  const goTo = (target: Movie | null) => {
+    if (target && onSelectMovie) onSelectMovie(target);
   };
 
-  const embedUrl = getYouTubeEmbedUrl(movie.trailerUrl);
-  const searchUrl = `https://www.youtube.com/results?search_query=${encodeURIComponent(movie.title + " " + movie.year + " trailer")}`;
-  
-  const showPlayer = embedUrl && !hasError;
-
-  // YouTube Player API Control Helpers
-  const sendCommand = (func: string, args: any[] = []) => {
-    if (iframeRef.current && iframeRef.current.contentWindow) {
-      iframeRef.current.contentWindow.postMessage(JSON.stringify({
-        event: 'command',
-        func,
-        args
-      }), '*');
-    }
+  useEffect(() => {
+    if (player.state === PLAYER_STATE.ENDED && autoAdvance) goTo(nextMovie);
+  }, [player.state]);
+
+  const tryNextTrailer = () => {
+    if (!movie || !videoId) return;
+    trailerService.markDead(movie, videoId);
+    setVideoId(null);
+    setAttempt(a => a + 1);
   };
 
   const togglePlay = () => {
-    if (isPlaying) {
-      sendCommand('pauseVideo');
+    if (player.state === PLAYER_STATE.PLAYING || player.state === PLAYER_STATE.BUFFERING) {
+      playerRef.current?.pause();
     } else {
-      sendCommand('playVideo');
+      playerRef.current?.play();
     }
-    setIsPlaying(!isPlaying);
   };
 
   const toggleMute = () => {
-    if (isMuted) {
-      sendCommand('unMute');
+    if (player.muted) {
+      playerRef.current?.unMute();
     } else {
-      sendCommand('mute');
+      playerRef.current?.mute();
     }
-    setIsMuted(!isMuted);
   };
 
+  const toggleCaptions = () => {
+    playerRef.current?.setCaptions(!captionsOn);
+    setCaptionsOn(!captionsOn);
+  };
+
+  const seekBy = (seconds: number) => playerRef.current?.seekTo(player.currentTime + seconds);
+  const changeVolume = (delta: number) => playerRef.current?.setVolume((player.muted ? 0 : player.volume) + delta);
+
   const handleReplay = () => {
-    sendCommand('seekTo', [0, true]);
-    sendCommand('playVideo');
-    setIsPlaying(true);
+    playerRef.current?.seekTo(0);
+    playerRef.current?.play();
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+        return;
+      }
+      // Leave typing and form controls alone (the seek and volume sliders handle their own arrows)
+      const target = e.target as HTMLElement | null;
+      if (e.ctrlKey || e.metaKey || e.altKey || target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (!playerRef.current) return;
+      const actions: Record<string, () => void> = {
+        ' ': togglePlay,
+        k: togglePlay,
+        m: toggleMute,
+        c: toggleCaptions,
+        ArrowLeft: () => seekBy(-5),
+        ArrowRight: () => seekBy(5),
+        ArrowUp: () => changeVolume(10),
+        ArrowDown: () => changeVolume(-10),
+      };
+      const action = actions[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+      if (action) {
+        e.preventDefault();
+        action();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, player, captionsOn, onClose]);
+
+  if (!isOpen || !movie) return null;
+
+  const embedUrl = videoId ? buildEmbedUrl(videoId) : null;
+  const searchUrl = getTrailerSearchUrl(movie);
+  
+  const showPlayer = embedUrl && !hasError && !isResolving;
+  const isPlaying = player.state === PLAYER_STATE.PLAYING || player.state === PLAYER_STATE.BUFFERING;
+  const playbackRates = player.availablePlaybackRates.length > 1 ? player.availablePlaybackRates : DEFAULT_PLAYBACK_RATES;
+
+  // Opens the event channel once the embed has loaded; player errors that mean the
+  // video is gone move on to the next candidate
+  const handlePlayerLoad = () => {
+    if (!iframeRef.current) return;
+    playerRef.current?.dispose();
+    playerRef.current = new YouTubePlayerChannel(iframeRef.current, {
+      onChange: setPlayer,
+      onError: (code) => DEAD_VIDEO_ERRORS.includes(code) ? tryNextTrailer() : setHasError(true),
+    });
+    playerRef.current.connect();
   };
 
   const handleBackdropClick = (e: React.MouseEvent) => {
@@ -116,9 +189,15 @@ export const TrailerModal: React.FC<TrailerModalProps> = ({ movie, isOpen, onClo
 
         {/* Video Area */}
         <div className="relative aspect-video bg-black w-full group flex flex-col">
-          {showPlayer ? (
+          {isResolving ? (
+            <div className="flex flex-col items-center justify-center w-full h-full gap-3 text-gray-400">
+              <Loader2 className="animate-spin text-primary" size={32} />
+              <p className="text-sm">{t.findingTrailer}</p>
+            </div>
+          ) : showPlayer ? (
             <>
                 <iframe
+                    key={videoId}
                     ref={iframeRef}
                     width="100%"
                     height="100%"
@@ -129,12 +208,13 @@ export const TrailerModal: React.FC<TrailerModalProps> = ({ movie, isOpen, onClo
                     allowFullScreen
                     className="absolute inset-0 z-10 w-full h-full"
                     referrerPolicy="strict-origin-when-cross-origin"
+                    onLoad={handlePlayerLoad}
                     onError={() => setHasError(true)}
                 />
                  {/* Fallback overlay for successful load but maybe user wants external */}
                  <div className="absolute top-4 right-4 z-20 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                      <a 
-                         href={movie.trailerUrl || searchUrl}
+                         href={videoId ? getWatchUrl(videoId) : searchUrl}
                          target="_blank"
                          rel="noopener noreferrer"
                          className="flex items-center gap-2 px-3 py-1.5 bg-black/60 hover:bg-black/80 text-white text-xs font-medium rounded-lg backdrop-blur-md border border-white/10 transition-colors"
@@ -156,17 +236,15 @@ export const TrailerModal: React.FC<TrailerModalProps> = ({ movie, isOpen, onClo
                   <div className="space-y-2">
                     <h4 className="text-2xl font-bold text-white">{t.trailerUnavailable}</h4>
                     <p className="text-gray-400 text-sm leading-relaxed max-w-xs mx-auto">
-                        {movie.trailerUrl && !hasError
-                            ? t.embedError 
-                            : t.loadError}
+                        {videoId ? t.loadError : t.noTrailerFound}
                     </p>
                   </div>
 
                   <div className="flex flex-col w-full gap-3 mt-4">
                     {/* Primary Call to Action */}
-                    {movie.trailerUrl && (
+                    {videoId && (
                         <a 
-                        href={movie.trailerUrl} 
+                        href={getWatchUrl(videoId)} 
                         target="_blank" 
                         rel="noopener noreferrer"
                         className="flex items-center justify-center gap-3 px-8 py-4 bg-primary hover:bg-primaryHover text-white rounded-xl font-bold text-lg transition-all transform hover:scale-[1.02] shadow-xl shadow-red-900/20 w-full border border-red-500/20"
@@ -180,12 +258,12 @@ export const TrailerModal: React.FC<TrailerModalProps> = ({ movie, isOpen, onClo
                     target="_blank" 
                     rel="noopener noreferrer"
                     className={`flex items-center justify-center gap-2 px-6 py-3 rounded-xl font-medium transition-colors border w-full ${
-                        movie.trailerUrl 
+                        videoId 
                             ? "bg-surface hover:bg-surfaceHighlight text-gray-300 hover:text-white border-gray-700" 
                             : "bg-primary hover:bg-primaryHover text-white border-transparent"
                     }`}
                     >
-                    <Search size={18} /> {movie.trailerUrl ? t.searchAlternative : t.searchYoutube}
+                    <Search size={18} /> {videoId ? t.searchAlternative : t.searchYoutube}
                     </a>
                   </div>
               </div>
@@ -193,51 +271,131 @@ export const TrailerModal: React.FC<TrailerModalProps> = ({ movie, isOpen, onClo
           )}
         </div>
 
+        {/* Seek bar */}
+        {showPlayer && (
+          <div className="flex items-center gap-3 px-4 pt-3 bg-surface text-xs font-mono text-textMuted">
+            <span className="w-12 text-right">{formatPlayerTime(player.currentTime)}</span>
+            <input
+              type="range"
+              min={0}
+              max={Math.max(player.duration, 1)}
+              step={0.5}
+              value={Math.min(player.currentTime, player.duration || 0)}
+              onChange={(e) => playerRef.current?.seekTo(Number(e.target.value))}
+              disabled={!player.duration}
+              className="flex-1 accent-primary cursor-pointer disabled:cursor-default"
+              aria-label="Seek"
+            />
+            <span className="w-12">{formatPlayerTime(player.duration)}</span>
+          </div>
+        )}
+
         {/* Footer Actions - Contextual & Controls */}
         <div className="bg-surface p-4 border-t border-surfaceHighlight flex flex-col sm:flex-row gap-4 justify-between items-center">
              {showPlayer && (
-                 <div className="flex items-center gap-4 w-full sm:w-auto justify-center sm:justify-start">
+                 <div className="flex flex-wrap items-center gap-3 w-full sm:w-auto justify-center sm:justify-start">
                      <div className="flex items-center gap-2 bg-surfaceHighlight/50 rounded-lg p-1 border border-white/5">
                         <button 
                             onClick={togglePlay} 
                             className="p-2 hover:bg-white/10 rounded-md text-white transition-colors" 
-                            title={isPlaying ? "Pause" : "Play"}
+                            title={isPlaying ? "Pause (Space)" : "Play (Space)"}
                         >
                             {isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" />}
                         </button>
                         <button 
-                            onClick={toggleMute} 
+                            onClick={handleReplay} 
                             className="p-2 hover:bg-white/10 rounded-md text-white transition-colors" 
-                            title={isMuted ? "Unmute" : "Mute"}
+                            title="Replay"
                         >
-                            {isMuted ? <VolumeX size={18} /> : <Volume2 size={18} />}
+                            <RotateCcw size={18} />
                         </button>
                         <button 
-                            onClick={handleReplay} 
+                            onClick={toggleCaptions} 
+                            className={`p-2 hover:bg-white/10 rounded-md transition-colors ${captionsOn ? 'text-primary' : 'text-white'}`}
+                            title="Captions (C)"
+                        >
+                            <Captions size={18} />
+                        </button>
+                     </div>
+                     <div className="flex items-center gap-2 bg-surfaceHighlight/50 rounded-lg p-1 pr-3 border border-white/5">
+                        <button 
+                            onClick={toggleMute} 
                             className="p-2 hover:bg-white/10 rounded-md text-white transition-colors" 
-                            title="Replay"
+                            title={player.muted ? "Unmute (M)" : "Mute (M)"}
                         >
-                            <RotateCcw size={18} />
+                            {player.muted || player.volume === 0 ? <VolumeX size={18} /> : <Volume2 size={18} />}
                         </button>
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={player.muted ? 0 : player.volume}
+                            onChange={(e) => playerRef.current?.setVolume(Number(e.target.value))}
+                            className="w-20 accent-primary cursor-pointer"
+                            aria-label="Volume"
+                        />
                      </div>
+                     <select
+                        value={player.playbackRate}
+                        onChange={(e) => playerRef.current?.setPlaybackRate(Number(e.target.value))}
+                        className="bg-surfaceHighlight/50 border border-white/5 rounded-lg px-2 py-2 text-xs text-white focus:outline-none cursor-pointer"
+                        title="Playback speed"
+                     >
+                        {playbackRates.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                     </select>
                  </div>
              )}
              
              <div className="flex items-center gap-3 w-full sm:w-auto justify-end">
                 {showPlayer ? (
                      <button
-                        onClick={() => setHasError(true)}
+                        onClick={tryNextTrailer}
                         className="text-xs text-textMuted hover:text-white underline underline-offset-4"
                     >
                         {t.reportIssue}
                     </button>
-                ) : (
+                ) : !isResolving && (
                      <span className="text-xs text-textMuted mr-auto">
                         {t.linksNewTab}
                      </span>
                 )}
              </div>
         </div>
+
+        {/* Queue: the other visible recommendations */}
+        {onSelectMovie && queueIndex >= 0 && queue.length > 1 && (
+          <div className="px-4 py-3 border-t border-surfaceHighlight bg-surfaceHighlight/20 flex items-center gap-3 text-sm">
+            <button
+              onClick={() => goTo(previousMovie)}
+              disabled={!previousMovie}
+              className="p-1.5 text-gray-300 hover:text-white hover:bg-white/10 rounded-md transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+              title="Previous trailer"
+            >
+              <SkipBack size={16} />
+            </button>
+            <span className="text-xs font-mono text-textMuted">{queueIndex + 1}/{queue.length}</span>
+            <button
+              onClick={() => goTo(nextMovie)}
+              disabled={!nextMovie}
+              className="p-1.5 text-gray-300 hover:text-white hover:bg-white/10 rounded-md transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+              title="Next trailer"
+            >
+              <SkipForward size={16} />
+            </button>
+            <p className="flex-1 min-w-0 truncate text-gray-400">
+              {nextMovie && <><span className="text-textMuted">{t.upNext}:</span> <span className="text-white">{nextMovie.title}</span> ({nextMovie.year})</>}
+            </p>
+            <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={autoAdvance}
+                onChange={(e) => setAutoAdvance(e.target.checked)}
+                className="accent-primary"
+              />
+              {t.playAll}
+            </label>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { Minus, Plus, CalendarCheck, StickyNote, FolderInput, Trash2 } from 'lucide-react';
+import { Language, WatchlistEntry, WatchStatus } from '../types';
+import { WatchlistUpdate, DEFAULT_COLLECTION_ID } from '../services/watchlistService';
+import { translations } from '../translations';
+import { useWatchlist } from '../context/WatchlistContext';
+
+interface WatchTrackerProps {
+  entry: WatchlistEntry;
+  collectionId: string;
+  language: Language;
+}
+
+// Translation key for each status, in lifecycle order
+export const WATCH_STATUSES: { value: WatchStatus; labelKey: string }[] = [
+  { value: 'plan', labelKey: 'statusPlan' },
+  { value: 'watching', labelKey: 'statusWatching' },
+  { value: 'watched', labelKey: 'statusWatched' },
+  { value: 'dropped', labelKey: 'statusDropped' },
+];
+
+const STATUS_STYLES: Record<WatchStatus, string> = {
+  plan: 'bg-gray-600/30 text-gray-200 border-gray-500/40',
+  watching: 'bg-blue-600/20 text-blue-300 border-blue-500/40',
+  watched: 'bg-green-600/20 text-green-400 border-green-500/40',
+  dropped: 'bg-red-600/20 text-red-400 border-red-500/40',
+};
+
+// <input type="date"> works in local calendar days
+const toDateInput = (timestamp?: number) => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInput = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+
+export const WatchTracker: React.FC<WatchTrackerProps> = ({ entry, collectionId, language }) => {
+  const [notes, setNotes] = useState(entry.notes || '');
+  const { collections, updateEntry, moveEntry, removeFromWatchlist } = useWatchlist();
+  const t = translations[language];
+  const isTv = entry.type === 'tv';
+
+  useEffect(() => {
+    setNotes(entry.notes || '');
+  }, [entry.notes]);
+
+  const update = (changes: WatchlistUpdate) => {
+    updateEntry(entry, changes, collectionId);
+  };
+
+  const moveTo = (targetId: string) => {
+    moveEntry(entry, collectionId, targetId);
+  };
+
+  const remove = () => {
+    removeFromWatchlist(entry, collectionId);
+  };
+
+  const otherCollections = collections.filter(c => c.id !== collectionId);
+
+  const season = entry.currentSeason || 1;
+  const episode = entry.currentEpisode || 1;
+
+  // Moving past episode 1 of a planned show means it's being watched
+  const setProgress = (nextSeason: number, nextEpisode: number) => {
+    const changes: WatchlistUpdate = { currentSeason: Math.max(1, nextSeason), currentEpisode: Math.max(1, nextEpisode) };
+    if (entry.status === 'plan' && (nextSeason > 1 || nextEpisode > 1)) changes.status = 'watching';
+    update(changes);
+  };
+
+  const stepperButton = 'p-1 rounded-md text-textMuted hover:text-white hover:bg-white/10 disabled:opacity-30 transition-colors';
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-white/5" onClick={(e) => e.stopPropagation()}>
+      {/* Status */}
+      <div className="grid grid-cols-4 gap-1">
+        {WATCH_STATUSES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => update({ status: option.value })}
+            className={`py-1 text-[10px] font-bold uppercase tracking-wide rounded-md border transition-colors ${
+              entry.status === option.value ? STATUS_STYLES[option.value] : 'text-textMuted border-gray-800 hover:text-white'
+            }`}
+            aria-pressed={entry.status === option.value}
+          >
+            {t[option.labelKey]}
+          </button>
+        ))}
+      </div>
+
+      {/* Personal Rating */}
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] uppercase tracking-wider text-gray-500 font-bold shrink-0">{t.myRating}</span>
+        <div className="flex items-center gap-0.5">
+          {Array.from({ length: 10 }, (_, i) => i + 1).map(score => (
+            <button
+              key={score}
+              onClick={() => update({ userRating: entry.userRating === score ? undefined : score })}
+              className={`w-5 h-5 text-[10px] rounded transition-colors ${
+                entry.userRating && score <= entry.userRating
+                  ? 'bg-yellow-500/80 text-black font-bold'
+                  : 'bg-surfaceHighlight text-gray-500 hover:text-white'
+              }`}
+              aria-label={`${t.myRating}: ${score}/10`}
+            >
+              {score}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* TV Progress */}
+      {isTv && (
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">{t.progress}</span>
+          <div className="flex items-center gap-3 text-xs text-gray-300">
+            <div className="flex items-center gap-1">
+              <button onClick={() => setProgress(season - 1, 1)} disabled={season <= 1} className={stepperButton} aria-label={`${t.season} -1`}>
+                <Minus size={12} />
+              </button>
+              <span className="font-mono">S{season}</span>
+              <button onClick={() => setProgress(season + 1, 1)} className={stepperButton} aria-label={`${t.season} +1`}>
+                <Plus size={12} />
+              </button>
+            </div>
+            <div className="flex items-center gap-1">
+              <button onClick={() => setProgress(season, episode - 1)} disabled={episode <= 1} className={stepperButton} aria-label={`${t.episode} -1`}>
+                <Minus size={12} />
+              </button>
+              <span className="font-mono">E{episode}</span>
+              <button onClick={() => setProgress(season, episode + 1)} className={stepperButton} aria-label={`${t.episode} +1`}>
+                <Plus size={12} />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Date Watched */}
+      {entry.status === 'watched' && (
+        <label className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-gray-500 font-bold">
+            <CalendarCheck size={12} /> {t.dateWatched}
+          </span>
+          <input
+            type="date"
+            value={toDateInput(entry.watchedAt)}
+            max={toDateInput(Date.now())}
+            onChange={(e) => update({ watchedAt: fromDateInput(e.target.value) })}
+            className="bg-surfaceHighlight border border-gray-700 rounded-md px-2 py-0.5 text-xs text-gray-200 focus:outline-none focus:border-primary [color-scheme:dark]"
+          />
+        </label>
+      )}
+
+      {/* Notes */}
+      <div className="relative">
+        <StickyNote size={12} className="absolute left-2 top-2 text-gray-500" />
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => notes !== (entry.notes || '') && update({ notes: notes.trim() || undefined })}
+          placeholder={t.notesPlaceholder}
+          rows={2}
+          className="w-full bg-surfaceHighlight/50 border border-gray-800 rounded-lg pl-7 pr-2 py-1.5 text-xs text-gray-300 placeholder-gray-600 resize-none focus:outline-none focus:border-primary custom-scrollbar"
+          aria-label={t.notes}
+        />
+      </div>
+
+      {/* List Actions */}
+      {(otherCollections.length > 0 || collectionId !== DEFAULT_COLLECTION_ID) && (
+        <div className="flex items-center gap-2">
+          {otherCollections.length > 0 && (
+            <label className="flex-1 flex items-center gap-1.5 bg-surfaceHighlight/50 border border-gray-800 rounded-lg px-2 py-1 text-xs text-gray-400">
+              <FolderInput size={12} className="shrink-0" />
+              <select
+                value=""
+                onChange={(e) => e.target.value && moveTo(e.target.value)}
+                className="flex-1 bg-transparent border-none outline-none cursor-pointer text-gray-300"
+                aria-label={t.moveToList}
+              >
+                <option value="">{t.moveToList}</option>
+                {otherCollections.map(c => (
+                  <option key={c.id} value={c.id}>{c.name || t.watchlist}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {collectionId !== DEFAULT_COLLECTION_ID && (
+            <button
+              onClick={remove}
+              className="p-1.5 text-textMuted hover:text-red-400 hover:bg-white/5 rounded-lg transition-colors"
+              title={t.removeFromList}
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
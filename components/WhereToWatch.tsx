@@ -0,0 +1,66 @@
+import React from 'react';
+import { MonitorPlay } from 'lucide-react';
+import { Movie, Language, OfferType } from '../types';
+import { sortOffers } from '../services/availabilityService';
+import { STREAMING_SERVICES } from '../constants';
+import { translations } from '../translations';
+import { useStreaming, useAvailability } from '../context/StreamingContext';
+
+interface WhereToWatchProps {
+  movie: Movie;
+  language?: Language;
+  // Cards keep it to one row; the title page lists everything
+  maxBadges?: number;
+}
+
+// Translation key for each kind of offer
+const OFFER_LABEL_KEYS: Record<OfferType, string> = {
+  subscription: 'offerSubscription',
+  free: 'offerFree',
+  rent: 'offerRent',
+  buy: 'offerBuy',
+};
+
+const serviceName = (id: string) => STREAMING_SERVICES.find(service => service.id === id)?.name || id;
+
+// Offer badges for the user's country; services they pay for (and free offers) are highlighted
+export const WhereToWatch: React.FC<WhereToWatchProps> = ({ movie, language = 'English', maxBadges = 4 }) => {
+  const { preferences } = useStreaming();
+  const availability = useAvailability(movie);
+  const t = translations[language];
+
+  if (!availability) return null;
+  const offers = sortOffers(availability.offers);
+
+  return (
+    <div className="flex items-start gap-2">
+      <MonitorPlay size={14} className="text-gray-500 mt-0.5 shrink-0" />
+      {offers.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5" title={t.whereToWatch}>
+          {offers.slice(0, maxBadges).map(offer => {
+            const owned = offer.type === 'free' || (offer.type === 'subscription' && preferences.services.includes(offer.service));
+            const badge = (
+              <>
+                {serviceName(offer.service)}
+                <span className={owned ? 'text-green-300/70' : 'text-gray-500'}>· {t[OFFER_LABEL_KEYS[offer.type]]}</span>
+              </>
+            );
+            const className = `flex items-center gap-1 px-2 py-0.5 text-[11px] rounded-full border ${
+              owned ? 'bg-green-900/20 text-green-200 border-green-500/30' : 'bg-surfaceHighlight text-gray-300 border-gray-800'
+            }`;
+            return offer.url ? (
+              <a key={`${offer.service}-${offer.type}`} href={offer.url} target="_blank" rel="noopener noreferrer" className={`${className} hover:text-white`}>{badge}</a>
+            ) : (
+              <span key={`${offer.service}-${offer.type}`} className={className}>{badge}</span>
+            );
+          })}
+          {offers.length > maxBadges && (
+            <span className="px-2 py-0.5 text-[11px] text-gray-500">+{offers.length - maxBadges}</span>
+          )}
+        </div>
+      ) : (
+        <span className="text-xs text-gray-500">{t.notStreaming}</span>
+      )}
+    </div>
+  );
+};
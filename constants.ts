@@ -0,0 +1,50 @@
+// Standard Genres List
+export const GENRES = [
+  'Action', 'Adventure', 'Animation', 'Biography', 'Comedy', 
+  'Crime', 'Documentary', 'Drama', 'Family', 'Fantasy', 
+  'History', 'Horror', 'Music', 'Musical', 'Mystery', 
+  'Romance', 'Sci-Fi', 'Sport', 'Thriller', 'War', 'Western'
+];
+
+// Major Film Industries
+export const INDUSTRIES = [
+  'Hollywood', 'Bollywood', 'Tollywood', 'Kollywood', 
+  'Mollywood', 'Sandalwood', 'Anime', 'K-Drama',
+  'European', 'British', 'International'
+];
+
+// Common content languages offered in preference pickers
+export const CONTENT_LANGUAGES = [
+  'English', 'Hindi', 'Marathi', 'Tamil', 'Telugu', 'Malayalam', 'Kannada', 'Bengali',
+  'Korean', 'Japanese', 'Spanish', 'French', 'German', 'Italian'
+];
+
+// Streaming services offers can point to; ids are used in availability data and preferences
+export const STREAMING_SERVICES: { id: string; name: string }[] = [
+  { id: 'netflix', name: 'Netflix' },
+  { id: 'prime', name: 'Prime Video' },
+  { id: 'disney', name: 'Disney+' },
+  { id: 'hotstar', name: 'Hotstar' },
+  { id: 'jiocinema', name: 'JioCinema' },
+  { id: 'zee5', name: 'ZEE5' },
+  { id: 'sonyliv', name: 'SonyLIV' },
+  { id: 'max', name: 'Max' },
+  { id: 'hulu', name: 'Hulu' },
+  { id: 'paramount', name: 'Paramount+' },
+  { id: 'appletv', name: 'Apple TV' },
+  { id: 'youtube', name: 'YouTube' },
+  { id: 'tubi', name: 'Tubi' },
+  { id: 'bbciplayer', name: 'BBC iPlayer' }
+];
+
+// Countries offered for where-to-watch lookups (ISO 3166-1 alpha-2)
+export const STREAMING_COUNTRIES: { code: string; name: string }[] = [
+  { code: 'IN', name: 'India' },
+  { code: 'US', name: 'United States' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'ES', name: 'Spain' },
+  { code: 'FR', name: 'France' },
+  { code: 'DE', name: 'Germany' }
+];
@@ -0,0 +1,65 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { AppRoute, parseRoute, routePath } from '../services/router';
+
+interface NavigateOptions {
+  // Swap the current history entry instead of adding one
+  replace?: boolean;
+}
+
+interface RouterContextType {
+  route: AppRoute;
+  navigate: (route: AppRoute, options?: NavigateOptions) => void;
+  // Back to wherever the user came from inside the app, or `fallback` on a fresh tab
+  goBack: (fallback?: AppRoute) => void;
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+// Remembers whether there's an in-app page to go back to
+interface HistoryState {
+  inApp?: boolean;
+}
+
+// Path-based routing on the History API. Query and hash are left alone, so
+// ?debug and #share= links keep working on any route.
+export const RouterProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: AppRoute, options: NavigateOptions = {}) => {
+    const path = routePath(next);
+    if (path !== window.location.pathname) {
+      const url = `${path}${window.location.search}${window.location.hash}`;
+      if (options.replace) window.history.replaceState(window.history.state, '', url);
+      else window.history.pushState({ inApp: true } as HistoryState, '', url);
+    }
+    // Same page: keep the route object so effects keyed on it don't re-run
+    setRoute(current => routePath(current) === path ? current : parseRoute(path));
+  }, []);
+
+  const goBack = useCallback((fallback: AppRoute = { name: 'home' }) => {
+    if ((window.history.state as HistoryState | null)?.inApp) window.history.back();
+    else navigate(fallback, { replace: true });
+  }, [navigate]);
+
+  const value = useMemo(() => ({ route, navigate, goBack }), [route, navigate, goBack]);
+
+  return (
+    <RouterContext.Provider value={value}>
+      {children}
+    </RouterContext.Provider>
+  );
+};
+
+export const useRouter = () => {
+  const context = useContext(RouterContext);
+  if (context === undefined) {
+    throw new Error('useRouter must be used within a RouterProvider');
+  }
+  return context;
+};
@@ -0,0 +1,64 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Movie, StreamingPreferences, TitleAvailability } from '../types';
+import { streamingPreferencesService } from '../services/streamingPreferencesService';
+import { availabilityService } from '../services/availabilityService';
+import { useAuth } from './AuthContext';
+
+// The signed-in user's country and services, shared by cards, the grid filter and the prompt
+interface StreamingContextType {
+  preferences: StreamingPreferences;
+  updatePreferences: (changes: Partial<StreamingPreferences>) => void;
+}
+
+const StreamingContext = createContext<StreamingContextType | undefined>(undefined);
+
+export const StreamingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.uid;
+  const [preferences, setPreferences] = useState<StreamingPreferences>(() => streamingPreferencesService.getPreferences(userId));
+
+  useEffect(() => {
+    setPreferences(streamingPreferencesService.getPreferences(userId));
+  }, [userId]);
+
+  const value = useMemo<StreamingContextType>(() => ({
+    preferences,
+    updatePreferences: (changes) => {
+      const next = { ...preferences, ...changes };
+      streamingPreferencesService.savePreferences(next, userId);
+      setPreferences(next);
+    },
+  }), [preferences, userId]);
+
+  return (
+    <StreamingContext.Provider value={value}>
+      {children}
+    </StreamingContext.Provider>
+  );
+};
+
+export const useStreaming = () => {
+  const context = useContext(StreamingContext);
+  if (context === undefined) {
+    throw new Error('useStreaming must be used within a StreamingProvider');
+  }
+  return context;
+};
+
+// Offers for one title in the user's country; undefined while loading
+export const useAvailability = (movie: Movie): TitleAvailability | null | undefined => {
+  const { preferences } = useStreaming();
+  const region = preferences.country;
+  const [availability, setAvailability] = useState(() => availabilityService.peek(movie, region));
+
+  useEffect(() => {
+    let cancelled = false;
+    setAvailability(availabilityService.peek(movie, region));
+    availabilityService.getAvailability(movie, region).then(result => {
+      if (!cancelled) setAvailability(result);
+    });
+    return () => { cancelled = true; };
+  }, [movie.title, movie.year, movie.type, region]);
+
+  return availability;
+};
@@ -0,0 +1,91 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Collection, Movie, SharedCollection, WatchlistEntry } from '../types';
+import { watchlistService, WatchlistUpdate, CollectionDetails, DEFAULT_COLLECTION_ID } from '../services/watchlistService';
+import { storageEvents } from '../services/storageEvents';
+import { useAuth } from './AuthContext';
+
+// The signed-in user's lists plus actions already bound to that user, so
+// components never pass (or forget) a uid themselves
+interface WatchlistContextType {
+  collections: Collection[];
+  isInWatchlist: (movie: Movie, collectionId?: string) => boolean;
+  addToWatchlist: (movie: Movie, collectionId?: string) => void;
+  removeFromWatchlist: (movie: Movie, collectionId?: string) => void;
+  updateEntry: (movie: Movie, changes: WatchlistUpdate, collectionId?: string) => void;
+  moveEntry: (movie: Movie, fromId: string, toId: string) => void;
+  reorderEntry: (movie: Movie, target: Movie, collectionId?: string) => void;
+  createCollection: (details: CollectionDetails, items?: WatchlistEntry[]) => Collection;
+  updateCollection: (collectionId: string, details: CollectionDetails) => void;
+  deleteCollection: (collectionId: string) => void;
+  importCollection: (shared: SharedCollection) => Collection;
+}
+
+const WatchlistContext = createContext<WatchlistContextType | undefined>(undefined);
+
+const isSameTitle = (a: Movie, b: Movie) => a.title === b.title && a.year === b.year;
+
+export const WatchlistProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.uid;
+  const [collections, setCollections] = useState<Collection[]>(() => watchlistService.getCollections(userId));
+  // Swap lists in the same render the user changes, so nothing downstream
+  // (e.g. a /collection link being resolved) sees the previous user's lists
+  const [loadedFor, setLoadedFor] = useState(userId);
+  if (loadedFor !== userId) {
+    setLoadedFor(userId);
+    setCollections(watchlistService.getCollections(userId));
+  }
+
+  // Every write goes through watchlistService, which announces it on
+  // storageEvents (this tab, including synced changes) or as a `storage`
+  // event (other tabs), so one reload path keeps all subscribers current.
+  useEffect(() => {
+    const reload = () => setCollections(watchlistService.getCollections(userId));
+    reload();
+
+    const unsubscribe = storageEvents.subscribe((doc, changedUserId) => {
+      if (doc === 'watchlist' && changedUserId === userId) reload();
+    });
+    // key is null when another tab cleared all of localStorage
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === null || e.key === watchlistService.getStorageKey(userId)) reload();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [userId]);
+
+  const isInWatchlist = useCallback((movie: Movie, collectionId = DEFAULT_COLLECTION_ID) =>
+    !!collections.find(c => c.id === collectionId)?.items.some(entry => isSameTitle(entry, movie)),
+  [collections]);
+
+  const value = useMemo<WatchlistContextType>(() => ({
+    collections,
+    isInWatchlist,
+    addToWatchlist: (movie, collectionId) => watchlistService.addToWatchlist(movie, userId, collectionId),
+    removeFromWatchlist: (movie, collectionId) => watchlistService.removeFromWatchlist(movie, userId, collectionId),
+    updateEntry: (movie, changes, collectionId) => watchlistService.updateEntry(movie, changes, userId, collectionId),
+    moveEntry: (movie, fromId, toId) => watchlistService.moveEntry(movie, fromId, toId, userId),
+    reorderEntry: (movie, target, collectionId) => watchlistService.reorderEntry(movie, target, userId, collectionId),
+    createCollection: (details, items) => watchlistService.createCollection(details, userId, items),
+    updateCollection: (collectionId, details) => watchlistService.updateCollection(collectionId, details, userId),
+    deleteCollection: (collectionId) => watchlistService.deleteCollection(collectionId, userId),
+    importCollection: (shared) => watchlistService.importCollection(shared, userId),
+  }), [collections, isInWatchlist, userId]);
+
+  return (
+    <WatchlistContext.Provider value={value}>
+      {children}
+    </WatchlistContext.Provider>
+  );
+};
+
+export const useWatchlist = () => {
+  const context = useContext(WatchlistContext);
+  if (context === undefined) {
+    throw new Error('useWatchlist must be used within a WatchlistProvider');
+  }
+  return context;
+};
@@ -0,0 +1,8 @@
+import { Movie, TitleAvailability } from "../types";
+
+// A source of streaming offers (JustWatch-style catalogs, local fixtures...)
+export interface AvailabilityProvider {
+  readonly name: string;
+  // Resolves to null when the title is unknown; an empty offer list means known but not available there
+  lookup(movie: Movie, region: string): Promise<TitleAvailability | null>;
+}
@@ -0,0 +1,113 @@
+import { Movie, OfferType, StreamingOffer, TitleAvailability } from "../types";
+import { AvailabilityProvider } from "./availabilityProvider";
+import { FixtureAvailabilityProvider } from "./fixtureAvailabilityProvider";
+import { normalizeTitle, releaseYear } from "./metadataProvider";
+
+export type { AvailabilityProvider } from "./availabilityProvider";
+
+const CACHE_KEY = 'moviesgpt_availability_cache';
+// Catalogs rotate monthly and rentals change price often; a day keeps badges honest
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 300;
+
+// Order badges are listed in: what's already paid for first
+const OFFER_ORDER: OfferType[] = ['subscription', 'free', 'rent', 'buy'];
+
+interface CacheEntry {
+  availability: TitleAvailability | null;
+  fetchedAt: number;
+}
+
+// The bundled fixtures are the only source so far; a live catalog plugs in here
+export const createAvailabilityProvider = (): AvailabilityProvider => new FixtureAvailabilityProvider();
+
+// Offers the user can play right now: free ones, or included with a service they have
+export const getStreamableOffers = (availability: TitleAvailability | null | undefined, services: string[]): StreamingOffer[] =>
+  (availability?.offers || []).filter(offer => offer.type === 'free' || (offer.type === 'subscription' && services.includes(offer.service)));
+
+export const sortOffers = (offers: StreamingOffer[]): StreamingOffer[] =>
+  [...offers].sort((a, b) => OFFER_ORDER.indexOf(a.type) - OFFER_ORDER.indexOf(b.type));
+
+const readCache = (): Record<string, CacheEntry> => {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to parse availability cache", e);
+    return {};
+  }
+};
+
+// Keeps only the most recently fetched entries
+const writeCache = (cache: Record<string, CacheEntry>) => {
+  try {
+    const entries = Object.entries(cache)
+      .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+      .slice(0, MAX_CACHE_ENTRIES);
+    localStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (e) {
+    console.error("Failed to save availability cache", e);
+  }
+};
+
+class AvailabilityService {
+  private provider: AvailabilityProvider;
+  private cache: Record<string, CacheEntry> | null = null;
+  private pending = new Map<string, Promise<TitleAvailability | null>>();
+
+  constructor(provider: AvailabilityProvider) {
+    this.provider = provider;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  private cacheKey(movie: Movie, region: string): string {
+    return `${this.provider.name}:${region}:${movie.type || 'movie'}:${normalizeTitle(movie.title)}|${releaseYear(movie.year)}`;
+  }
+
+  private getCache(): Record<string, CacheEntry> {
+    if (!this.cache) this.cache = readCache();
+    return this.cache;
+  }
+
+  // Cached result without a lookup, so badges and filters work on first paint
+  peek(movie: Movie, region: string): TitleAvailability | null | undefined {
+    const entry = this.getCache()[this.cacheKey(movie, region)];
+    return entry && Date.now() - entry.fetchedAt < CACHE_TTL_MS ? entry.availability : undefined;
+  }
+
+  // Never rejects: a failed lookup resolves to null and the card simply shows no badges
+  getAvailability(movie: Movie, region: string): Promise<TitleAvailability | null> {
+    const cached = this.peek(movie, region);
+    if (cached !== undefined) return Promise.resolve(cached);
+
+    const key = this.cacheKey(movie, region);
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const request = this.provider.lookup(movie, region)
+      .then(availability => {
+        const cache = this.getCache();
+        cache[key] = { availability, fetchedAt: Date.now() };
+        writeCache(cache);
+        return availability;
+      })
+      .catch(error => {
+        console.error(`Availability lookup failed for ${movie.title}`, error);
+        return null;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  clearCache() {
+    this.cache = {};
+    localStorage.removeItem(CACHE_KEY);
+  }
+}
+
+export const availabilityService = new AvailabilityService(createAvailabilityProvider());
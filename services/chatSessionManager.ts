@@ -0,0 +1,65 @@
+import { ChatTurn } from "../types";
+import { RecommendationProvider } from "./recommendationProvider";
+import { createRecommendationProvider } from "./geminiService";
+
+// Live sessions kept in memory; older idle ones are disposed and rebuilt from
+// their saved history when reopened.
+const MAX_LIVE_SESSIONS = 10;
+
+export const createSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`;
+
+// Owns one independent chat per conversation id, so separate threads never
+// share model context.
+class ChatSessionManager {
+  private sessions = new Map<string, RecommendationProvider>();
+  private factory: () => RecommendationProvider;
+
+  constructor(factory: () => RecommendationProvider) {
+    this.factory = factory;
+  }
+
+  create(id: string = createSessionId(), history: ChatTurn[] = []): string {
+    const session = this.factory();
+    if (history.length > 0) {
+      session.restoreHistory(history);
+    }
+    this.sessions.set(id, session);
+    this.evict(id);
+    return id;
+  }
+
+  // Returns the session for `id`, creating an empty one if it isn't live
+  get(id: string): RecommendationProvider {
+    let session = this.sessions.get(id);
+    if (!session) {
+      this.create(id);
+      session = this.sessions.get(id)!;
+    } else {
+      // Re-insert to mark as most recently used
+      this.sessions.delete(id);
+      this.sessions.set(id, session);
+    }
+    return session;
+  }
+
+  has(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  dispose(id: string) {
+    this.sessions.delete(id);
+  }
+
+  disposeAll() {
+    this.sessions.clear();
+  }
+
+  private evict(keepId: string) {
+    for (const id of this.sessions.keys()) {
+      if (this.sessions.size <= MAX_LIVE_SESSIONS) break;
+      if (id !== keepId) this.sessions.delete(id);
+    }
+  }
+}
+
+export const chatSessionManager = new ChatSessionManager(() => createRecommendationProvider());
@@ -0,0 +1,270 @@
+import { Collection, HistoryItem, WatchlistEntry } from '../types';
+import { db } from './firebase';
+import { FirestoreBackend } from './firestoreBackend';
+import { StorageBackend, SyncRecord } from './storageBackend';
+import { StorageDocument, storageEvents } from './storageEvents';
+import { mergeRecords, recordsEqual } from './syncMerge';
+import { watchlistService, DEFAULT_COLLECTION_ID } from './watchlistService';
+import { historyService } from './historyService';
+
+const SYNC_VERSION = 1;
+// Batches bursts of edits (e.g. clicking through a rating) into one write
+const PUSH_DELAY_MS = 1000;
+const BASE_KEY = 'moviesgpt_sync_base';
+const DOCUMENTS: StorageDocument[] = ['watchlist', 'history'];
+
+// 'local' = no cloud backend or nobody signed in
+export type SyncStatus = 'local' | 'syncing' | 'synced' | 'offline' | 'error';
+
+// Converts one locally cached document to and from flat sync records
+interface SyncAdapter {
+  toRecords(userId?: string): SyncRecord[];
+  apply(records: SyncRecord[], userId?: string): void;
+}
+
+const titleKey = (entry: WatchlistEntry) => `${entry.title}|${entry.year}`;
+
+type CollectionMeta = Omit<Collection, 'items'> & { order: string[] };
+
+// Collections and their entries sync as separate records so edits to
+// different titles on two devices both survive.
+const watchlistAdapter: SyncAdapter = {
+  toRecords: (userId) => watchlistService.getCollections(userId).flatMap(collection => {
+    const { items, ...meta } = collection;
+    const metaRecord: SyncRecord = {
+      key: `list:${collection.id}`,
+      updatedAt: collection.updatedAt,
+      data: JSON.stringify({ ...meta, order: items.map(titleKey) }),
+    };
+    return [metaRecord, ...items.map(entry => ({
+      key: `item:${collection.id}:${titleKey(entry)}`,
+      updatedAt: entry.updatedAt,
+      data: JSON.stringify(entry),
+    }))];
+  }),
+
+  apply: (records, userId) => {
+    const metas: CollectionMeta[] = [];
+    const itemsByList = new Map<string, WatchlistEntry[]>();
+    records.forEach(record => {
+      if (record.key.startsWith('list:')) {
+        metas.push(JSON.parse(record.data));
+      } else if (record.key.startsWith('item:')) {
+        const listId = record.key.substring(5, record.key.indexOf(':', 5));
+        itemsByList.set(listId, [...(itemsByList.get(listId) || []), JSON.parse(record.data)]);
+      }
+    });
+
+    // Entries whose list was deleted elsewhere land in the main list rather than vanishing
+    const known = new Set(metas.map(meta => meta.id));
+    itemsByList.forEach((items, listId) => {
+      if (known.has(listId) || listId === DEFAULT_COLLECTION_ID) return;
+      itemsByList.set(DEFAULT_COLLECTION_ID, [...(itemsByList.get(DEFAULT_COLLECTION_ID) || []), ...items]);
+      itemsByList.delete(listId);
+    });
+
+    const collections: Collection[] = metas.map(({ order, ...meta }) => {
+      const items = itemsByList.get(meta.id) || [];
+      const rank = new Map(order.map((key, idx) => [key, idx]));
+      // Keep the saved order; entries it doesn't know yet go last, oldest first
+      const sorted = [...items].sort((a, b) =>
+        (rank.get(titleKey(a)) ?? Infinity) - (rank.get(titleKey(b)) ?? Infinity) || a.addedAt - b.addedAt
+      );
+      return { ...meta, items: sorted };
+    });
+
+    collections.sort((a, b) =>
+      (a.id === DEFAULT_COLLECTION_ID ? -1 : b.id === DEFAULT_COLLECTION_ID ? 1 : a.createdAt - b.createdAt)
+    );
+    watchlistService.replaceCollections(collections, userId);
+  },
+};
+
+const historyAdapter: SyncAdapter = {
+  toRecords: (userId) => historyService.getHistory(userId).map(item => ({
+    key: `query:${item.query.trim().toLowerCase()}`,
+    updatedAt: item.timestamp,
+    data: JSON.stringify(item),
+  })),
+
+  apply: (records, userId) => {
+    historyService.replaceHistory(records.map(record => JSON.parse(record.data) as HistoryItem), userId);
+  },
+};
+
+// Keeps the localStorage cache of a signed-in user in step with a remote
+// backend. The UI keeps reading localStorage, so everything works offline;
+// local writes are pushed shortly after they happen and remote changes are
+// merged in as they arrive.
+class CloudSyncService {
+  private backend: StorageBackend | null;
+  private adapters: Record<StorageDocument, SyncAdapter>;
+  private userId: string | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private timers = new Map<StorageDocument, ReturnType<typeof setTimeout>>();
+  // Set while we write merged data locally, so it isn't pushed straight back
+  private applying = false;
+  private status: SyncStatus = 'local';
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+
+  constructor(backend: StorageBackend | null, adapters: Record<StorageDocument, SyncAdapter>) {
+    this.backend = backend;
+    this.adapters = adapters;
+  }
+
+  get isEnabled(): boolean {
+    return !!this.backend;
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribeStatus(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => { this.statusListeners.delete(listener); };
+  }
+
+  start(userId: string) {
+    if (this.userId === userId) return;
+    this.stop();
+    this.userId = userId;
+
+    const backend = this.backend;
+    if (!backend) return;
+
+    this.unsubscribers.push(storageEvents.subscribe((doc, changedUserId) => {
+      if (!this.applying && changedUserId === this.userId) this.schedulePush(doc);
+    }));
+    DOCUMENTS.forEach(doc => {
+      this.unsubscribers.push(backend.subscribe(
+        userId,
+        doc,
+        remote => remote && this.pull(doc, userId, remote.records),
+        error => this.fail(error)
+      ));
+      // The first push also merges anything edited while signed out or offline
+      this.push(doc);
+    });
+
+    window.addEventListener('online', this.handleOnline);
+    this.unsubscribers.push(() => window.removeEventListener('online', this.handleOnline));
+  }
+
+  stop() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.userId = null;
+    this.setStatus('local');
+  }
+
+  private handleOnline = () => {
+    DOCUMENTS.forEach(doc => this.push(doc));
+  };
+
+  private schedulePush(doc: StorageDocument) {
+    clearTimeout(this.timers.get(doc));
+    this.timers.set(doc, setTimeout(() => {
+      this.timers.delete(doc);
+      this.push(doc);
+    }, PUSH_DELAY_MS));
+  }
+
+  private async push(doc: StorageDocument) {
+    const userId = this.userId;
+    if (!userId || !this.backend) return;
+    if (!navigator.onLine) {
+      this.setStatus('offline');
+      return;
+    }
+
+    this.setStatus('syncing');
+    const adapter = this.adapters[doc];
+    let sentLocal: SyncRecord[] = [];
+    try {
+      const merged = await this.backend.transact(userId, doc, remote => {
+        sentLocal = adapter.toRecords(userId);
+        const { records } = mergeRecords(this.readBase(doc, userId), sentLocal, remote?.records || []);
+        return { version: SYNC_VERSION, records, updatedAt: Date.now() };
+      });
+      if (this.userId !== userId) return;
+
+      this.writeBase(doc, userId, merged.records);
+      // Edits made while the write was in flight are merged on top, then pushed
+      const current = adapter.toRecords(userId);
+      if (recordsEqual(current, sentLocal)) {
+        this.applyLocal(doc, userId, merged.records);
+      } else {
+        this.applyLocal(doc, userId, mergeRecords(sentLocal, current, merged.records).records);
+        this.schedulePush(doc);
+      }
+      this.setStatus('synced');
+    } catch (e) {
+      this.fail(e);
+    }
+  }
+
+  private pull(doc: StorageDocument, userId: string, remote: SyncRecord[]) {
+    if (this.userId !== userId) return;
+    const base = this.readBase(doc, userId);
+    // Nothing new, e.g. the confirmation of our own last write
+    if (recordsEqual(base, remote)) return;
+
+    const merged = mergeRecords(base, this.adapters[doc].toRecords(userId), remote).records;
+    this.applyLocal(doc, userId, merged);
+    this.writeBase(doc, userId, remote);
+    if (!recordsEqual(merged, remote)) this.schedulePush(doc);
+    this.setStatus('synced');
+  }
+
+  private applyLocal(doc: StorageDocument, userId: string, records: SyncRecord[]) {
+    const adapter = this.adapters[doc];
+    if (recordsEqual(adapter.toRecords(userId), records)) return;
+    this.applying = true;
+    try {
+      adapter.apply(records, userId);
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  private readBase(doc: StorageDocument, userId: string): SyncRecord[] {
+    try {
+      const stored = localStorage.getItem(`${BASE_KEY}_${doc}_${userId}`);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      console.error("Failed to parse sync base", e);
+      return [];
+    }
+  }
+
+  private writeBase(doc: StorageDocument, userId: string, records: SyncRecord[]) {
+    try {
+      localStorage.setItem(`${BASE_KEY}_${doc}_${userId}`, JSON.stringify(records));
+    } catch (e) {
+      console.error("Failed to save sync base", e);
+    }
+  }
+
+  private fail(error: unknown) {
+    if (!navigator.onLine) {
+      this.setStatus('offline');
+    } else {
+      console.error("Cloud sync failed", error);
+      this.setStatus('error');
+    }
+  }
+
+  private setStatus(status: SyncStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export const cloudSync = new CloudSyncService(db ? new FirestoreBackend(db) : null, {
+  watchlist: watchlistAdapter,
+  history: historyAdapter,
+});
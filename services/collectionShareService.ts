@@ -0,0 +1,80 @@
+import { Collection, Movie, SharedCollection } from '../types';
+import { validateMovie } from './responseValidator';
+
+// Links look like https://host/#share=<payload>; the hash never reaches a server
+const SHARE_PARAM = 'share';
+const MAX_SHARED_ITEMS = 100;
+
+// Card fields worth sending; tracking data (status, notes, ratings) stays private
+const SHARED_FIELDS: (keyof Movie)[] = [
+  'title', 'year', 'genres', 'runtime', 'rating', 'emotionalTone', 'reason', 'bestSuitedFor',
+  'language', 'industry', 'director', 'type', 'totalSeasons', 'trailerUrl'
+];
+
+const pickSharedFields = (movie: Movie): Movie => {
+  const picked: Partial<Movie> = {};
+  SHARED_FIELDS.forEach(field => {
+    if (movie[field] !== undefined) (picked as Record<string, unknown>)[field] = movie[field];
+  });
+  return picked as Movie;
+};
+
+// base64url over UTF-8 so titles in any script survive the URL
+const encode = (value: unknown): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decode = (payload: string): unknown => {
+  const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+};
+
+export const collectionShareService = {
+  toShared: (collection: Collection, fallbackName: string): SharedCollection => ({
+    name: collection.name || fallbackName,
+    description: collection.description,
+    cover: collection.cover,
+    items: collection.items.slice(0, MAX_SHARED_ITEMS).map(pickSharedFields),
+  }),
+
+  buildShareUrl: (shared: SharedCollection): string => {
+    const base = `${window.location.origin}${window.location.pathname}`;
+    return `${base}#${SHARE_PARAM}=${encode(shared)}`;
+  },
+
+  // Reads a shared collection from the current URL, or null when there is none.
+  // Links are untrusted input, so every item goes through the card validator.
+  readFromLocation: (): SharedCollection | null => {
+    const match = window.location.hash.match(new RegExp(`[#&]${SHARE_PARAM}=([^&]+)`));
+    if (!match) return null;
+
+    try {
+      const raw = decode(match[1]) as Partial<SharedCollection>;
+      if (!raw || typeof raw.name !== 'string' || !Array.isArray(raw.items)) return null;
+
+      const items = raw.items.slice(0, MAX_SHARED_ITEMS)
+        .map((item, idx) => validateMovie(item, `items[${idx}]`).movie)
+        .filter((movie): movie is Movie => !!movie);
+
+      return {
+        name: raw.name.substring(0, 80),
+        description: typeof raw.description === 'string' ? raw.description.substring(0, 300) : undefined,
+        cover: typeof raw.cover === 'string' && /^https?:\/\//.test(raw.cover) ? raw.cover : undefined,
+        items,
+      };
+    } catch (e) {
+      console.error("Failed to read shared collection", e);
+      return null;
+    }
+  },
+
+  // Keeps the entry's state, which the router reads for back navigation
+  clearFromLocation: () => {
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}`);
+  }
+};
@@ -0,0 +1,61 @@
+import { Conversation } from '../types';
+
+const BASE_KEY = 'moviesgpt_conversations';
+const MAX_CONVERSATIONS = 30;
+
+const getKey = (userId?: string) => userId ? `${BASE_KEY}_${userId}` : `${BASE_KEY}_guest`;
+
+const write = (conversations: Conversation[], userId?: string) => {
+  localStorage.setItem(getKey(userId), JSON.stringify(conversations));
+};
+
+export const conversationService = {
+  // Most recently updated first
+  getConversations: (userId?: string): Conversation[] => {
+    try {
+      const stored = localStorage.getItem(getKey(userId));
+      const list: Conversation[] = stored ? JSON.parse(stored) : [];
+      return list.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (e) {
+      console.error("Failed to parse conversations", e);
+      return [];
+    }
+  },
+
+  getConversation: (id: string, userId?: string): Conversation | undefined => {
+    return conversationService.getConversations(userId).find(c => c.id === id);
+  },
+
+  saveConversation: (conversation: Conversation, userId?: string) => {
+    try {
+      const others = conversationService.getConversations(userId).filter(c => c.id !== conversation.id);
+      // Keep storage bounded by dropping the oldest conversations
+      write([conversation, ...others].slice(0, MAX_CONVERSATIONS), userId);
+    } catch (e) {
+      console.error("Failed to save conversation", e);
+    }
+  },
+
+  renameConversation: (id: string, title: string, userId?: string) => {
+    try {
+      const list = conversationService.getConversations(userId);
+      write(list.map(c => c.id === id ? { ...c, title: title.trim() || c.title } : c), userId);
+    } catch (e) {
+      console.error("Failed to rename conversation", e);
+    }
+  },
+
+  deleteConversation: (id: string, userId?: string) => {
+    try {
+      write(conversationService.getConversations(userId).filter(c => c.id !== id), userId);
+    } catch (e) {
+      console.error("Failed to delete conversation", e);
+    }
+  },
+
+  // Short title from the first user message
+  deriveTitle: (firstQuery: string): string => {
+    const text = firstQuery.trim().replace(/\s+/g, ' ');
+    return text.length > 40 ? `${text.substring(0, 40)}…` : text;
+  }
+};
@@ -0,0 +1,445 @@
+import { jsPDF } from "jspdf";
+import { Collection, ExportDocument, ExportFormat, ExportItem, Message, Movie, Source, WatchlistEntry, WatchStatus } from "../types";
+import { metadataService } from "./metadataService";
+import { releaseYear } from "./metadataProvider";
+import { validateMovie } from "./responseValidator";
+import { feedKey, modelReplies } from "./recommendationFeed";
+import { parseRuntimeMinutes } from "./requestConstraints";
+import { createZip } from "./zipArchive";
+import { withoutReplyChecks } from "./watchlistService";
+
+// Tag and version of the JSON format, so an import can tell it is one of ours
+const JSON_FORMAT = 'moviesgpt-export';
+const JSON_VERSION = 1;
+const MAX_IMPORTED_ITEMS = 500;
+
+const FORMAT_FILES: Record<ExportFormat, { suffix: string; mimeType: string }> = {
+  pdf: { suffix: '.pdf', mimeType: 'application/pdf' },
+  docx: { suffix: '.docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  csv: { suffix: '.csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { suffix: '.json', mimeType: 'application/json' },
+  markdown: { suffix: '.md', mimeType: 'text/markdown;charset=utf-8' },
+  letterboxd: { suffix: '-letterboxd.csv', mimeType: 'text/csv;charset=utf-8' },
+  imdb: { suffix: '-imdb.csv', mimeType: 'text/csv;charset=utf-8' },
+};
+
+// Every card field, in the order the full CSV lists them
+const MOVIE_FIELDS: (keyof Movie)[] = [
+  'title', 'year', 'type', 'genres', 'runtime', 'rating', 'contentRating', 'language', 'industry', 'director',
+  'totalSeasons', 'emotionalTone', 'bestSuitedFor', 'specialFeature', 'synopsis', 'reason', 'trailerUrl',
+  'verification', 'constraintViolations',
+];
+
+const TRACKING_FIELDS = ['status', 'addedAt', 'updatedAt', 'watchedAt', 'userRating', 'notes', 'currentSeason', 'currentEpisode'] as const;
+
+const WATCH_STATUS_VALUES: WatchStatus[] = ['plan', 'watching', 'watched', 'dropped'];
+
+const STATUS_LABELS: Record<WatchStatus, string> = {
+  plan: 'Plan to watch',
+  watching: 'Watching',
+  watched: 'Watched',
+  dropped: 'Dropped',
+};
+
+const isWatchlistEntry = (movie: Movie): movie is WatchlistEntry =>
+  'status' in movie && 'addedAt' in movie;
+
+// Collections also carry tracking fields on their items; only the card is wanted here
+const pickMovieFields = (movie: Movie): Movie => {
+  const picked: Partial<Movie> = {};
+  MOVIE_FIELDS.forEach(field => {
+    if (movie[field] !== undefined) (picked as Record<string, unknown>)[field] = movie[field];
+  });
+  return picked as Movie;
+};
+
+// YYYY-MM-DD in local time, as the list importers expect
+const formatDate = (timestamp?: number): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const catalogIds = (movie: Movie) => metadataService.peek(movie)?.externalIds || {};
+
+// TMDB ids are stored as "movie/27205"; importers want the number
+const tmdbNumber = (id?: string) => id?.split('/').pop() || '';
+
+const runtimeMinutes = (movie: Movie): number | null =>
+  metadataService.peek(movie)?.runtimeMinutes || parseRuntimeMinutes(movie.runtime || '');
+
+const progress = (entry?: WatchlistEntry) =>
+  entry?.currentSeason ? `S${entry.currentSeason}E${entry.currentEpisode || 1}` : '';
+
+const formatSources = (sources: Source[]) => sources.map(s => `${s.title} <${s.uri}>`).join(' | ');
+
+// --- CSV ---
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvText = (rows: unknown[][]): string => rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const toCsv = (doc: ExportDocument): string => toCsvText([
+  [
+    'Title', 'Year', 'Type', 'Genres', 'Runtime', 'Rating', 'Content Rating', 'Language', 'Industry', 'Director',
+    'Seasons', 'Emotional Tone', 'Best Suited For', 'Special Feature', 'Synopsis', 'Reason', 'Trailer URL',
+    'Verification', "Doesn't Match", 'IMDb ID', 'TMDB ID',
+    'Status', 'My Rating', 'Added', 'Watched', 'Progress', 'Notes', 'Sources',
+  ],
+  ...doc.items.map(({ movie, entry, sources }) => {
+    const ids = catalogIds(movie);
+    return [
+      movie.title, movie.year, movie.type || '', movie.genres.join(', '), movie.runtime, movie.rating,
+      movie.contentRating, movie.language, movie.industry, movie.director, movie.totalSeasons,
+      movie.emotionalTone, movie.bestSuitedFor, movie.specialFeature, movie.synopsis, movie.reason, movie.trailerUrl,
+      movie.verification?.status, movie.constraintViolations?.map(v => `${v.constraint}: ${v.actual}`).join('; '),
+      ids.imdb, ids.tmdb,
+      entry?.status, entry?.userRating, formatDate(entry?.addedAt), formatDate(entry?.watchedAt), progress(entry),
+      entry?.notes, formatSources(sources),
+    ];
+  }),
+]);
+
+// Letterboxd's importer: films only, ratings on its 0.5-5 scale, matched by IMDb or TMDB id when known
+const toLetterboxdCsv = (doc: ExportDocument): string => toCsvText([
+  ['Title', 'Year', 'Directors', 'Rating', 'WatchedDate', 'Review', 'imdbID', 'tmdbID'],
+  ...doc.items
+    .filter(({ movie }) => movie.type !== 'tv')
+    .map(({ movie, entry }) => {
+      const ids = catalogIds(movie);
+      return [
+        movie.title,
+        releaseYear(movie.year),
+        movie.director,
+        entry?.userRating ? entry.userRating / 2 : '',
+        entry?.status === 'watched' ? formatDate(entry.watchedAt) : '',
+        entry?.notes,
+        ids.imdb,
+        tmdbNumber(ids.tmdb),
+      ];
+    }),
+]);
+
+// The columns of an IMDb list export; IMDb's list import matches rows on "Const"
+const toImdbCsv = (doc: ExportDocument): string => toCsvText([
+  [
+    'Position', 'Const', 'Created', 'Modified', 'Description', 'Title', 'URL', 'Title Type', 'IMDb Rating',
+    'Runtime (mins)', 'Year', 'Genres', 'Num Votes', 'Release Date', 'Directors', 'Your Rating', 'Date Rated',
+  ],
+  ...doc.items.map(({ movie, entry }, idx) => {
+    const imdb = catalogIds(movie).imdb || '';
+    const imdbRating = parseFloat(movie.rating);
+    return [
+      idx + 1,
+      imdb,
+      formatDate(entry?.addedAt || doc.exportedAt),
+      formatDate(entry?.updatedAt || doc.exportedAt),
+      entry?.notes || '',
+      movie.title,
+      imdb ? `https://www.imdb.com/title/${imdb}/` : '',
+      movie.type === 'tv' ? 'TV Series' : 'Movie',
+      Number.isFinite(imdbRating) ? imdbRating : '',
+      movie.type === 'tv' ? '' : runtimeMinutes(movie) || '',
+      releaseYear(movie.year),
+      movie.genres.join(', '),
+      '',
+      '',
+      movie.director,
+      entry?.userRating || '',
+      entry?.userRating ? formatDate(entry.updatedAt) : '',
+    ];
+  }),
+]);
+
+// --- Readable documents (PDF, Word, Markdown) share one layout ---
+
+interface DescribedItem {
+  heading: string;
+  summary: string;
+  lines: { label: string; text: string }[];
+  sources: Source[];
+}
+
+const describeItem = ({ movie, entry, sources }: ExportItem, idx: number): DescribedItem => {
+  const summary = [
+    movie.genres.join(', '), movie.rating, movie.runtime, movie.contentRating, movie.industry, movie.language,
+    movie.type === 'tv' ? movie.totalSeasons || 'TV Series' : '',
+  ].filter(Boolean).join(' | ');
+
+  const personal = entry ? [
+    STATUS_LABELS[entry.status],
+    entry.userRating ? `rated ${entry.userRating}/10` : '',
+    entry.status === 'watched' && entry.watchedAt ? `watched ${formatDate(entry.watchedAt)}` : '',
+    entry.status === 'watching' ? progress(entry) : '',
+  ].filter(Boolean).join(', ') : '';
+
+  const lines = [
+    { label: 'Director', text: movie.director || '' },
+    { label: 'Your status', text: personal },
+    { label: 'Your notes', text: entry?.notes || '' },
+    { label: 'Synopsis', text: movie.synopsis || '' },
+    { label: 'Why', text: movie.reason },
+    { label: 'Tone', text: movie.emotionalTone },
+    { label: 'Best suited for', text: movie.bestSuitedFor },
+    { label: 'Stands out for', text: movie.specialFeature || '' },
+    { label: "Doesn't match", text: movie.constraintViolations?.map(v => `${v.constraint} (${v.actual})`).join(', ') || '' },
+    { label: 'Trailer', text: movie.trailerUrl || '' },
+  ].filter(line => line.text);
+
+  return { heading: `${idx + 1}. ${movie.title} (${movie.year})`, summary, lines, sources };
+};
+
+const exportedOn = (doc: ExportDocument) => `Exported from MoviesGPT on ${formatDate(doc.exportedAt)}`;
+
+const toMarkdown = (doc: ExportDocument): string => {
+  // Keeps titles like "*batteries not included" from turning into formatting
+  const md = (text: string) => text.replace(/([\\`*_[\]<>#])/g, '\\$1').replace(/\s*\n\s*/g, ' ');
+  const sections = doc.items.map(describeItem).map(item => [
+    `## ${md(item.heading)}`,
+    '',
+    item.summary ? `_${md(item.summary)}_` : '',
+    '',
+    ...item.lines.map(line => `- **${line.label}:** ${line.label === 'Trailer' ? `<${line.text}>` : md(line.text)}`),
+    ...(item.sources.length > 0 ? ['- **Sources:**', ...item.sources.map(s => `  - [${md(s.title)}](${s.uri})`)] : []),
+  ].join('\n').replace(/\n{3,}/g, '\n\n'));
+  return [`# ${md(doc.title)}`, '', `_${exportedOn(doc)}_`, '', ...sections.map(s => `${s}\n`)].join('\n');
+};
+
+const toPdf = (doc: ExportDocument): Blob => {
+  const pdf = new jsPDF();
+  pdf.setFontSize(18);
+  pdf.setTextColor(229, 9, 20);
+  pdf.text(`${doc.title} - MoviesGPT`, 14, 20);
+  pdf.setFontSize(10);
+  pdf.setTextColor(100);
+  pdf.text(exportedOn(doc), 14, 26);
+
+  let y = 40;
+  const write = (text: string, size: number, style: 'normal' | 'bold', color: number, gap = 5) => {
+    pdf.setFont("helvetica", style);
+    pdf.setFontSize(size);
+    pdf.setTextColor(color);
+    const wrapped: string[] = pdf.splitTextToSize(text, 180);
+    wrapped.forEach(line => {
+      if (y > 280) { pdf.addPage(); y = 20; }
+      pdf.text(line, 14, y);
+      y += gap;
+    });
+  };
+
+  doc.items.map(describeItem).forEach(item => {
+    if (y > 260) { pdf.addPage(); y = 20; }
+    write(item.heading, 12, 'bold', 0, 6);
+    if (item.summary) write(item.summary, 10, 'normal', 80);
+    y += 1;
+    item.lines.forEach(line => write(`${line.label}: ${line.text}`, 10, 'normal', 50));
+    item.sources.forEach(source => write(`Source: ${source.title} (${source.uri})`, 9, 'normal', 110, 4.5));
+    y += 6;
+  });
+  return pdf.output('blob');
+};
+
+// --- Word (.docx): a minimal Office Open XML package ---
+
+// Control characters other than tab and newline are not allowed in XML
+const xmlText = (text: string) => text
+  .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const run = (text: string, props = '') =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${xmlText(text)}</w:t></w:r>`;
+
+const paragraph = (content: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${content}</w:p>`;
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`;
+
+const DOCX_PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial" w:eastAsia="Arial"/><w:sz w:val="21"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="80"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style><w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:rPr><w:b/><w:color w:val="E50914"/><w:sz w:val="40"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="320" w:after="60"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style><w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style></w:styles>`;
+
+const toDocx = (doc: ExportDocument): Uint8Array => {
+  // Sources become real links, each with its own relationship
+  const links: string[] = [];
+  const hyperlink = (text: string, uri: string) => {
+    links.push(uri);
+    return `<w:hyperlink r:id="rIdLink${links.length}">${run(text, '<w:rStyle w:val="Hyperlink"/>')}</w:hyperlink>`;
+  };
+
+  const body = [
+    paragraph(run(doc.title), 'Title'),
+    paragraph(run(exportedOn(doc), '<w:color w:val="666666"/>')),
+    ...doc.items.map(describeItem).flatMap(item => [
+      paragraph(run(item.heading), 'Heading1'),
+      item.summary ? paragraph(run(item.summary, '<w:color w:val="555555"/>')) : '',
+      ...item.lines.map(line => paragraph(run(`${line.label}: `, '<w:b/>') + run(line.text))),
+      ...(item.sources.length > 0
+        ? [paragraph(run('Sources: ', '<w:b/>') + item.sources.map(s => hyperlink(s.title, s.uri)).join(run(', ')))]
+        : []),
+    ]),
+  ].join('');
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>${
+    links.map((uri, idx) => `<Relationship Id="rIdLink${idx + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${xmlText(uri)}" TargetMode="External"/>`).join('')
+  }</Relationships>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: DOCX_CONTENT_TYPES },
+    { name: '_rels/.rels', data: DOCX_PACKAGE_RELS },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/_rels/document.xml.rels', data: documentRels },
+    { name: 'word/styles.xml', data: DOCX_STYLES },
+  ], new Date(doc.exportedAt));
+};
+
+// --- JSON: everything, and readable back in ---
+
+const toJson = (doc: ExportDocument): string => JSON.stringify({
+  format: JSON_FORMAT,
+  version: JSON_VERSION,
+  title: doc.title,
+  exportedAt: doc.exportedAt,
+  items: doc.items.map(({ movie, entry, sources }) => {
+    const tracking: Record<string, unknown> = {};
+    if (entry) TRACKING_FIELDS.forEach(field => { if (entry[field] !== undefined) tracking[field] = entry[field]; });
+    const ids = catalogIds(movie);
+    return {
+      movie: pickMovieFields(movie),
+      ...(entry ? { tracking } : {}),
+      sources,
+      ...(ids.imdb || ids.tmdb ? { ids } : {}),
+    };
+  }),
+}, null, 2);
+
+const toNumber = (value: unknown, min: number, max: number): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+
+const readTracking = (raw: unknown, movie: Movie, fallbackTime: number): WatchlistEntry | undefined => {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const tracking = raw as Record<string, unknown>;
+  if (!WATCH_STATUS_VALUES.includes(tracking.status as WatchStatus)) return undefined;
+  const addedAt = toNumber(tracking.addedAt, 0, Number.MAX_SAFE_INTEGER) ?? fallbackTime;
+  return {
+    ...movie,
+    status: tracking.status as WatchStatus,
+    addedAt,
+    updatedAt: toNumber(tracking.updatedAt, 0, Number.MAX_SAFE_INTEGER) ?? addedAt,
+    watchedAt: toNumber(tracking.watchedAt, 0, Number.MAX_SAFE_INTEGER),
+    userRating: toNumber(tracking.userRating, 1, 10),
+    notes: typeof tracking.notes === 'string' ? tracking.notes.substring(0, 2000) : undefined,
+    currentSeason: toNumber(tracking.currentSeason, 1, 1000),
+    currentEpisode: toNumber(tracking.currentEpisode, 1, 10000),
+  };
+};
+
+const readSources = (raw: unknown): Source[] =>
+  Array.isArray(raw)
+    ? raw.filter((s): s is Source => typeof s?.title === 'string' && typeof s?.uri === 'string' && /^https?:\/\//.test(s.uri))
+    : [];
+
+// Files are untrusted input: cards go through the response validator and tracking fields are range-checked
+const parseJson = (text: string): ExportDocument | null => {
+  try {
+    const raw = JSON.parse(text);
+    if (!raw || raw.format !== JSON_FORMAT || !Array.isArray(raw.items)) return null;
+    const exportedAt = toNumber(raw.exportedAt, 0, Number.MAX_SAFE_INTEGER) ?? Date.now();
+
+    const items = (raw.items as unknown[]).slice(0, MAX_IMPORTED_ITEMS).flatMap((item, idx): ExportItem[] => {
+      if (typeof item !== 'object' || item === null) return [];
+      const record = item as Record<string, unknown>;
+      const movie = validateMovie(record.movie, `items[${idx}].movie`).movie;
+      if (!movie) return [];
+      return [{ movie, entry: readTracking(record.tracking, movie, exportedAt), sources: readSources(record.sources) }];
+    });
+
+    return {
+      title: typeof raw.title === 'string' ? raw.title.substring(0, 80) : '',
+      exportedAt,
+      items,
+    };
+  } catch (e) {
+    console.error("Failed to read export file", e);
+    return null;
+  }
+};
+
+export const exportService = {
+  // Pairs each title with the user's tracking data (from any list) and the sources of the reply that recommended it
+  createDocument: (title: string, movies: Movie[], collections: Collection[], messages: Message[]): ExportDocument => {
+    const entries = new Map<string, WatchlistEntry>();
+    collections.forEach(c => c.items.forEach(entry => {
+      if (!entries.has(feedKey(entry))) entries.set(feedKey(entry), entry);
+    }));
+    const sources = new Map<string, Source[]>();
+    modelReplies(messages).forEach(reply => reply.recommendations.forEach(movie => {
+      if (reply.sources?.length && !sources.has(feedKey(movie))) sources.set(feedKey(movie), reply.sources);
+    }));
+
+    return {
+      title,
+      exportedAt: Date.now(),
+      items: movies.map(movie => ({
+        movie: pickMovieFields(movie),
+        entry: isWatchlistEntry(movie) ? movie : entries.get(feedKey(movie)),
+        sources: sources.get(feedKey(movie)) || [],
+      })),
+    };
+  },
+
+  toCsv,
+  toLetterboxdCsv,
+  toImdbCsv,
+  toMarkdown,
+  toJson,
+  toDocx,
+  toPdf,
+  parseJson,
+
+  // Imported titles keep their tracking data; anything exported without it starts as "plan to watch"
+  toWatchlistEntries: (doc: ExportDocument): WatchlistEntry[] => doc.items.map(({ movie, entry }, idx) => entry ? withoutReplyChecks(entry) : {
+    ...withoutReplyChecks(movie),
+    status: 'plan',
+    addedAt: doc.exportedAt - (doc.items.length - idx) * 1000,
+    updatedAt: doc.exportedAt,
+    ...(movie.type === 'tv' ? { currentSeason: 1, currentEpisode: 1 } : {}),
+  }),
+
+  toBlob: (doc: ExportDocument, format: ExportFormat): Blob => {
+    const { mimeType } = FORMAT_FILES[format];
+    switch (format) {
+      case 'pdf': return toPdf(doc);
+      case 'docx': return new Blob([toDocx(doc)], { type: mimeType });
+      case 'json': return new Blob([toJson(doc)], { type: mimeType });
+      case 'markdown': return new Blob([toMarkdown(doc)], { type: mimeType });
+      // The byte order mark makes Excel read the CSVs as UTF-8
+      case 'csv': return new Blob(['\ufeff', toCsv(doc)], { type: mimeType });
+      case 'letterboxd': return new Blob([toLetterboxdCsv(doc)], { type: mimeType });
+      case 'imdb': return new Blob([toImdbCsv(doc)], { type: mimeType });
+    }
+  },
+
+  download: async (doc: ExportDocument, format: ExportFormat, fileName: string) => {
+    // IMDb and TMDB ids come from the catalog, so look up anything not cached yet
+    await Promise.all(doc.items.map(item => metadataService.getMetadata(item.movie)));
+    const url = URL.createObjectURL(exportService.toBlob(doc, format));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}${FORMAT_FILES[format].suffix}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  },
+};
@@ -0,0 +1,106 @@
+import { FeedbackVerdict, Movie, TitleFeedback } from '../types';
+import { TasteRating, tasteProfileService } from './tasteProfileService';
+
+const BASE_KEY = 'moviesgpt_feedback';
+const MAX_ENTRIES = 300;
+
+const getKey = (userId?: string) => userId ? `${BASE_KEY}_${userId}` : `${BASE_KEY}_guest`;
+
+const titleKey = (title: string, year: string) => `${title.trim().toLowerCase()}|${year.trim()}`;
+
+// "Seen" says nothing about taste
+const asRating = (verdict?: FeedbackVerdict): TasteRating | null =>
+  verdict === 'like' || verdict === 'dislike' ? verdict : null;
+
+const write = (entries: TitleFeedback[], userId?: string) => {
+  localStorage.setItem(getKey(userId), JSON.stringify(entries));
+};
+
+export const feedbackService = {
+  // Most recent first
+  getAll: (userId?: string): TitleFeedback[] => {
+    try {
+      const stored = localStorage.getItem(getKey(userId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      console.error("Failed to parse feedback", e);
+      return [];
+    }
+  },
+
+  getFeedback: (movie: Movie, userId?: string): TitleFeedback | undefined => {
+    const key = titleKey(movie.title, movie.year);
+    return feedbackService.getAll(userId).find(f => titleKey(f.title, f.year) === key);
+  },
+
+  setFeedback: (movie: Movie, verdict: FeedbackVerdict, userId?: string, reason?: string): TitleFeedback => {
+    const entry: TitleFeedback = {
+      title: movie.title,
+      year: movie.year,
+      verdict,
+      reason: reason?.trim() || undefined,
+      genres: movie.genres,
+      createdAt: Date.now(),
+    };
+    const previous = feedbackService.getFeedback(movie, userId)?.verdict;
+
+    try {
+      const key = titleKey(movie.title, movie.year);
+      const others = feedbackService.getAll(userId).filter(f => titleKey(f.title, f.year) !== key);
+      write([entry, ...others].slice(0, MAX_ENTRIES), userId);
+    } catch (e) {
+      console.error("Failed to save feedback", e);
+    }
+
+    // Thumbs also shape the long-term taste profile
+    tasteProfileService.changeRating(movie, asRating(verdict), asRating(previous), userId);
+    return entry;
+  },
+
+  clearFeedback: (movie: Movie, userId?: string) => {
+    const previous = feedbackService.getFeedback(movie, userId)?.verdict;
+    try {
+      const key = titleKey(movie.title, movie.year);
+      write(feedbackService.getAll(userId).filter(f => titleKey(f.title, f.year) !== key), userId);
+    } catch (e) {
+      console.error("Failed to clear feedback", e);
+    }
+    tasteProfileService.changeRating(movie, null, asRating(previous), userId);
+  },
+
+  // Titles the user never wants suggested again
+  getHiddenTitles: (userId?: string): TitleFeedback[] =>
+    feedbackService.getAll(userId).filter(f => f.verdict === 'seen' || f.verdict === 'dislike'),
+
+  isHidden: (movie: Movie, userId?: string): boolean => {
+    const verdict = feedbackService.getFeedback(movie, userId)?.verdict;
+    return verdict === 'seen' || verdict === 'dislike';
+  },
+
+  // Drops seen/disliked titles and moves picks that share genres with liked
+  // titles ahead of ones that share genres with disliked titles.
+  applyFeedback: (movies: Movie[], userId?: string): Movie[] => {
+    const entries = feedbackService.getAll(userId);
+    if (entries.length === 0) return movies;
+
+    const hidden = new Set(
+      entries.filter(f => f.verdict !== 'like').map(f => titleKey(f.title, f.year))
+    );
+    const genreScores: Record<string, number> = {};
+    entries.forEach(f => {
+      if (f.verdict === 'seen') return;
+      f.genres.forEach(g => {
+        genreScores[g] = (genreScores[g] || 0) + (f.verdict === 'like' ? 1 : -1);
+      });
+    });
+
+    const score = (movie: Movie) => movie.genres.reduce((sum, g) => sum + (genreScores[g] || 0), 0);
+
+    // Array.prototype.sort is stable, so equal scores keep the model's order
+    return movies
+      .filter(movie => !hidden.has(titleKey(movie.title, movie.year)))
+      .map(movie => ({ movie, score: score(movie) }))
+      .sort((a, b) => b.score - a.score)
+      .map(({ movie }) => movie);
+  },
+};
@@ -1,15 +1,20 @@
 import { initializeApp } from "firebase/app";
-import { getAuth, Auth } from "firebase/auth";
+import { getAuth, Auth, connectAuthEmulator } from "firebase/auth";
+import { getFirestore, Firestore, connectFirestoreEmulator } from "firebase/firestore";
 
-// TODO: Replace with your specific Firebase Project Configuration
-// You can get this from Firebase Console -> Project Settings -> General -> Your Apps
+// Emulator host, e.g. "localhost"; auth runs on 9099 and Firestore on 8080
+const emulatorHost = process.env.FIREBASE_EMULATOR_HOST || '';
+
+// Set FIREBASE_* in .env.local, or replace the placeholders below with your
+// Firebase Project Configuration (Firebase Console -> Project Settings -> General -> Your Apps).
+// The emulators accept any key for a "demo-" project, so none is needed there.
 const firebaseConfig = {
-  apiKey: "YOUR_API_KEY_HERE",
-  authDomain: "your-project.firebaseapp.com",
-  projectId: "your-project-id",
+  apiKey: process.env.FIREBASE_API_KEY || (emulatorHost ? "demo-api-key" : "YOUR_API_KEY_HERE"),
+  authDomain: process.env.FIREBASE_AUTH_DOMAIN || "your-project.firebaseapp.com",
+  projectId: process.env.FIREBASE_PROJECT_ID || (emulatorHost ? "demo-moviesgpt" : "your-project-id"),
   storageBucket: "your-project.appspot.com",
   messagingSenderId: "123456789",
-  appId: "1:123456789:web:abcdef123456"
+  appId: process.env.FIREBASE_APP_ID || "1:123456789:web:abcdef123456"
 };
 
 // Check if the user has actually configured the keys
@@ -21,14 +26,21 @@ export const isConfigured =
 
 let app;
 let authInstance: Auth | undefined;
+let dbInstance: Firestore | undefined;
 
 if (isConfigured) {
   try {
     app = initializeApp(firebaseConfig);
     authInstance = getAuth(app);
+    dbInstance = getFirestore(app);
+    if (emulatorHost) {
+      connectAuthEmulator(authInstance, `http://${emulatorHost}:9099`, { disableWarnings: true });
+      connectFirestoreEmulator(dbInstance, emulatorHost, 8080);
+    }
   } catch (e) {
     console.error("Firebase initialization failed. Falling back to demo mode.", e);
   }
 }
 
-export const auth = authInstance;
\ No newline at end of file
+export const auth = authInstance;
+export const db = dbInstance;
@@ -0,0 +1,44 @@
+import { Firestore, doc, onSnapshot, runTransaction } from "firebase/firestore";
+import { StorageBackend, SyncDocument } from "./storageBackend";
+import { StorageDocument } from "./storageEvents";
+
+// users/{uid}/sync/{watchlist|history}; see firestore.rules
+const docRef = (db: Firestore, userId: string, name: StorageDocument) => doc(db, 'users', userId, 'sync', name);
+
+const toSyncDocument = (data: unknown): SyncDocument | null => {
+  const value = data as Partial<SyncDocument> | undefined;
+  if (!value || !Array.isArray(value.records)) return null;
+  return { version: value.version || 1, records: value.records, updatedAt: value.updatedAt || 0 };
+};
+
+export class FirestoreBackend implements StorageBackend {
+  readonly name = 'firestore';
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async transact(userId: string, name: StorageDocument, merge: (remote: SyncDocument | null) => SyncDocument): Promise<SyncDocument> {
+    const ref = docRef(this.db, userId, name);
+    return runTransaction(this.db, async transaction => {
+      const snapshot = await transaction.get(ref);
+      const merged = merge(snapshot.exists() ? toSyncDocument(snapshot.data()) : null);
+      transaction.set(ref, merged);
+      return merged;
+    });
+  }
+
+  subscribe(userId: string, name: StorageDocument, onChange: (remote: SyncDocument | null) => void, onError?: (error: unknown) => void): () => void {
+    return onSnapshot(
+      docRef(this.db, userId, name),
+      snapshot => {
+        // Our own writes echo back before the server confirms them; the
+        // transaction result already covers those
+        if (snapshot.metadata.hasPendingWrites) return;
+        onChange(snapshot.exists() ? toSyncDocument(snapshot.data()) : null);
+      },
+      error => onError && onError(error)
+    );
+  }
+}
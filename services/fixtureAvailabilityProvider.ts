@@ -0,0 +1,33 @@
+/// <reference types="vite/client" />
+import { Movie, StreamingOffer, TitleAvailability } from "../types";
+import { AvailabilityProvider } from "./availabilityProvider";
+import { isSameTitle } from "./metadataProvider";
+
+// One title under fixtures/availability: its offers keyed by country code
+export interface AvailabilityFixture {
+  title: string;
+  year: string;
+  type?: 'movie' | 'tv';
+  offers: Record<string, StreamingOffer[]>;
+}
+
+const loadBundledFixtures = (): AvailabilityFixture[] => {
+  const modules = import.meta.glob<AvailabilityFixture[]>('../fixtures/availability/*.json', { eager: true, import: 'default' });
+  return Object.keys(modules).sort().flatMap(path => modules[path]);
+};
+
+// Offline offers for demo mode: a handful of services across India, the US and the UK
+export class FixtureAvailabilityProvider implements AvailabilityProvider {
+  readonly name = 'fixtures';
+  private fixtures: AvailabilityFixture[];
+
+  constructor(fixtures: AvailabilityFixture[] = loadBundledFixtures()) {
+    this.fixtures = fixtures;
+  }
+
+  async lookup(movie: Movie, region: string): Promise<TitleAvailability | null> {
+    const match = this.fixtures.find(f => (!f.type || !movie.type || f.type === movie.type) && isSameTitle(movie, f.title, f.year));
+    if (!match) return null;
+    return { title: match.title, year: match.year, region, offers: match.offers[region] || [], source: this.name };
+  }
+}
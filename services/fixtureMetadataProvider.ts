@@ -0,0 +1,31 @@
+/// <reference types="vite/client" />
+import { Movie, TitleMetadata } from "../types";
+import { MetadataProvider, isSameTitle, normalizeTitle } from "./metadataProvider";
+
+// One catalog entry under fixtures/metadata; `source` is filled in on lookup
+export type MetadataFixture = Omit<TitleMetadata, 'source'> & { type?: 'movie' | 'tv' };
+
+const loadBundledFixtures = (): MetadataFixture[] => {
+  const modules = import.meta.glob<MetadataFixture[]>('../fixtures/metadata/*.json', { eager: true, import: 'default' });
+  return Object.keys(modules).sort().flatMap(path => modules[path]);
+};
+
+// Offline catalog for demo mode and tests: same input, same answer, no network
+export class FixtureMetadataProvider implements MetadataProvider {
+  readonly name = 'fixtures';
+  private fixtures: MetadataFixture[];
+
+  constructor(fixtures: MetadataFixture[] = loadBundledFixtures()) {
+    this.fixtures = fixtures;
+  }
+
+  async lookup(movie: Movie): Promise<TitleMetadata | null> {
+    const sameType = (f: MetadataFixture) => !f.type || !movie.type || f.type === movie.type;
+    // Like a catalog search: exact match first, then the same title in any year
+    const match = this.fixtures.find(f => sameType(f) && isSameTitle(movie, f.title, f.year))
+      || this.fixtures.find(f => sameType(f) && normalizeTitle(f.title) === normalizeTitle(movie.title));
+    if (!match) return null;
+    const { type, ...metadata } = match;
+    return { ...metadata, source: this.name };
+  }
+}
@@ -0,0 +1,103 @@
+import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
+import { Source, ChatTurn } from "../types";
+import { BaseRecommendationProvider, ProviderReply } from "./recommendationProvider";
+import { SYSTEM_INSTRUCTION } from "./prompts";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+export class GeminiProvider extends BaseRecommendationProvider {
+  readonly name = 'Gemini';
+  private chat: Chat | null = null;
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
+    super();
+    this.ai = new GoogleGenAI({ apiKey });
+    this.model = model;
+  }
+
+  private createChat(history: ChatTurn[] = []): Chat {
+    return this.ai.chats.create({
+      model: this.model,
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        // Enable Google Search for real-time data
+        tools: [{ googleSearch: {} }],
+      },
+      history: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+    });
+  }
+
+  private getChat(): Chat {
+    if (!this.chat) {
+      this.chat = this.createChat();
+    }
+    return this.chat;
+  }
+
+  getHistory(): ChatTurn[] {
+    if (!this.chat) return [];
+    return this.chat.getHistory(true)
+      .filter(content => content.role === 'user' || content.role === 'model')
+      .map(content => ({
+        role: content.role as ChatTurn['role'],
+        text: (content.parts || []).map(part => part.text || '').join(''),
+      }));
+  }
+
+  restoreHistory(history: ChatTurn[]) {
+    this.chat = this.createChat(history);
+  }
+
+  // Extract Grounding Metadata (Sources)
+  private extractSources(response: GenerateContentResponse): Source[] {
+    const sources: Source[] = [];
+    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+
+    groundingChunks?.forEach(chunk => {
+      if (chunk.web?.uri && chunk.web?.title) {
+        sources.push({ title: chunk.web.title, uri: chunk.web.uri });
+      }
+    });
+
+    return sources;
+  }
+
+  protected async sendChatMessage(prompt: string): Promise<ProviderReply> {
+    const result = await this.getChat().sendMessage({ message: prompt });
+    // Accessing text property directly as per extraction guidelines
+    return { text: result.text || '', sources: this.extractSources(result) };
+  }
+
+  protected async streamChatMessage(prompt: string): Promise<AsyncGenerator<ProviderReply>> {
+    const stream = await this.getChat().sendMessageStream({ message: prompt });
+    const extractSources = this.extractSources.bind(this);
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        yield { text: chunk.text || '', sources: extractSources(chunk) };
+      }
+    })();
+  }
+
+  protected async generateRecommendations(prompt: string): Promise<ProviderReply> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        tools: [{ googleSearch: {} }],
+      },
+    });
+    return { text: response.text || '', sources: this.extractSources(response) };
+  }
+
+  protected async generateText(prompt: string): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: prompt,
+    });
+    return response.text || '';
+  }
+}
@@ -0,0 +1,96 @@
+import { Collection, Movie } from '../types';
+import { watchlistService, DEFAULT_COLLECTION_ID } from './watchlistService';
+import { historyService } from './historyService';
+
+const DECLINED_KEY = 'moviesgpt_guest_migration_declined';
+
+// What a guest saved on this device before signing in
+export interface GuestDataSummary {
+  titles: number;
+  lists: number;
+  searches: number;
+}
+
+export interface GuestMigrationResult {
+  moved: number;
+  // Guest titles the account already had in the same list
+  duplicates: number;
+  newLists: number;
+  searches: number;
+}
+
+const isSameTitle = (a: Movie, b: Movie) => a.title === b.title && a.year === b.year;
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// The guest main list goes into the account's main list; other lists join a
+// list with the same id or name, or come over as new lists
+const findTarget = (collections: Collection[], guest: Collection) => {
+  if (guest.id === DEFAULT_COLLECTION_ID) return collections.findIndex(c => c.id === DEFAULT_COLLECTION_ID);
+  return collections.findIndex(c => c.id === guest.id
+    || (c.id !== DEFAULT_COLLECTION_ID && normalizeName(c.name) === normalizeName(guest.name)));
+};
+
+export const guestMigrationService = {
+  getGuestSummary: (): GuestDataSummary => {
+    const collections = watchlistService.getCollections();
+    return {
+      titles: collections.reduce((sum, c) => sum + c.items.length, 0),
+      lists: collections.filter(c => c.id !== DEFAULT_COLLECTION_ID).length,
+      searches: historyService.getHistory().length,
+    };
+  },
+
+  hasGuestData: (): boolean => {
+    const summary = guestMigrationService.getGuestSummary();
+    return summary.titles > 0 || summary.lists > 0 || summary.searches > 0;
+  },
+
+  // Not offered again to an account that said no
+  shouldOffer: (userId: string): boolean => {
+    return !localStorage.getItem(`${DECLINED_KEY}_${userId}`) && guestMigrationService.hasGuestData();
+  },
+
+  decline: (userId: string) => {
+    localStorage.setItem(`${DECLINED_KEY}_${userId}`, String(Date.now()));
+  },
+
+  // Merges the guest lists and history into the account, then empties the guest bucket
+  migrate: (userId: string): GuestMigrationResult => {
+    const result: GuestMigrationResult = { moved: 0, duplicates: 0, newLists: 0, searches: 0 };
+    try {
+      const merged = [...watchlistService.getCollections(userId)];
+      watchlistService.getCollections().forEach(guest => {
+        const idx = findTarget(merged, guest);
+        if (idx === -1) {
+          merged.push(guest);
+          result.newLists++;
+          result.moved += guest.items.length;
+          return;
+        }
+        const target = merged[idx];
+        const fresh = guest.items.filter(entry => !target.items.some(existing => isSameTitle(existing, entry)));
+        result.moved += fresh.length;
+        result.duplicates += guest.items.length - fresh.length;
+        if (fresh.length > 0) merged[idx] = { ...target, items: [...target.items, ...fresh], updatedAt: Date.now() };
+      });
+      watchlistService.replaceCollections(merged, userId);
+
+      const history = historyService.getHistory(userId);
+      const known = new Set(history.map(item => normalizeName(item.query)));
+      const searches = historyService.getHistory().filter(item => !known.has(normalizeName(item.query)));
+      if (searches.length > 0) {
+        historyService.replaceHistory([...history, ...searches], userId);
+        // History is capped, so count only the searches that made it in
+        const moved = new Set(searches.map(item => normalizeName(item.query)));
+        result.searches = historyService.getHistory(userId).filter(item => moved.has(normalizeName(item.query))).length;
+      }
+
+      watchlistService.clearWatchlist();
+      historyService.clearHistory();
+    } catch (e) {
+      console.error("Failed to move guest data", e);
+    }
+    return result;
+  },
+};
@@ -1,6 +1,8 @@
 import { HistoryItem } from '../types';
+import { storageEvents } from './storageEvents';
 
 const BASE_KEY = 'moviesgpt_history';
+export const MAX_HISTORY_ITEMS = 20;
 
 const getKey = (userId?: string) => userId ? `${BASE_KEY}_${userId}` : `${BASE_KEY}_guest`;
 
@@ -22,9 +24,10 @@ export const historyService = {
       
       // Remove duplicates (case insensitive) and limit to 20 items
       const filtered = history.filter(h => h.query.toLowerCase() !== query.trim().toLowerCase());
-      const updated = [newItem, ...filtered].slice(0, 20);
+      const updated = [newItem, ...filtered].slice(0, MAX_HISTORY_ITEMS);
       
       localStorage.setItem(key, JSON.stringify(updated));
+      storageEvents.emit('history', userId);
     } catch (e) {
       console.error("Failed to add to history", e);
     }
@@ -33,8 +36,20 @@ export const historyService = {
   clearHistory: (userId?: string) => {
     try {
       localStorage.removeItem(getKey(userId));
+      storageEvents.emit('history', userId);
     } catch (e) {
       console.error("Failed to clear history", e);
     }
+  },
+
+  // Overwrites the whole list; used when applying synced data
+  replaceHistory: (items: HistoryItem[], userId?: string) => {
+    try {
+      const sorted = [...items].sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_HISTORY_ITEMS);
+      localStorage.setItem(getKey(userId), JSON.stringify(sorted));
+      storageEvents.emit('history', userId);
+    } catch (e) {
+      console.error("Failed to replace history", e);
+    }
   }
 };
\ No newline at end of file
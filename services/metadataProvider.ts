@@ -0,0 +1,24 @@
+import { Movie, TitleMetadata } from "../types";
+
+// A catalog that can resolve a recommended title (TMDB, OMDb, local fixtures...)
+export interface MetadataProvider {
+  readonly name: string;
+  // Resolves to null when the catalog has no confident match
+  lookup(movie: Movie): Promise<TitleMetadata | null>;
+}
+
+// Case, Latin accents and punctuation are ignored; letters of every script are kept, along with
+// the vowel signs Indic scripts need (\p{M}), and recomposed so Hangul doesn't end up as loose jamo
+export const normalizeTitle = (title: string) =>
+  title.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim().normalize('NFC');
+
+// Model output uses ranges like "2008–2013" for shows; catalogs want the first year
+export const releaseYear = (year: string) => year.match(/\d{4}/)?.[0] || '';
+
+// Release dates differ by a year between regions and catalogs
+export const isSameTitle = (movie: Movie, title: string, year: string) => {
+  if (normalizeTitle(movie.title) !== normalizeTitle(title)) return false;
+  const wanted = Number(releaseYear(movie.year));
+  const found = Number(releaseYear(year));
+  return !wanted || !found || Math.abs(wanted - found) <= 1;
+};
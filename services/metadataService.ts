@@ -0,0 +1,165 @@
+import { Movie, TitleMetadata } from "../types";
+import { MetadataProvider, normalizeTitle, releaseYear } from "./metadataProvider";
+import { TmdbMetadataProvider } from "./tmdbMetadataProvider";
+import { FixtureMetadataProvider } from "./fixtureMetadataProvider";
+
+export type { MetadataProvider } from "./metadataProvider";
+
+export type MetadataProviderKind = 'tmdb' | 'mock';
+
+export interface MetadataConfig {
+  provider: MetadataProviderKind;
+  apiKey?: string;
+}
+
+const CACHE_KEY = 'moviesgpt_metadata_cache';
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Misses are retried sooner; the catalog may simply not have caught up yet
+const MISS_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 300;
+
+interface CacheEntry {
+  metadata: TitleMetadata | null;
+  fetchedAt: number;
+}
+
+// Values are injected at build time by vite.config.ts
+export const getMetadataConfig = (): MetadataConfig => {
+  const apiKey = process.env.TMDB_API_KEY || undefined;
+  const provider = (process.env.METADATA_PROVIDER || '').toLowerCase();
+  // TMDB needs a key; without one the bundled catalog keeps cards usable offline
+  return { provider: provider === 'mock' || !apiKey ? 'mock' : 'tmdb', apiKey };
+};
+
+export const createMetadataProvider = (config: MetadataConfig = getMetadataConfig()): MetadataProvider => {
+  if (config.provider === 'tmdb' && config.apiKey) {
+    return new TmdbMetadataProvider(config.apiKey);
+  }
+  return new FixtureMetadataProvider();
+};
+
+const readCache = (): Record<string, CacheEntry> => {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to parse metadata cache", e);
+    return {};
+  }
+};
+
+// Keeps only the most recently fetched entries
+const writeCache = (cache: Record<string, CacheEntry>) => {
+  try {
+    const entries = Object.entries(cache)
+      .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+      .slice(0, MAX_CACHE_ENTRIES);
+    localStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (e) {
+    console.error("Failed to save metadata cache", e);
+  }
+};
+
+const isFresh = (entry: CacheEntry) =>
+  Date.now() - entry.fetchedAt < (entry.metadata ? CACHE_TTL_MS : MISS_TTL_MS);
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Greedy word wrap for the placeholder title; overflow is cut with an ellipsis
+const wrapTitle = (title: string, lineLength = 16, maxLines = 4): string[] => {
+  const lines: string[] = [];
+  title.split(/\s+/).forEach(word => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && (last + ' ' + word).length <= lineLength) lines[lines.length - 1] = `${last} ${word}`;
+    else lines.push(word);
+  });
+  if (lines.length <= maxLines) return lines;
+  return [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}…`];
+};
+
+// Stable string hash so a title always gets the same placeholder colours
+const hash = (text: string) => text.split('').reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+class MetadataService {
+  private provider: MetadataProvider;
+  private cache: Record<string, CacheEntry> | null = null;
+  // Cards for the same title mount together; they share one request
+  private pending = new Map<string, Promise<TitleMetadata | null>>();
+
+  constructor(provider: MetadataProvider) {
+    this.provider = provider;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  private cacheKey(movie: Movie): string {
+    return `${this.provider.name}:${movie.type || 'movie'}:${normalizeTitle(movie.title)}|${releaseYear(movie.year)}`;
+  }
+
+  private getCache(): Record<string, CacheEntry> {
+    if (!this.cache) this.cache = readCache();
+    return this.cache;
+  }
+
+  // Cached result without a lookup, so cards can render artwork on first paint
+  peek(movie: Movie): TitleMetadata | null | undefined {
+    const entry = this.getCache()[this.cacheKey(movie)];
+    return entry && isFresh(entry) ? entry.metadata : undefined;
+  }
+
+  // Rejects when the provider fails; failures aren't cached, so the next call retries
+  lookup(movie: Movie): Promise<TitleMetadata | null> {
+    const cached = this.peek(movie);
+    if (cached !== undefined) return Promise.resolve(cached);
+
+    const key = this.cacheKey(movie);
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const request = this.provider.lookup(movie)
+      .then(metadata => {
+        const cache = this.getCache();
+        cache[key] = { metadata, fetchedAt: Date.now() };
+        writeCache(cache);
+        return metadata;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  // Never rejects: a failed lookup resolves to null and the UI falls back to the placeholder
+  getMetadata(movie: Movie): Promise<TitleMetadata | null> {
+    return this.lookup(movie).catch(error => {
+      console.error(`Metadata lookup failed for ${movie.title}`, error);
+      return null;
+    });
+  }
+
+  clearCache() {
+    this.cache = {};
+    localStorage.removeItem(CACHE_KEY);
+  }
+
+  // Generated poster: a gradient with the title, as an inline SVG data URL
+  getPlaceholderPoster(movie: Movie): string {
+    const hue = hash(movie.title) % 360;
+    const lines = wrapTitle(movie.title);
+    const startY = 300 - (lines.length - 1) * 24;
+    const text = lines
+      .map((line, idx) => `<text x="200" y="${startY + idx * 48}" text-anchor="middle" font-family="sans-serif" font-size="36" font-weight="700" fill="#ffffff" fill-opacity="0.85">${escapeXml(line)}</text>`)
+      .join('');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="600" viewBox="0 0 400 600">`
+      + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+      + `<stop offset="0" stop-color="hsl(${hue},45%,28%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},50%,10%)"/>`
+      + `</linearGradient></defs><rect width="400" height="600" fill="url(#g)"/>${text}`
+      + `<text x="200" y="560" text-anchor="middle" font-family="sans-serif" font-size="22" fill="#ffffff" fill-opacity="0.5">${escapeXml(movie.year)}</text></svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+}
+
+export const metadataService = new MetadataService(createMetadataProvider());
@@ -0,0 +1,247 @@
+/// <reference types="vite/client" />
+import { RecommendationResponse, Language, Movie, ChatTurn, SimilarityRequest, MoreResultsRequest } from "../types";
+import { RecommendationProvider, StreamHandlers, StreamHandle, isExcludedFromSimilar, isExcludedFromMore } from "./recommendationProvider";
+import { matchesResultFilters } from "./resultFilters";
+
+export type FixtureKind = 'message' | 'coldStart' | 'synopsis' | 'similar';
+
+// One recorded (or hand-written) exchange, stored as a JSON file under /fixtures
+export interface RecommendationFixture {
+  id: string;
+  kind: FixtureKind;
+  language: Language;
+  query: string;
+  keywords?: string[];
+  response: RecommendationResponse | string;
+  provider?: string;
+  recordedAt?: number;
+}
+
+// Simulated network latency so loading states behave like the real thing
+const MOCK_DELAY_MS = 400;
+const STREAM_CHUNK_DELAY_MS = 40;
+const SIMILAR_RESULTS = 6;
+const PAGE_SIZE = 6;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'some', 'that', 'this', 'are', 'you', 'can', 'like', 'want',
+  'show', 'shows', 'movie', 'movies', 'film', 'films', 'series', 'recommend', 'suggest', 'give', 'please', 'good', 'best'
+]);
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const tokenize = (text: string): string[] =>
+  normalize(text).split(/[^a-z0-9-]+/).filter(word => word.length > 2 && !STOPWORDS.has(word));
+
+// Stable string hash for picking a fallback fixture deterministically
+const hash = (text: string) => text.split('').reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
+
+// Bundled fixtures plus anything captured in record mode (fixtures/recorded).
+// Recorded exchanges come first so they win over the hand-written catalog.
+// fixtures/metadata belongs to the metadata provider.
+const loadBundledFixtures = (): RecommendationFixture[] => {
+  const modules = import.meta.glob<RecommendationFixture>(['../fixtures/**/*.json', '!../fixtures/metadata/**', '!../fixtures/availability/**'], { eager: true, import: 'default' });
+  const isRecorded = (path: string) => path.includes('/recorded/') ? 0 : 1;
+  return Object.keys(modules)
+    .sort((a, b) => isRecorded(a) - isRecorded(b) || a.localeCompare(b))
+    .map(path => modules[path]);
+};
+
+// Answers every request from fixtures, so the app runs without an API key or network.
+// Given the same fixtures and input, the output is always the same.
+export class MockProvider implements RecommendationProvider {
+  readonly name = 'Mock';
+  private fixtures: RecommendationFixture[];
+  private history: ChatTurn[] = [];
+
+  constructor(fixtures: RecommendationFixture[] = loadBundledFixtures()) {
+    this.fixtures = fixtures;
+  }
+
+  private responses(kind: FixtureKind): RecommendationFixture[] {
+    return this.fixtures.filter(f => f.kind === kind && typeof f.response !== 'string');
+  }
+
+  private findMessageFixture(message: string, language: Language): RecommendationFixture | undefined {
+    const candidates = this.responses('message');
+    if (candidates.length === 0) return undefined;
+
+    // 1. Exact recorded query, preferring the requested language
+    const query = normalize(message);
+    const exact = candidates.filter(f => normalize(f.query) === query);
+    if (exact.length > 0) {
+      return exact.find(f => f.language === language) || exact[0];
+    }
+
+    // 2. Best keyword overlap
+    const words = new Set(tokenize(message));
+    let best: RecommendationFixture | undefined;
+    let bestScore = 0;
+    candidates.forEach(fixture => {
+      const vocabulary = new Set([...(fixture.keywords || []).map(normalize), ...tokenize(fixture.query)]);
+      let score = 0;
+      words.forEach(word => { if (vocabulary.has(word)) score++; });
+      if (fixture.language === language) score += 0.5 * Math.sign(score);
+      if (score > bestScore) {
+        best = fixture;
+        bestScore = score;
+      }
+    });
+    if (best) return best;
+
+    // 3. Anything, but always the same thing for the same message
+    return candidates[hash(query) % candidates.length];
+  }
+
+  private clone(response: RecommendationResponse): RecommendationResponse {
+    return JSON.parse(JSON.stringify(response));
+  }
+
+  private emptyResponse(): RecommendationResponse {
+    return {
+      summary: "Offline demo mode: no recorded answer matches that request yet. Try asking about horror, family, sci-fi or Indian titles.",
+      recommendations: [],
+    };
+  }
+
+  private answer(message: string, language: Language): RecommendationResponse {
+    const fixture = this.findMessageFixture(message, language);
+    return fixture ? this.clone(fixture.response as RecommendationResponse) : this.emptyResponse();
+  }
+
+  private remember(message: string, response: RecommendationResponse) {
+    this.history.push({ role: 'user', text: message }, { role: 'model', text: JSON.stringify(response) });
+  }
+
+  async sendMessage(message: string, language: Language = 'English'): Promise<RecommendationResponse> {
+    await delay(MOCK_DELAY_MS);
+    const response = this.answer(message, language);
+    this.remember(message, response);
+    return response;
+  }
+
+  sendMessageStream(message: string, language: Language = 'English', handlers: StreamHandlers = {}): StreamHandle {
+    let cancelled = false;
+    let summary = '';
+    const streamed: Movie[] = [];
+
+    const run = async (): Promise<RecommendationResponse> => {
+      await delay(MOCK_DELAY_MS);
+      const response = this.answer(message, language);
+
+      // Replay the summary word by word, then the cards one at a time
+      const words = response.summary.split(/(\s+)/);
+      for (const word of words) {
+        if (cancelled) break;
+        summary += word;
+        handlers.onSummary?.(summary);
+        await delay(STREAM_CHUNK_DELAY_MS);
+      }
+      for (const movie of response.recommendations) {
+        if (cancelled) break;
+        streamed.push(movie);
+        handlers.onRecommendation?.(movie, streamed.length - 1);
+        await delay(STREAM_CHUNK_DELAY_MS * 5);
+      }
+
+      if (cancelled) return { summary, recommendations: [...streamed] };
+      this.remember(message, response);
+      return response;
+    };
+
+    return {
+      response: run(),
+      cancel: () => { cancelled = true; },
+    };
+  }
+
+  async getColdStart(language: Language = 'English'): Promise<RecommendationResponse> {
+    await delay(MOCK_DELAY_MS);
+    const candidates = this.responses('coldStart');
+    const fixture = candidates.find(f => f.language === language) || candidates[0];
+    return fixture ? this.clone(fixture.response as RecommendationResponse) : this.emptyResponse();
+  }
+
+  async getMovieSynopsis(title: string, year: string, language: Language = 'English'): Promise<string> {
+    const key = normalize(title);
+
+    const recorded = this.fixtures.filter(f => f.kind === 'synopsis' && normalize(f.query) === normalize(`${title} (${year})`));
+    const synopsis = recorded.find(f => f.language === language) || recorded[0];
+    if (synopsis) return synopsis.response as string;
+
+    // Fall back to the synopsis of the same title in any recorded response
+    for (const fixture of this.fixtures) {
+      if (typeof fixture.response === 'string') continue;
+      const match = fixture.response.recommendations.find(m => normalize(m.title) === key && m.synopsis);
+      if (match?.synopsis) return match.synopsis;
+    }
+
+    return "Synopsis unavailable.";
+  }
+
+  // A recorded answer for the title, otherwise the closest titles across all fixtures
+  async getSimilarTitles(request: SimilarityRequest, language: Language = 'English'): Promise<RecommendationResponse> {
+    await delay(MOCK_DELAY_MS);
+    const recorded = this.responses('similar').filter(f => normalize(f.query) === normalize(`${request.title} (${request.year})`));
+    const fixture = recorded.find(f => f.language === language) || recorded[0];
+    if (fixture) {
+      const response = this.clone(fixture.response as RecommendationResponse);
+      return { ...response, recommendations: response.recommendations.filter(movie => !isExcludedFromSimilar(movie, request)) };
+    }
+
+    const genres = new Set(request.genres.map(normalize));
+    const tone = new Set(tokenize(request.emotionalTone || ''));
+    const score = (movie: Movie) =>
+      movie.genres.filter(genre => genres.has(normalize(genre))).length * 2 +
+      (request.director && movie.director === request.director ? 3 : 0) +
+      (request.industry && movie.industry === request.industry ? 1 : 0) +
+      (request.type && movie.type === request.type ? 1 : 0) +
+      tokenize(movie.emotionalTone || '').filter(word => tone.has(word)).length;
+
+    const ranked = this.allTitles()
+      .filter(movie => !isExcludedFromSimilar(movie, request))
+      .map(movie => ({ movie, score: score(movie) }))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    if (ranked.length === 0) return this.emptyResponse();
+    return this.clone({
+      summary: `Offline demo mode: titles from the recorded answers that share the most with "${request.title}".`,
+      recommendations: ranked.slice(0, SIMILAR_RESULTS).map(entry => entry.movie),
+    });
+  }
+
+  // The next unseen titles from all fixtures that pass the filters; the query is not matched
+  async getMoreResults(request: MoreResultsRequest): Promise<RecommendationResponse> {
+    await delay(MOCK_DELAY_MS);
+    const matches = this.allTitles().filter(movie => !isExcludedFromMore(movie, request) && matchesResultFilters(movie, request.filters));
+    if (matches.length === 0) return this.emptyResponse();
+    return this.clone({
+      summary: 'Offline demo mode: more titles from the recorded answers.',
+      recommendations: matches.slice(0, request.count || PAGE_SIZE),
+    });
+  }
+
+  // Every recommendation in the fixtures, once each
+  private allTitles(): Movie[] {
+    const seen = new Set<string>();
+    return this.responses('message').concat(this.responses('coldStart'))
+      .flatMap(f => (f.response as RecommendationResponse).recommendations)
+      .filter(movie => {
+        const key = normalize(movie.title);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  getHistory(): ChatTurn[] {
+    return [...this.history];
+  }
+
+  restoreHistory(history: ChatTurn[]) {
+    this.history = [...history];
+  }
+}
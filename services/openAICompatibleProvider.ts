@@ -0,0 +1,140 @@
+import { ChatTurn } from "../types";
+import { BaseRecommendationProvider, ProviderReply } from "./recommendationProvider";
+import { SYSTEM_INSTRUCTION } from "./prompts";
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface OpenAICompatibleConfig {
+  // e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// Talks to any server implementing the OpenAI /chat/completions API.
+// Conversation state is kept client-side since these servers are stateless.
+export class OpenAICompatibleProvider extends BaseRecommendationProvider {
+  readonly name = 'OpenAI-compatible';
+  private history: OpenAIMessage[] = [];
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super();
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+  }
+
+  private async request(body: Record<string, unknown>): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.config.model, ...body }),
+    });
+
+    if (!response.ok) {
+      // Expose the status so withRetry can recognise 429/503
+      throw Object.assign(new Error(`Request failed with status ${response.status}: ${await response.text()}`), { status: response.status });
+    }
+
+    return response;
+  }
+
+  private chatRequest(messages: OpenAIMessage[], stream: boolean): Promise<Response> {
+    const system: OpenAIMessage = { role: 'system', content: SYSTEM_INSTRUCTION };
+    return this.request({ messages: [system, ...messages], stream, response_format: { type: 'json_object' } });
+  }
+
+  getHistory(): ChatTurn[] {
+    return this.history.map(message => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      text: message.content,
+    }));
+  }
+
+  restoreHistory(history: ChatTurn[]) {
+    this.history = history.map(turn => ({
+      role: turn.role === 'model' ? 'assistant' : 'user',
+      content: turn.text,
+    }));
+  }
+
+  protected async sendChatMessage(prompt: string): Promise<ProviderReply> {
+    const userTurn: OpenAIMessage = { role: 'user', content: prompt };
+    const response = await this.chatRequest([...this.history, userTurn], false);
+    const data = await response.json();
+    const text: string = data.choices?.[0]?.message?.content || '';
+
+    // Only commit the turn once the exchange succeeded
+    this.history.push(userTurn, { role: 'assistant', content: text });
+    return { text, sources: [] };
+  }
+
+  protected async streamChatMessage(prompt: string): Promise<AsyncGenerator<ProviderReply>> {
+    const userTurn: OpenAIMessage = { role: 'user', content: prompt };
+    const response = await this.chatRequest([...this.history, userTurn], true);
+    const history = this.history;
+
+    if (!response.body) {
+      throw new Error("Streaming not supported by this server.");
+    }
+    const reader = response.body.getReader();
+
+    return (async function* () {
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let fullText = '';
+      let finished = false;
+
+      try {
+        while (!finished) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          // Server-sent events: one "data: {...}" payload per line
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            const payload = line.trim();
+            if (!payload.startsWith('data:')) continue;
+            const data = payload.slice(5).trim();
+            if (data === '[DONE]') {
+              finished = true;
+              break;
+            }
+            const delta: string = JSON.parse(data).choices?.[0]?.delta?.content || '';
+            if (delta) {
+              fullText += delta;
+              yield { text: delta, sources: [] };
+            }
+          }
+        }
+
+        history.push(userTurn, { role: 'assistant', content: fullText });
+      } finally {
+        reader.cancel().catch(() => {});
+      }
+    })();
+  }
+
+  protected async generateRecommendations(prompt: string): Promise<ProviderReply> {
+    const response = await this.chatRequest([{ role: 'user', content: prompt }], false);
+    const data = await response.json();
+    return { text: data.choices?.[0]?.message?.content || '', sources: [] };
+  }
+
+  protected async generateText(prompt: string): Promise<string> {
+    // Plain-text completion, so no JSON response_format here
+    const response = await this.request({ messages: [{ role: 'user', content: prompt }] });
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+}
@@ -0,0 +1,259 @@
+import { Language, MoreResultsRequest, RequestConstraints, SimilarityRequest, StreamingPreferences, TasteProfile, TitleFeedback, TitleRef } from "../types";
+import { STREAMING_COUNTRIES, STREAMING_SERVICES } from "../constants";
+import { formatIssues, ValidationIssue } from "./responseValidator";
+import { topAffinities } from "./tasteProfileService";
+
+// Per-request context compiled into the prompt alongside the user's query
+export interface PromptContext {
+  tasteProfile?: TasteProfile;
+  // Card feedback given since the previous turn
+  feedback?: TitleFeedback[];
+  // Seen or disliked titles that will be filtered out client-side anyway
+  excludeTitles?: TitleRef[];
+  // Where the user watches: country and subscribed services
+  streaming?: StreamingPreferences;
+  // Built in the preference builder; hard limits are checked on the returned titles
+  constraints?: RequestConstraints;
+  // Recommended in earlier turns of this conversation
+  seenTitles?: TitleRef[];
+}
+
+const RUNTIME_LABELS: Record<TasteProfile['preferredRuntime'], string> = {
+  any: '',
+  short: 'short (under 1h 45m, or episodes under 30m)',
+  medium: 'medium (1h 45m to 2h 30m)',
+  long: 'long (epics over 2h 30m, or long-running series are fine)',
+};
+
+// The strict system prompt defining the persona and rules
+export const SYSTEM_INSTRUCTION = `
+Role & Product Identity
+You are MoviesGPT, a production-grade AI Recommendation Engine for **Movies, TV Series, and Web Shows** with a truly global perspective.
+Your purpose is to deliver highly personalized, explainable, and context-aware recommendations that feel intelligent, trustworthy, and premium.
+You are not a chatbot. You operate as a real consumer product.
+
+Core Capabilities:
+1. **Global Content Expert**: You possess deep knowledge of ALL major entertainment industries:
+   - **Movies**: Hollywood, Bollywood, Tollywood, World Cinema.
+   - **TV & Web Series**: Top streaming shows (Netflix, HBO, Prime, Disney+), K-Dramas, Anime Series, British TV, Indian Web Series.
+   - Treat all content types with equal respect.
+2. Infer user preferences (genres, actors, mood, specific industry, language, format).
+3. Use hybrid recommendation strategy (Content-Based + Collaborative + Contextual).
+4. **Real-time Data**: You MUST use the provided Google Search tool to verify details:
+   - Latest IMDb ratings.
+   - Correct release years (for TV, use start year or range e.g., "2011–2019").
+   - **Status**: Check if a show is Ongoing, Ended, or Canceled.
+   - **Trailers**: Attempt to find a valid YouTube trailer URL.
+
+Output Format (Strict)
+You MUST always respond with a valid raw JSON string.
+Do NOT use Markdown formatting (no \`\`\`json blocks).
+Do NOT include any conversational text outside the JSON object.
+
+The JSON must strictly follow this structure:
+{
+  "summary": "A natural language summary of the recommendations or a response to the user's query.",
+  "clarifyingQuestions": ["Up to 3 smart clarifying questions if needed"],
+  "quickReplies": [
+    { "label": "Short chip text (2-4 words)", "message": "The full reply the user would send", "questionIndex": 0 }
+  ],
+  "recommendations": [
+    {
+      "title": "Title",
+      "year": "YYYY" or "YYYY-YYYY",
+      "genres": ["Genre1", "Genre2"],
+      "runtime": "e.g. '2h 15m' OR '45m/ep'",
+      "rating": "IMDb: X.X/10",
+      "emotionalTone": "e.g. Gritty, Hopeful",
+      "reason": "Why recommended...",
+      "synopsis": "A captivating 1-2 sentence plot summary.",
+      "bestSuitedFor": "Mood/Situation",
+      "trailerUrl": "https://www.youtube.com/watch?v=...",
+      "language": "Primary Language",
+      "industry": "e.g. Hollywood, Bollywood, K-Drama, Anime",
+      "director": "Creator/Director Name",
+      "specialFeature": "Unique selling point",
+      "type": "movie" OR "tv",
+      "totalSeasons": "e.g. '4 Seasons' or 'Limited Series' (Only for TV)",
+      "contentRating": "Age rating, e.g. 'PG-13', 'TV-MA', 'UA'"
+    }
+  ]
+}
+
+Explainability Rule:
+Every recommendation must include a clear, specific explanation referencing inferred preferences.
+
+Quick Replies Rule:
+Offer up to 6 "quickReplies" that narrow the search in one tap. Give 2-3 likely answers for each clarifying question, with "questionIndex" pointing at that question (0-based). Replies that are general follow-ups (e.g. "Something shorter") omit "questionIndex".
+
+Safety:
+No spoilers. No fake titles.
+
+If the user input is a greeting or general chatter, provide a polite "summary" in the JSON and empty recommendations.
+`;
+
+const formatTitles = (titles: TitleRef[], limit = 15) => titles.slice(0, limit).map(t => `${t.title} (${t.year})`).join(', ');
+
+// Long-term preferences remembered across sessions
+export const buildTasteProfilePrompt = (profile: TasteProfile): string => {
+  const lines: string[] = [];
+  const inferredGenres = topAffinities(profile.affinity.genres).filter(g => !profile.favoriteGenres.includes(g));
+  const inferredIndustries = topAffinities(profile.affinity.industries, 2).filter(i => !profile.favoriteIndustries.includes(i));
+
+  if (profile.likedTitles.length > 0) lines.push(`- Liked: ${formatTitles(profile.likedTitles)}`);
+  if (profile.dislikedTitles.length > 0) lines.push(`- Disliked (do not recommend, avoid similar): ${formatTitles(profile.dislikedTitles)}`);
+  if (profile.favoriteGenres.length > 0) lines.push(`- Favourite genres: ${profile.favoriteGenres.join(', ')}`);
+  if (inferredGenres.length > 0) lines.push(`- Often engages with: ${inferredGenres.join(', ')}`);
+  if (profile.favoriteIndustries.length > 0) lines.push(`- Favourite industries: ${profile.favoriteIndustries.join(', ')}`);
+  if (inferredIndustries.length > 0) lines.push(`- Often watches: ${inferredIndustries.join(', ')}`);
+  if (profile.favoriteLanguages.length > 0) lines.push(`- Preferred languages: ${profile.favoriteLanguages.join(', ')}`);
+  if (RUNTIME_LABELS[profile.preferredRuntime]) lines.push(`- Preferred runtime: ${RUNTIME_LABELS[profile.preferredRuntime]}`);
+  if (profile.avoid.length > 0) lines.push(`- Avoid content with: ${profile.avoid.join(', ')}`);
+
+  if (lines.length === 0) return '';
+  return `
+      USER TASTE PROFILE (remembered from earlier sessions; use it to personalise, but the current query takes priority):
+      ${lines.join('\n      ')}
+      `;
+};
+
+const VERDICT_LABELS: Record<TitleFeedback['verdict'], string> = {
+  like: 'liked',
+  dislike: 'disliked',
+  seen: 'has already seen',
+};
+
+// Reactions to the previous picks, so the next answer can adjust course
+export const buildFeedbackPrompt = (feedback: TitleFeedback[] = [], excludeTitles: TitleRef[] = []): string => {
+  if (feedback.length === 0 && excludeTitles.length === 0) return '';
+  const lines = feedback.map(f =>
+    `- User ${VERDICT_LABELS[f.verdict]} "${f.title}" (${f.year})${f.reason ? ` because: ${f.reason}` : ''}`
+  );
+  if (excludeTitles.length > 0) {
+    lines.push(`- Never recommend these titles: ${formatTitles(excludeTitles, 40)}`);
+  }
+  return `
+      FEEDBACK ON EARLIER RECOMMENDATIONS:
+      ${lines.join('\n      ')}
+      `;
+};
+
+// Keeps later turns from bringing back the same titles
+export const buildSeenPrompt = (seenTitles: TitleRef[] = []): string => {
+  if (seenTitles.length === 0) return '';
+  return `
+      ALREADY RECOMMENDED IN THIS CONVERSATION:
+      ${formatTitles(seenTitles, 60)}
+      Do not recommend these again unless the user asks about one of them by name.
+      `;
+};
+
+// Country and services, so picks lean towards what the user can actually watch
+export const buildStreamingPrompt = (streaming?: StreamingPreferences): string => {
+  if (!streaming) return '';
+  const country = STREAMING_COUNTRIES.find(c => c.code === streaming.country)?.name || streaming.country;
+  const services = streaming.services.map(id => STREAMING_SERVICES.find(s => s.id === id)?.name || id);
+  return `
+      WHERE THE USER WATCHES:
+      - Country: ${country}
+      ${services.length > 0
+        ? `- Subscribed to: ${services.join(', ')}. Prefer titles included with these services in ${country}; other great picks are fine if the reason says where to find them.`
+        : `- No subscriptions given; prefer titles that are easy to find in ${country}.`}
+      `;
+};
+
+// -2..2 slider positions, light/slow first
+const MOOD_SCALE = {
+  tone: ['very light and feel-good', 'on the lighter side', '', 'on the darker side', 'dark and heavy'],
+  pace: ['slow and patient', 'unhurried', '', 'brisk', 'fast and intense'],
+};
+
+// The preference builder's request: hard limits the titles must meet, then softer leanings
+export const buildConstraintPrompt = (c?: RequestConstraints): string => {
+  if (!c) return '';
+  const hard: string[] = [];
+  if (c.type) hard.push(`- ${c.type === 'tv' ? 'TV series only' : 'Movies only'}`);
+  if (c.minRuntime !== undefined || c.maxRuntime !== undefined) {
+    const range = c.minRuntime !== undefined && c.maxRuntime !== undefined
+      ? `between ${c.minRuntime} and ${c.maxRuntime} minutes`
+      : c.minRuntime !== undefined ? `at least ${c.minRuntime} minutes` : `at most ${c.maxRuntime} minutes`;
+    hard.push(`- Movie runtime ${range}`);
+  }
+  if (c.maxSeasons !== undefined) hard.push(`- Series with at most ${c.maxSeasons} season${c.maxSeasons === 1 ? '' : 's'}`);
+  if (c.languages.length > 0) hard.push(`- Original language: ${c.languages.join(' or ')}`);
+  if (c.industries.length > 0) hard.push(`- Industry: ${c.industries.join(' or ')}`);
+  if (c.fromYear !== undefined || c.toYear !== undefined) {
+    hard.push(`- Released ${c.fromYear !== undefined && c.toYear !== undefined ? `between ${c.fromYear} and ${c.toYear}` : c.fromYear !== undefined ? `in ${c.fromYear} or later` : `in ${c.toYear} or earlier`}`);
+  }
+  if (c.maxContentRating) hard.push(`- Age rating no higher than ${c.maxContentRating} (or the local equivalent); give each title's "contentRating"`);
+
+  const soft: string[] = [];
+  const tone = MOOD_SCALE.tone[c.tone + 2];
+  const pace = MOOD_SCALE.pace[c.pace + 2];
+  if (tone) soft.push(`- Mood: ${tone}`);
+  if (pace) soft.push(`- Pace: ${pace}`);
+  if (c.similarTo.length > 0) soft.push(`- In the spirit of: ${formatTitles(c.similarTo)} (do not recommend these titles themselves)`);
+
+  if (hard.length === 0 && soft.length === 0) return '';
+  return `
+      REQUEST CONSTRAINTS (from the user's preference builder):
+      ${hard.length > 0 ? `Every recommendation MUST meet all of these:\n      ${hard.join('\n      ')}` : ''}
+      ${soft.length > 0 ? `Lean towards:\n      ${soft.join('\n      ')}` : ''}
+      `;
+};
+
+// Enforce output language while maintaining JSON structure
+export const buildLanguagePrompt = (message: string, language: Language, context: PromptContext = {}): string => `
+      IMPORTANT INSTRUCTION:
+      You must respond in ${language} language. 
+      Translate the "summary", "reason", "emotionalTone", "bestSuitedFor", "synopsis", "specialFeature", "clarifyingQuestions", and quickReplies "label"/"message" values into ${language}.
+      Keep the JSON keys (like "title", "year", "genres", "rating", "director", "industry", "type", "totalSeasons", "contentRating") in English. 
+      ${context.tasteProfile ? buildTasteProfilePrompt(context.tasteProfile) : ''}
+      ${buildFeedbackPrompt(context.feedback, context.excludeTitles)}
+      ${buildSeenPrompt(context.seenTitles)}
+      ${buildStreamingPrompt(context.streaming)}
+      ${buildConstraintPrompt(context.constraints)}
+      User Query: ${message}`;
+
+export const buildRepairPrompt = (issues: ValidationIssue[], language: Language): string => `
+      Your previous reply did not match the required JSON structure. Problems found:
+      ${formatIssues(issues)}
+
+      Resend the COMPLETE corrected answer as a single raw JSON object that follows the structure from your instructions.
+      Keep the same recommendations where possible, fix or remove only the broken ones, and keep translated values in ${language}.`;
+
+export const COLD_START_PROMPT = "Start a new session. Provide a diverse set of 6 high-quality starter recommendations. Include a mix of Movies and **TV Series/Web Shows**. Include Hollywood, Indian content, and International hits. Fetch real IMDb ratings and trailer URLs.";
+
+export const buildSynopsisPrompt = (title: string, year: string, language: Language): string =>
+  `Write a captivating, 1-2 sentence synopsis for "${title}" (${year}) in ${language} language. Return ONLY the synopsis text.`;
+
+export const buildSimilarityPrompt = (request: SimilarityRequest): string => {
+  const traits = [
+    request.genres.length ? `- Genres: ${request.genres.join(', ')}` : '',
+    request.emotionalTone ? `- Tone: ${request.emotionalTone}` : '',
+    request.director ? `- Director/creator: ${request.director} (other work by them is welcome, but not required)` : '',
+    request.industry ? `- Industry: ${request.industry}${request.language ? `, ${request.language} language` : ''}` : '',
+  ].filter(Boolean);
+  const exclude = request.exclude.map(ref => `"${ref.title}" (${ref.year})`);
+  return `
+      Recommend ${request.type === 'tv' ? 'series' : 'titles'} similar to "${request.title}" (${request.year}).
+      Match what makes it distinctive:
+      ${traits.join('\n      ') || '- Its overall feel and themes'}
+      In each "reason", say what it shares with "${request.title}".
+      Do NOT recommend "${request.title}" itself${exclude.length ? ` or any of these titles already shown: ${exclude.join(', ')}` : ''}.`;
+};
+
+export const buildMoreResultsPrompt = (request: MoreResultsRequest): string => {
+  const { filters } = request;
+  const rules = [
+    filters.type ? `- ${filters.type === 'tv' ? 'TV series only' : 'Movies only'}` : '',
+    filters.genre ? `- Genre: ${filters.genre}` : '',
+    filters.decade ? `- Released ${filters.decade === 'older' ? 'before 1980' : `in the ${filters.decade}s`}` : '',
+    filters.industry ? `- Industry or language: ${filters.industry}` : '',
+    filters.streamableOnly ? '- Only titles free or included with the services listed under WHERE THE USER WATCHES' : '',
+  ].filter(Boolean);
+  return `
+      ${request.query ? `The user asked: "${request.query}". Recommend ${request.count || 6} more titles for that request.` : `Recommend ${request.count || 6} more titles for this user.`}
+      ${rules.length > 0 ? `Every title MUST match all of these filters:\n      ${rules.join('\n      ')}` : ''}
+      Do NOT repeat any of these titles already shown: ${formatTitles(request.exclude, request.exclude.length) || 'none'}.`;
+};
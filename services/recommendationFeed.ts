@@ -0,0 +1,41 @@
+import { Message, Movie, RecommendationResponse, TitleRef } from "../types";
+import { normalizeTitle, releaseYear } from "./metadataProvider";
+
+// Titles asked for per "load more"
+export const FEED_PAGE_SIZE = 6;
+
+// Same title across turns, regardless of casing, punctuation or "2019–2023" vs "2019"
+export const feedKey = (movie: TitleRef): string => `${normalizeTitle(movie.title)}|${releaseYear(movie.year)}`;
+
+// The structured answers in a conversation, oldest first
+export const modelReplies = (messages: Message[]): RecommendationResponse[] =>
+  messages
+    .filter(m => m.role === 'model')
+    .map(m => m.content)
+    .filter((content): content is RecommendationResponse => typeof content !== 'string');
+
+// Every title recommended in the conversation, oldest turn first; a repeat keeps its first place
+export const buildFeed = (messages: Message[]): Movie[] => {
+  const seen = new Set<string>();
+  return modelReplies(messages)
+    .flatMap(reply => reply.recommendations)
+    .filter(movie => {
+      const key = feedKey(movie);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const toTitleRefs = (movies: Movie[]): TitleRef[] => movies.map(({ title, year }) => ({ title, year }));
+
+// Drops titles already in the feed, and repeats within the page itself
+export const withoutSeen = (movies: Movie[], feed: Movie[]): Movie[] => {
+  const seen = new Set(feed.map(feedKey));
+  return movies.filter(movie => {
+    const key = feedKey(movie);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
@@ -0,0 +1,379 @@
+import { RecommendationResponse, Source, Language, Movie, ChatTurn, SimilarityRequest, TitleRef, MoreResultsRequest } from "../types";
+import { RecommendationStreamParser } from "./streamParser";
+import { validateMovie, validateRecommendationResponse, ValidationResult } from "./responseValidator";
+import { validationStatsService } from "./validationStatsService";
+import { buildLanguagePrompt, buildMoreResultsPrompt, buildRepairPrompt, buildSimilarityPrompt, buildSynopsisPrompt, COLD_START_PROMPT, PromptContext } from "./prompts";
+import { normalizeTitle, releaseYear } from "./metadataProvider";
+
+export type { PromptContext } from "./prompts";
+
+export interface StreamHandlers {
+  onSummary?: (summary: string) => void;
+  onRecommendation?: (movie: Movie, index: number) => void;
+}
+
+export interface StreamHandle {
+  response: Promise<RecommendationResponse>;
+  cancel: () => void;
+}
+
+// The operations the app needs from a recommendation backend
+export interface RecommendationProvider {
+  readonly name: string;
+  sendMessage(message: string, language?: Language, context?: PromptContext): Promise<RecommendationResponse>;
+  sendMessageStream(message: string, language?: Language, handlers?: StreamHandlers, context?: PromptContext): StreamHandle;
+  getColdStart(language?: Language, context?: PromptContext): Promise<RecommendationResponse>;
+  getMovieSynopsis(title: string, year: string, language?: Language): Promise<string>;
+  // Titles like a given one; a one-off request that leaves the conversation untouched
+  getSimilarTitles(request: SimilarityRequest, language?: Language, context?: PromptContext): Promise<RecommendationResponse>;
+  // Another page for the current results (e.g. ones matching the grid filters), also a one-off request
+  getMoreResults(request: MoreResultsRequest, language?: Language, context?: PromptContext): Promise<RecommendationResponse>;
+  // Conversation context, so a saved chat can be continued with full memory
+  getHistory(): ChatTurn[];
+  restoreHistory(history: ChatTurn[]): void;
+}
+
+// A single model reply (or streamed chunk) in provider-neutral form
+export interface ProviderReply {
+  text: string;
+  sources: Source[];
+}
+
+// What a "More like this" request should match, taken from the source title
+export const buildSimilarityRequest = (movie: Movie, exclude: TitleRef[] = []): SimilarityRequest => ({
+  title: movie.title,
+  year: movie.year,
+  type: movie.type,
+  genres: movie.genres,
+  emotionalTone: movie.emotionalTone || undefined,
+  director: movie.director,
+  industry: movie.industry,
+  language: movie.language,
+  exclude: exclude.filter(ref => !(ref.title === movie.title && ref.year === movie.year)),
+});
+
+// Same title and year, so a remake or another film of the same name still counts as new;
+// the title alone decides when either side has no year
+const isListed = (movie: Movie, refs: TitleRef[]) => {
+  const title = normalizeTitle(movie.title);
+  const year = releaseYear(movie.year);
+  return refs.some(ref => {
+    if (normalizeTitle(ref.title) !== title) return false;
+    const refYear = releaseYear(ref.year);
+    return !refYear || !year || refYear === year;
+  });
+};
+
+// The model occasionally repeats the source or an excluded title anyway
+export const isExcludedFromSimilar = (movie: Movie, request: SimilarityRequest) =>
+  isListed(movie, [request, ...request.exclude]);
+
+export const isExcludedFromMore = (movie: Movie, request: MoreResultsRequest) =>
+  isListed(movie, request.exclude);
+
+// Shared prompt, validation, repair, streaming and error handling.
+// Subclasses only implement the transport: a stateful chat plus one-off text generation.
+export abstract class BaseRecommendationProvider implements RecommendationProvider {
+  abstract readonly name: string;
+
+  // Send a turn in the ongoing conversation; the reply is appended to the chat history
+  protected abstract sendChatMessage(prompt: string): Promise<ProviderReply>;
+
+  // Streamed variant of sendChatMessage; yields text deltas and any sources seen so far
+  protected abstract streamChatMessage(prompt: string): Promise<AsyncGenerator<ProviderReply>>;
+
+  // Stateless single-shot completion, outside the conversation
+  protected abstract generateText(prompt: string): Promise<string>;
+
+  // Stateless request under the recommendation system prompt; the chat history is not read or written
+  protected abstract generateRecommendations(prompt: string): Promise<ProviderReply>;
+
+  abstract getHistory(): ChatTurn[];
+  abstract restoreHistory(history: ChatTurn[]): void;
+
+  // Utility to extract JSON from potentially Markdown-wrapped text
+  private extractJSON(text: string): string {
+    text = text.trim();
+    // Remove markdown code blocks
+    if (text.startsWith('```json')) {
+      text = text.replace(/^```json/, '').replace(/```$/, '');
+    } else if (text.startsWith('```')) {
+      text = text.replace(/^```/, '').replace(/```$/, '');
+    }
+    
+    // Find first '{' and last '}'
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    
+    if (start !== -1 && end !== -1 && end > start) {
+      return text.substring(start, end + 1);
+    }
+    
+    return text;
+  }
+
+  // Retry utility for transient errors
+  protected async withRetry<T>(operation: () => Promise<T>, retries = 2, delay = 1000): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      // SDK and HTTP errors carry the response status alongside the message
+      const status = error instanceof Error && 'status' in error ? error.status : undefined;
+      const isRetryable = status === 503 || status === 429 || (error instanceof Error && error.message.includes('fetch failed'));
+      
+      if (retries > 0 && isRetryable) {
+        console.warn(`Operation failed, retrying... (${retries} attempts left)`, error);
+        await new Promise(res => setTimeout(res, delay));
+        return this.withRetry(operation, retries - 1, delay * 2);
+      }
+      throw error;
+    }
+  }
+
+  private validateText(text: string): ValidationResult {
+    try {
+      return validateRecommendationResponse(JSON.parse(this.extractJSON(text)));
+    } catch (parseError: any) {
+      return {
+        response: { summary: '', recommendations: [] },
+        issues: [{ path: 'response', message: `Invalid JSON: ${parseError?.message}`, severity: 'error' }],
+        droppedCount: 0,
+        isValid: false,
+      };
+    }
+  }
+
+  // Validates the model output and, if it breaks the contract, runs one repair
+  // re-prompt with the validation errors before settling for what survived.
+  private async resolveResponse(
+    text: string,
+    language: Language,
+    repair: (prompt: string) => Promise<ProviderReply> = prompt => this.sendChatMessage(prompt)
+  ): Promise<RecommendationResponse> {
+    const first = this.validateText(text);
+    const issueSummary = (result: ValidationResult) => result.issues.map(issue => `${issue.path}: ${issue.message}`);
+
+    if (first.isValid) {
+      validationStatsService.record(first.issues.length > 0 ? 'coerced' : 'valid', {
+        droppedCount: first.droppedCount,
+        issues: issueSummary(first),
+      });
+      return first.response;
+    }
+
+    console.warn("Response failed validation, attempting repair", first.issues);
+    let repaired: ValidationResult | null = null;
+    try {
+      const reply = await this.withRetry(() => repair(buildRepairPrompt(first.issues, language)));
+      if (reply.text) repaired = this.validateText(reply.text);
+    } catch (repairError) {
+      console.warn("Repair request failed", repairError);
+    }
+
+    if (repaired?.isValid) {
+      validationStatsService.record('repaired', {
+        droppedCount: repaired.droppedCount,
+        repairAttempted: true,
+        issues: issueSummary(first),
+      });
+      return repaired.response;
+    }
+
+    // Settle for whichever attempt kept more usable content
+    const candidates = [first, repaired].filter((r): r is ValidationResult => !!r);
+    const best = candidates.reduce((a, b) => b.response.recommendations.length > a.response.recommendations.length ? b : a);
+
+    if (best.response.summary || best.response.recommendations.length > 0) {
+      validationStatsService.record('coerced', {
+        droppedCount: best.droppedCount,
+        repairAttempted: true,
+        issues: issueSummary(best),
+      });
+      return best.response;
+    }
+
+    validationStatsService.record('failed', { repairAttempted: true, issues: issueSummary(best) });
+    return this.getErrorResponse({ message: 'INVALID_FORMAT' }, language);
+  }
+
+  // Deduplicate sources based on URI
+  private dedupeSources(sources: Source[]): Source[] {
+    return Array.from(new Map(sources.map(item => [item.uri, item])).values());
+  }
+
+  // Detailed Error Handling based on language
+  protected getErrorResponse(error: any, language: Language): RecommendationResponse {
+    const errorMap: Record<string, Record<Language, string>> = {
+       default: {
+          English: "I'm having trouble connecting to the movie database. Please check your internet connection and try again.",
+          Hindi: "डेटाबेस से जुड़ने में समस्या आ रही है। कृपया अपना इंटरनेट कनेक्शन जांचें और पुनः प्रयास करें।",
+          Marathi: "डेटाबेसशी कनेक्ट करण्यात समस्या येत आहे. कृपया तुमचे इंटरनेट कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.",
+          Spanish: "Tengo problemas para conectarme a la base de datos. Por favor, verifica tu conexión a internet e inténtalo de nuevo.",
+          French: "Je rencontre des problèmes de connexion. Veuillez vérifier votre connexion internet et réessayer."
+       },
+       safety: {
+          English: "I cannot provide recommendations for that specific query due to safety guidelines. Please try a different topic.",
+          Hindi: "सुरक्षा दिशानिर्देशों के कारण मैं उस विषय पर सुझाव नहीं दे सकता। कृपया कोई अन्य विषय आज़माएं।",
+          Marathi: "सुरक्षा मार्गदर्शक तत्त्वांमुळे मी त्या विषयावर शिफारसी देऊ शकत नाही. कृपया वेगळा विषय वापरून पहा.",
+          Spanish: "No puedo proporcionar recomendaciones para esa consulta debido a pautas de seguridad. Intenta con otro tema.",
+          French: "Je ne peux pas fournir de recommandations pour cette requête en raison des règles de sécurité."
+       },
+       format: {
+          English: "I couldn't put together a proper answer for that. Please try rephrasing your request.",
+          Hindi: "मैं इसके लिए सही उत्तर तैयार नहीं कर सका। कृपया अपना अनुरोध दूसरे शब्दों में लिखें।",
+          Marathi: "मी यासाठी योग्य उत्तर तयार करू शकलो नाही. कृपया तुमची विनंती वेगळ्या शब्दांत लिहा.",
+          Spanish: "No pude preparar una respuesta adecuada. Intenta reformular tu solicitud.",
+          French: "Je n'ai pas pu préparer une réponse correcte. Veuillez reformuler votre demande."
+       }
+    };
+
+    // Check for safety blocking or generic errors
+    let errorType = 'default';
+    if (error?.message?.includes('SAFETY') || error?.message?.includes('BLOCKED')) {
+        errorType = 'safety';
+    } else if (error?.message === 'INVALID_FORMAT') {
+        errorType = 'format';
+    }
+
+    return {
+      summary: errorMap[errorType][language],
+      recommendations: [],
+      error: true,
+    };
+  }
+
+  async sendMessage(message: string, language: Language = 'English', context: PromptContext = {}): Promise<RecommendationResponse> {
+    try {
+      // Wrap in retry logic
+      const reply = await this.withRetry(() => this.sendChatMessage(buildLanguagePrompt(message, language, context)));
+
+      if (!reply.text) {
+        throw new Error(`Empty response from ${this.name}.`);
+      }
+
+      const parsed = await this.resolveResponse(reply.text, language);
+      parsed.sources = this.dedupeSources(reply.sources);
+
+      return parsed;
+
+    } catch (error: any) {
+      console.error(`${this.name} API Error:`, error);
+      return this.getErrorResponse(error, language);
+    }
+  }
+
+  // Streaming variant of sendMessage: the summary and each completed recommendation
+  // are reported through the handlers as soon as they arrive. Falls back to the
+  // one-shot path if the stream fails; cancelling resolves with the partial result.
+  sendMessageStream(message: string, language: Language = 'English', handlers: StreamHandlers = {}, context: PromptContext = {}): StreamHandle {
+    let cancelled = false;
+    const parser = new RecommendationStreamParser();
+    const streamed: Movie[] = [];
+
+    const partialResponse = (): RecommendationResponse => ({
+      summary: parser.getSummary(),
+      recommendations: [...streamed],
+    });
+
+    const run = async (): Promise<RecommendationResponse> => {
+      const sources: Source[] = [];
+
+      try {
+        const stream = await this.withRetry(() => this.streamChatMessage(buildLanguagePrompt(message, language, context)));
+
+        for await (const chunk of stream) {
+          if (cancelled) break;
+          sources.push(...chunk.sources);
+
+          const update = parser.push(chunk.text);
+          if (update.summary !== undefined) {
+            handlers.onSummary?.(update.summary);
+          }
+          update.recommendations.forEach(raw => {
+            // Entries that fail validation are left for the final pass to repair
+            const { movie } = validateMovie(raw);
+            if (!movie) return;
+            streamed.push(movie);
+            handlers.onRecommendation?.(movie, streamed.length - 1);
+          });
+        }
+      } catch (error) {
+        if (cancelled) return partialResponse();
+        console.warn("Streaming failed, falling back to one-shot request", error);
+        return this.sendMessage(message, language, context);
+      }
+
+      if (cancelled) return partialResponse();
+
+      const text = parser.getText();
+      if (!text) {
+        console.warn(`Empty stream from ${this.name}, falling back to one-shot request`);
+        return this.sendMessage(message, language, context);
+      }
+
+      const parsed = await this.resolveResponse(text, language);
+      parsed.sources = this.dedupeSources(sources);
+
+      return parsed;
+    };
+
+    // Cancelling settles immediately; the loop above stops consuming at the next chunk
+    let resolveCancel: (response: RecommendationResponse) => void = () => {};
+    const cancelledResponse = new Promise<RecommendationResponse>(resolve => { resolveCancel = resolve; });
+
+    return {
+      response: Promise.race([run(), cancelledResponse]),
+      cancel: () => {
+        if (cancelled) return;
+        cancelled = true;
+        resolveCancel(partialResponse());
+      },
+    };
+  }
+
+  async getColdStart(language: Language = 'English', context: PromptContext = {}): Promise<RecommendationResponse> {
+    // Use withRetry for cold start as well
+    return this.withRetry(() => this.sendMessage(COLD_START_PROMPT, language, context));
+  }
+
+  getSimilarTitles(request: SimilarityRequest, language: Language = 'English', context: PromptContext = {}): Promise<RecommendationResponse> {
+    return this.sendOneOff(buildSimilarityPrompt(request), language, context, movie => isExcludedFromSimilar(movie, request));
+  }
+
+  getMoreResults(request: MoreResultsRequest, language: Language = 'English', context: PromptContext = {}): Promise<RecommendationResponse> {
+    return this.sendOneOff(buildMoreResultsPrompt(request), language, context, movie => isExcludedFromMore(movie, request));
+  }
+
+  // A request outside the conversation; titles the caller excluded are dropped if the model repeats them
+  private async sendOneOff(message: string, language: Language, context: PromptContext, isExcluded: (movie: Movie) => boolean): Promise<RecommendationResponse> {
+    const prompt = buildLanguagePrompt(message, language, context);
+    try {
+      const reply = await this.withRetry(() => this.generateRecommendations(prompt));
+
+      if (!reply.text) {
+        throw new Error(`Empty response from ${this.name}.`);
+      }
+
+      // No chat to hold the broken reply, so the repair restates the request
+      const parsed = await this.resolveResponse(reply.text, language, repairPrompt => this.generateRecommendations(`${prompt}\n${repairPrompt}`));
+      parsed.recommendations = parsed.recommendations.filter(movie => !isExcluded(movie));
+      parsed.sources = this.dedupeSources(reply.sources);
+
+      return parsed;
+
+    } catch (error: any) {
+      console.error(`${this.name} API Error:`, error);
+      return this.getErrorResponse(error, language);
+    }
+  }
+
+  async getMovieSynopsis(title: string, year: string, language: Language = 'English'): Promise<string> {
+    try {
+      const text = await this.generateText(buildSynopsisPrompt(title, year, language));
+      return text.trim() || "Synopsis unavailable.";
+    } catch (error) {
+      console.warn(`Failed to fetch synopsis for ${title}:`, error);
+      return "Synopsis unavailable.";
+    }
+  }
+}
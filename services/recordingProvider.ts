@@ -0,0 +1,103 @@
+import { RecommendationResponse, Language, ChatTurn, SimilarityRequest, MoreResultsRequest } from "../types";
+import { RecommendationProvider, StreamHandlers, StreamHandle, PromptContext } from "./recommendationProvider";
+import { RecommendationFixture, FixtureKind } from "./mockProvider";
+
+// Dev-server endpoint registered by the fixture recorder plugin in vite.config.ts
+export const FIXTURE_ENDPOINT = '/__fixtures';
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60) || 'query';
+
+// Wraps a real provider and saves every successful exchange as a fixture file
+// (fixtures/recorded/*.json) that MockProvider can replay later.
+export class RecordingProvider implements RecommendationProvider {
+  readonly name: string;
+  private inner: RecommendationProvider;
+
+  constructor(inner: RecommendationProvider) {
+    this.inner = inner;
+    this.name = `${inner.name} (recording)`;
+  }
+
+  private async record(kind: FixtureKind, query: string, language: Language, response: RecommendationResponse | string) {
+    const fixture: RecommendationFixture = {
+      id: `${kind}-${slugify(query)}-${language.toLowerCase()}`,
+      kind,
+      language,
+      query,
+      response,
+      provider: this.inner.name,
+      recordedAt: Date.now(),
+    };
+
+    try {
+      const res = await fetch(FIXTURE_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fixture),
+      });
+      if (!res.ok) throw new Error(`Recorder responded with ${res.status}`);
+    } catch (e) {
+      console.warn("Failed to record fixture (is the dev server running?)", e);
+    }
+  }
+
+  // Error fallbacks and empty answers are not worth replaying
+  private isRecordable(response: RecommendationResponse) {
+    return response.recommendations.length > 0;
+  }
+
+  async sendMessage(message: string, language: Language = 'English', context: PromptContext = {}): Promise<RecommendationResponse> {
+    const response = await this.inner.sendMessage(message, language, context);
+    if (this.isRecordable(response)) await this.record('message', message, language, response);
+    return response;
+  }
+
+  sendMessageStream(message: string, language: Language = 'English', handlers: StreamHandlers = {}, context: PromptContext = {}): StreamHandle {
+    const handle = this.inner.sendMessageStream(message, language, handlers, context);
+    let cancelled = false;
+
+    return {
+      response: handle.response.then(async response => {
+        // Partial (cancelled) answers would replay as if they were complete
+        if (!cancelled && this.isRecordable(response)) await this.record('message', message, language, response);
+        return response;
+      }),
+      cancel: () => {
+        cancelled = true;
+        handle.cancel();
+      },
+    };
+  }
+
+  async getColdStart(language: Language = 'English', context: PromptContext = {}): Promise<RecommendationResponse> {
+    const response = await this.inner.getColdStart(language, context);
+    if (this.isRecordable(response)) await this.record('coldStart', 'cold start', language, response);
+    return response;
+  }
+
+  async getMovieSynopsis(title: string, year: string, language: Language = 'English'): Promise<string> {
+    const synopsis = await this.inner.getMovieSynopsis(title, year, language);
+    if (synopsis !== "Synopsis unavailable.") await this.record('synopsis', `${title} (${year})`, language, synopsis);
+    return synopsis;
+  }
+
+  async getSimilarTitles(request: SimilarityRequest, language: Language = 'English', context: PromptContext = {}): Promise<RecommendationResponse> {
+    const response = await this.inner.getSimilarTitles(request, language, context);
+    if (this.isRecordable(response)) await this.record('similar', `${request.title} (${request.year})`, language, response);
+    return response;
+  }
+
+  // Not recorded: the answer depends on what was already on screen, so it wouldn't replay meaningfully
+  getMoreResults(request: MoreResultsRequest, language: Language = 'English', context: PromptContext = {}): Promise<RecommendationResponse> {
+    return this.inner.getMoreResults(request, language, context);
+  }
+
+  getHistory(): ChatTurn[] {
+    return this.inner.getHistory();
+  }
+
+  restoreHistory(history: ChatTurn[]) {
+    this.inner.restoreHistory(history);
+  }
+}
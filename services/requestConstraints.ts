@@ -0,0 +1,118 @@
+import { ConstraintViolation, ContentRating, Movie, RequestConstraints } from "../types";
+import { normalizeTitle, releaseYear } from "./metadataProvider";
+import { metadataService } from "./metadataService";
+
+export const CONTENT_RATINGS: ContentRating[] = ['G', 'PG', 'PG-13', 'R'];
+
+// US, TV, UK and Indian certificates on one scale: 0 all ages ... 3 restricted, 4 adults only
+const RATING_LEVELS: Record<string, number> = {
+  'g': 0, 'tv-y': 0, 'tv-y7': 0, 'tv-g': 0, 'u': 0,
+  'pg': 1, 'tv-pg': 1, 'u/a 7+': 1, 'ua 7+': 1,
+  'pg-13': 2, 'tv-14': 2, '12': 2, '12a': 2, 'ua': 2, 'u/a': 2, 'ua 13+': 2, 'u/a 13+': 2,
+  'r': 3, '15': 3, 'ua 16+': 3, 'u/a 16+': 3,
+  'nc-17': 4, 'tv-ma': 4, '18': 4, 'a': 4,
+};
+
+export const createEmptyConstraints = (): RequestConstraints => ({
+  tone: 0,
+  pace: 0,
+  languages: [],
+  industries: [],
+  similarTo: [],
+});
+
+// Number of fields set, for the "n preferences" badge
+export const countConstraints = (c: RequestConstraints): number =>
+  [
+    c.type, c.tone || undefined, c.pace || undefined,
+    c.minRuntime ?? c.maxRuntime, c.maxSeasons, c.fromYear ?? c.toYear, c.maxContentRating,
+  ].filter(value => value !== undefined).length
+  + (c.languages.length > 0 ? 1 : 0)
+  + (c.industries.length > 0 ? 1 : 0)
+  + (c.similarTo.length > 0 ? 1 : 0);
+
+// "2h 28m" -> 148, "135 min" -> 135
+export const parseRuntimeMinutes = (runtime: string): number | null => {
+  const hours = runtime.match(/(\d+)\s*h/i);
+  const minutes = runtime.match(/(\d+)\s*m/i);
+  if (!hours && !minutes) return null;
+  return (hours ? Number(hours[1]) * 60 : 0) + (minutes ? Number(minutes[1]) : 0);
+};
+
+// "4 Seasons" -> 4; limited series and miniseries count as one
+const parseSeasons = (totalSeasons: string): number | null => {
+  const count = totalSeasons.match(/\d+/);
+  if (count) return Number(count[0]);
+  return /limited|mini/i.test(totalSeasons) ? 1 : null;
+};
+
+export const contentRatingLevel = (rating: string): number | null => {
+  const key = rating.trim().toLowerCase().replace(/^(rated|certificate)\s+/, '');
+  return RATING_LEVELS[key] ?? null;
+};
+
+const splitList = (value: string) => value.split(/[,/|&]/).map(item => item.trim().toLowerCase()).filter(Boolean);
+
+const matchesAny = (value: string, allowed: string[]) => {
+  const wanted = allowed.map(item => item.toLowerCase());
+  return splitList(value).some(item => wanted.includes(item));
+};
+
+const formatRuntime = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+// Hard constraints only; mood and pace are left to the model's judgement.
+// Anything the title doesn't state (no rating, no language) is given the benefit of the doubt.
+export const checkConstraints = (movie: Movie, c: RequestConstraints): ConstraintViolation[] => {
+  const violations: ConstraintViolation[] = [];
+  const isTv = movie.type === 'tv';
+
+  if (c.type && movie.type && movie.type !== c.type) {
+    violations.push({ constraint: 'type', actual: movie.type });
+  }
+
+  if (!isTv && (c.minRuntime !== undefined || c.maxRuntime !== undefined)) {
+    // The catalog's runtime is more reliable when it's already cached
+    const minutes = metadataService.peek(movie)?.runtimeMinutes || parseRuntimeMinutes(movie.runtime);
+    if (minutes && ((c.minRuntime !== undefined && minutes < c.minRuntime) || (c.maxRuntime !== undefined && minutes > c.maxRuntime))) {
+      violations.push({ constraint: 'runtime', actual: formatRuntime(minutes) });
+    }
+  }
+
+  if (isTv && c.maxSeasons !== undefined && movie.totalSeasons) {
+    const seasons = parseSeasons(movie.totalSeasons);
+    if (seasons !== null && seasons > c.maxSeasons) {
+      violations.push({ constraint: 'seasons', actual: movie.totalSeasons });
+    }
+  }
+
+  if (c.languages.length > 0 && movie.language && !matchesAny(movie.language, c.languages)) {
+    violations.push({ constraint: 'language', actual: movie.language });
+  }
+
+  if (c.industries.length > 0 && movie.industry && !matchesAny(movie.industry, c.industries)) {
+    violations.push({ constraint: 'industry', actual: movie.industry });
+  }
+
+  const year = Number(releaseYear(movie.year));
+  if (year && ((c.fromYear !== undefined && year < c.fromYear) || (c.toYear !== undefined && year > c.toYear))) {
+    violations.push({ constraint: 'era', actual: String(year) });
+  }
+
+  if (c.maxContentRating && movie.contentRating) {
+    const level = contentRatingLevel(movie.contentRating);
+    if (level !== null && level > CONTENT_RATINGS.indexOf(c.maxContentRating)) {
+      violations.push({ constraint: 'contentRating', actual: movie.contentRating });
+    }
+  }
+
+  // The reference titles themselves aren't new suggestions
+  if (c.similarTo.some(ref => normalizeTitle(ref.title) === normalizeTitle(movie.title))) {
+    violations.push({ constraint: 'similarTo', actual: movie.title });
+  }
+
+  return violations;
+};
+
+export const applyConstraintChecks = (movies: Movie[], c: RequestConstraints): Movie[] =>
+  movies.map(movie => ({ ...movie, constraintViolations: checkConstraints(movie, c) }));
@@ -0,0 +1,258 @@
+import { Movie, QuickReply, RecommendationResponse, Source } from '../types';
+
+export type ValidationSeverity = 'warning' | 'error';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  severity: ValidationSeverity;
+}
+
+export interface MovieValidationResult {
+  movie: Movie | null;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationResult {
+  response: RecommendationResponse;
+  issues: ValidationIssue[];
+  droppedCount: number;
+  isValid: boolean;
+}
+
+// Fields the UI cannot render a card without; a missing one drops the entry
+const CRITICAL_FIELDS = ['title', 'year'] as const;
+
+// Fields the contract requires but the card can live without
+const REQUIRED_TEXT_FIELDS = ['runtime', 'rating', 'emotionalTone', 'reason', 'bestSuitedFor'] as const;
+
+const OPTIONAL_TEXT_FIELDS = [
+  'synopsis', 'trailerUrl', 'language', 'director', 'specialFeature', 'industry', 'totalSeasons', 'contentRating'
+] as const;
+
+const TV_ALIASES = ['tv', 'tv series', 'tv show', 'series', 'show', 'web series', 'web show', 'miniseries', 'limited series', 'anime series', 'k-drama'];
+const MOVIE_ALIASES = ['movie', 'film', 'feature', 'feature film', 'documentary', 'anime film'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts strings as-is and numbers/booleans as their string form
+const toText = (value: unknown): string | null => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return null;
+};
+
+const toStringList = (value: unknown): string[] | null => {
+  if (Array.isArray(value)) {
+    return value.map(toText).filter((item): item is string => !!item);
+  }
+  if (typeof value === 'string') {
+    return value.split(/[,/|]/).map(item => item.trim()).filter(Boolean);
+  }
+  return null;
+};
+
+export const normalizeType = (value: unknown): 'movie' | 'tv' | undefined => {
+  const text = toText(value)?.toLowerCase();
+  if (!text) return undefined;
+  if (TV_ALIASES.includes(text)) return 'tv';
+  if (MOVIE_ALIASES.includes(text)) return 'movie';
+  return undefined;
+};
+
+export const validateMovie = (raw: unknown, path = 'movie'): MovieValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const warn = (field: string, message: string) => issues.push({ path: `${path}.${field}`, message, severity: 'warning' });
+  const fail = (field: string, message: string) => issues.push({ path: `${path}.${field}`, message, severity: 'error' });
+
+  if (!isPlainObject(raw)) {
+    issues.push({ path, message: 'Recommendation is not an object', severity: 'error' });
+    return { movie: null, issues };
+  }
+
+  const critical: Record<string, string> = {};
+  for (const field of CRITICAL_FIELDS) {
+    const text = toText(raw[field]);
+    if (!text) {
+      fail(field, 'Missing required field');
+    } else {
+      if (typeof raw[field] !== 'string') warn(field, `Coerced ${typeof raw[field]} to string`);
+      critical[field] = text;
+    }
+  }
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { movie: null, issues };
+  }
+
+  let genres = toStringList(raw.genres);
+  if (genres === null) {
+    warn('genres', 'Missing genres');
+    genres = [];
+  } else if (!Array.isArray(raw.genres)) {
+    warn('genres', 'Coerced string to list');
+  }
+
+  const movie: Movie = {
+    title: critical.title,
+    year: critical.year,
+    genres,
+    runtime: '',
+    rating: '',
+    emotionalTone: '',
+    reason: '',
+    bestSuitedFor: '',
+  };
+
+  for (const field of REQUIRED_TEXT_FIELDS) {
+    const text = toText(raw[field]);
+    if (text === null) {
+      warn(field, 'Missing required field');
+    } else {
+      if (typeof raw[field] !== 'string') warn(field, `Coerced ${typeof raw[field]} to string`);
+      movie[field] = text;
+    }
+  }
+
+  for (const field of OPTIONAL_TEXT_FIELDS) {
+    if (raw[field] === undefined || raw[field] === null) continue;
+    const text = toText(raw[field]);
+    if (text) {
+      movie[field] = text;
+    } else {
+      warn(field, 'Ignored non-text value');
+    }
+  }
+
+  if (raw.type !== undefined) {
+    const type = normalizeType(raw.type);
+    if (type) {
+      if (type !== raw.type) warn('type', `Normalized "${raw.type}" to "${type}"`);
+      movie.type = type;
+    } else {
+      warn('type', `Unknown type "${raw.type}"`);
+    }
+  }
+
+  return { movie, issues };
+};
+
+// Chips are optional extras, so bad entries are dropped with a warning only
+const validateQuickReplies = (raw: unknown, questionCount: number, issues: ValidationIssue[]): QuickReply[] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    issues.push({ path: 'quickReplies', message: 'Ignored non-list value', severity: 'warning' });
+    return undefined;
+  }
+
+  const replies: QuickReply[] = [];
+  raw.forEach((item, idx) => {
+    const path = `quickReplies[${idx}]`;
+    // Bare strings are accepted as both label and message
+    if (!isPlainObject(item)) {
+      const text = toText(item);
+      if (text) {
+        replies.push({ label: text, message: text });
+      } else {
+        issues.push({ path, message: 'Dropped invalid entry', severity: 'warning' });
+      }
+      return;
+    }
+
+    const label = toText(item.label) || toText(item.message);
+    if (!label) {
+      issues.push({ path, message: 'Dropped entry without a label', severity: 'warning' });
+      return;
+    }
+    const reply: QuickReply = { label, message: toText(item.message) || label };
+
+    if (item.questionIndex !== undefined && item.questionIndex !== null) {
+      const index = Number(item.questionIndex);
+      if (Number.isInteger(index) && index >= 0 && index < questionCount) {
+        reply.questionIndex = index;
+      } else {
+        issues.push({ path: `${path}.questionIndex`, message: `Ignored out-of-range index "${item.questionIndex}"`, severity: 'warning' });
+      }
+    }
+    replies.push(reply);
+  });
+  return replies;
+};
+
+export const validateRecommendationResponse = (raw: unknown): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+
+  if (!isPlainObject(raw)) {
+    issues.push({ path: 'response', message: 'Response is not a JSON object', severity: 'error' });
+    return { response: { summary: '', recommendations: [] }, issues, droppedCount: 0, isValid: false };
+  }
+
+  let summary = toText(raw.summary);
+  if (!summary) {
+    issues.push({ path: 'summary', message: 'Missing required field', severity: 'error' });
+    summary = '';
+  }
+
+  let clarifyingQuestions: string[] | undefined;
+  if (raw.clarifyingQuestions !== undefined && raw.clarifyingQuestions !== null) {
+    const list = toStringList(raw.clarifyingQuestions);
+    if (list === null) {
+      issues.push({ path: 'clarifyingQuestions', message: 'Ignored non-list value', severity: 'warning' });
+    } else {
+      if (!Array.isArray(raw.clarifyingQuestions)) {
+        issues.push({ path: 'clarifyingQuestions', message: 'Coerced string to list', severity: 'warning' });
+      }
+      clarifyingQuestions = list;
+    }
+  }
+
+  const quickReplies = validateQuickReplies(raw.quickReplies, clarifyingQuestions?.length || 0, issues);
+
+  let rawRecommendations: unknown[] = [];
+  if (Array.isArray(raw.recommendations)) {
+    rawRecommendations = raw.recommendations;
+  } else if (isPlainObject(raw.recommendations)) {
+    issues.push({ path: 'recommendations', message: 'Wrapped single object in a list', severity: 'warning' });
+    rawRecommendations = [raw.recommendations];
+  } else if (raw.recommendations !== undefined && raw.recommendations !== null) {
+    issues.push({ path: 'recommendations', message: 'Expected a list', severity: 'error' });
+  } else {
+    issues.push({ path: 'recommendations', message: 'Missing list, assumed empty', severity: 'warning' });
+  }
+
+  // Validate entries one at a time so a single bad title doesn't sink the answer
+  const recommendations: Movie[] = [];
+  let droppedCount = 0;
+  rawRecommendations.forEach((item, idx) => {
+    const result = validateMovie(item, `recommendations[${idx}]`);
+    issues.push(...result.issues);
+    if (result.movie) {
+      recommendations.push(result.movie);
+    } else {
+      droppedCount++;
+    }
+  });
+
+  const response: RecommendationResponse = { summary, recommendations };
+  if (clarifyingQuestions) response.clarifyingQuestions = clarifyingQuestions;
+  if (quickReplies && quickReplies.length > 0) response.quickReplies = quickReplies;
+  if (Array.isArray(raw.sources)) response.sources = raw.sources as Source[];
+
+  return {
+    response,
+    issues,
+    droppedCount,
+    isValid: !issues.some(issue => issue.severity === 'error'),
+  };
+};
+
+// Compact, model-readable list of problems for the repair re-prompt
+export const formatIssues = (issues: ValidationIssue[], limit = 15): string => {
+  const lines = issues
+    .filter(issue => issue.severity === 'error')
+    .concat(issues.filter(issue => issue.severity === 'warning'))
+    .slice(0, limit)
+    .map(issue => `- [${issue.severity}] ${issue.path}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`- ...and ${issues.length - limit} more`);
+  return lines.join('\n');
+};
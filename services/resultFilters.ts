@@ -0,0 +1,36 @@
+import { Movie, ResultFilters } from "../types";
+import { releaseYear } from "./metadataProvider";
+
+// Whether a title passes the grid filters. Industry also matches on language (e.g. "Korean"),
+// and genres match loosely ("Sci-Fi" finds "Sci-Fi Thriller").
+export const matchesResultFilters = (movie: Movie, filters: ResultFilters): boolean => {
+  if (filters.type && movie.type !== filters.type) return false;
+
+  if (filters.industry) {
+    const target = filters.industry.toLowerCase();
+    const industry = movie.industry?.toLowerCase() || '';
+    const language = movie.language?.toLowerCase() || '';
+    if (!industry.includes(target) && !language.includes(target)) return false;
+  }
+
+  if (filters.decade) {
+    const year = parseInt(releaseYear(movie.year));
+    if (isNaN(year)) return false;
+    if (filters.decade === 'older') {
+      if (year >= 1980) return false;
+    } else {
+      const decadeStart = parseInt(filters.decade);
+      if (year < decadeStart || year >= decadeStart + 10) return false;
+    }
+  }
+
+  if (filters.genre) {
+    const target = filters.genre.toLowerCase();
+    if (!movie.genres.some(g => g.toLowerCase().includes(target))) return false;
+  }
+
+  return true;
+};
+
+export const hasResultFilters = (filters: ResultFilters): boolean =>
+  !!(filters.type || filters.genre || filters.decade || filters.industry || filters.streamableOnly);
@@ -0,0 +1,62 @@
+import { Movie } from "../types";
+import { normalizeTitle, releaseYear } from "./metadataProvider";
+
+// Every linkable screen in the app
+export type AppRoute =
+  | { name: 'home' }
+  | { name: 'watchlist' }
+  | { name: 'collection'; id: string }
+  | { name: 'chat'; id: string }
+  // slug is the normalized title with dashes; year is empty when the link had none
+  | { name: 'title'; slug: string; year: string };
+
+// "Schindler's List" -> "schindler-s-list"; other scripts keep their own letters
+export const slugifyTitle = (title: string): string => normalizeTitle(title).replace(/ /g, '-');
+
+export const titleRoute = (movie: Pick<Movie, 'title' | 'year'>): AppRoute => ({
+  name: 'title',
+  slug: slugifyTitle(movie.title),
+  year: releaseYear(movie.year),
+});
+
+// Whether a title is the one a /title link points to
+export const matchesTitleRoute = (movie: Pick<Movie, 'title' | 'year'>, route: { slug: string; year: string }) =>
+  slugifyTitle(movie.title) === route.slug && (!route.year || releaseYear(movie.year) === route.year);
+
+// Best guess at the title from a slug alone, for links to titles neither this device nor the catalog knows:
+// "schindler-s-list" -> "Schindler S List"
+export const titleFromSlug = (slug: string) =>
+  slug.replace(/-+/g, ' ').trim().replace(/(^|\s)(\S)/g, (_, space: string, letter: string) => space + letter.toUpperCase());
+
+export const routePath = (route: AppRoute): string => {
+  switch (route.name) {
+    case 'watchlist': return '/watchlist';
+    case 'collection': return `/collection/${encodeURIComponent(route.id)}`;
+    case 'chat': return `/chat/${encodeURIComponent(route.id)}`;
+    case 'title': return `/title/${encodeURIComponent(route.year ? `${route.slug}-${route.year}` : route.slug)}`;
+    default: return '/';
+  }
+};
+
+// Unknown paths fall back to home
+export const parseRoute = (pathname: string): AppRoute => {
+  const [section, rawParam] = pathname.replace(/^\/+|\/+$/g, '').split('/');
+  let param = '';
+  try {
+    param = rawParam ? decodeURIComponent(rawParam) : '';
+  } catch {
+    return { name: 'home' };
+  }
+
+  if (section === 'watchlist' && !param) return { name: 'watchlist' };
+  if (section === 'collection' && param) return { name: 'collection', id: param };
+  if (section === 'chat' && param) return { name: 'chat', id: param };
+  if (section === 'title' && param) {
+    const match = param.match(/^(.+)-(\d{4})$/);
+    return match ? { name: 'title', slug: match[1], year: match[2] } : { name: 'title', slug: param, year: '' };
+  }
+  return { name: 'home' };
+};
+
+// Absolute link for sharing
+export const routeUrl = (route: AppRoute): string => `${window.location.origin}${routePath(route)}`;
@@ -0,0 +1,35 @@
+import { StorageDocument } from './storageEvents';
+
+// One syncable unit (a watchlist entry, a collection, a history query).
+// `data` is serialized JSON so every backend stores it verbatim.
+export interface SyncRecord {
+  key: string;
+  updatedAt: number;
+  data: string;
+}
+
+export interface SyncDocument {
+  version: number;
+  records: SyncRecord[];
+  updatedAt: number;
+}
+
+// Remote home for the locally cached documents. localStorage stays the source
+// the UI reads from; a backend only stores and streams the synced copy.
+export interface StorageBackend {
+  readonly name: string;
+  // Reads the remote copy and stores whatever `merge` returns, atomically.
+  // `merge` may run more than once if the backend retries.
+  transact(
+    userId: string,
+    doc: StorageDocument,
+    merge: (remote: SyncDocument | null) => SyncDocument
+  ): Promise<SyncDocument>;
+  // Streams remote changes; returns an unsubscribe function
+  subscribe(
+    userId: string,
+    doc: StorageDocument,
+    onChange: (remote: SyncDocument | null) => void,
+    onError?: (error: unknown) => void
+  ): () => void;
+}
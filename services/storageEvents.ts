@@ -0,0 +1,25 @@
+// Names of the locally cached documents that can change
+export type StorageDocument = 'watchlist' | 'history';
+
+type StorageListener = (doc: StorageDocument, userId?: string) => void;
+
+const listeners = new Set<StorageListener>();
+
+// Tiny pub/sub so sync and UI can react to local writes without the
+// storage services knowing about either.
+export const storageEvents = {
+  emit: (doc: StorageDocument, userId?: string) => {
+    listeners.forEach(listener => {
+      try {
+        listener(doc, userId);
+      } catch (e) {
+        console.error("Storage listener failed", e);
+      }
+    });
+  },
+
+  subscribe: (listener: StorageListener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  }
+};
@@ -0,0 +1,122 @@
+export interface StreamParseUpdate {
+  summary?: string;
+  recommendations: unknown[];
+}
+
+// Incremental parser for the streamed RecommendationResponse JSON.
+// It tolerates Markdown fences and half-written tokens: the summary is decoded
+// up to the last complete character, and recommendation objects are only
+// emitted once their closing brace has arrived. Emitted objects are raw JSON
+// and still need validation.
+export class RecommendationStreamParser {
+  private buffer = '';
+  private summary = '';
+  private emittedCount = 0;
+
+  push(chunk: string): StreamParseUpdate {
+    this.buffer += chunk;
+    const update: StreamParseUpdate = { recommendations: [] };
+
+    const summary = this.readPartialString('summary');
+    if (summary !== null && summary !== this.summary) {
+      this.summary = summary;
+      update.summary = summary;
+    }
+
+    const objects = this.readCompletedObjects('recommendations');
+    for (let i = this.emittedCount; i < objects.length; i++) {
+      try {
+        update.recommendations.push(JSON.parse(objects[i]));
+      } catch {
+        console.warn("Skipping malformed streamed recommendation", objects[i]);
+      }
+    }
+    this.emittedCount = objects.length;
+
+    return update;
+  }
+
+  getText(): string {
+    return this.buffer;
+  }
+
+  getSummary(): string {
+    return this.summary;
+  }
+
+  // Decodes the string value of `key`, stopping at the closing quote or at
+  // the end of the buffer (never in the middle of an escape sequence).
+  private readPartialString(key: string): string | null {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(this.buffer);
+    if (!match) return null;
+
+    let result = '';
+    let i = match.index + match[0].length;
+
+    while (i < this.buffer.length) {
+      const char = this.buffer[i];
+      if (char === '"') break;
+
+      if (char === '\\') {
+        const next = this.buffer[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+          const hex = this.buffer.substring(i + 2, i + 6);
+          if (hex.length < 4) break;
+          result += String.fromCharCode(parseInt(hex, 16));
+          i += 6;
+          continue;
+        }
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+        result += escapes[next] ?? next;
+        i += 2;
+        continue;
+      }
+
+      result += char;
+      i++;
+    }
+
+    return result;
+  }
+
+  // Returns the raw text of every fully closed object inside the array `key`.
+  private readCompletedObjects(key: string): string[] {
+    const match = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(this.buffer);
+    if (!match) return [];
+
+    const objects: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let objectStart = -1;
+
+    for (let i = match.index + match[0].length; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        if (depth === 0) objectStart = i;
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0 && objectStart !== -1) {
+          objects.push(this.buffer.substring(objectStart, i + 1));
+          objectStart = -1;
+        }
+      } else if (char === ']' && depth === 0) {
+        break;
+      }
+    }
+
+    return objects;
+  }
+}
@@ -0,0 +1,34 @@
+import { StreamingPreferences } from '../types';
+import { STREAMING_COUNTRIES } from '../constants';
+
+const BASE_KEY = 'moviesgpt_streaming_prefs';
+
+const getKey = (userId?: string) => userId ? `${BASE_KEY}_${userId}` : `${BASE_KEY}_guest`;
+
+// First guess at the country from the browser locale, e.g. "en-IN" -> IN
+const guessCountry = (): string => {
+  const locale = typeof navigator !== 'undefined' ? navigator.language : '';
+  const region = locale.split('-')[1]?.toUpperCase();
+  return STREAMING_COUNTRIES.some(c => c.code === region) ? region : 'US';
+};
+
+export const streamingPreferencesService = {
+  getPreferences: (userId?: string): StreamingPreferences => {
+    try {
+      const stored = localStorage.getItem(getKey(userId));
+      const fallback = { country: guessCountry(), services: [] };
+      return stored ? { ...fallback, ...JSON.parse(stored) } : fallback;
+    } catch (e) {
+      console.error("Failed to parse streaming preferences", e);
+      return { country: guessCountry(), services: [] };
+    }
+  },
+
+  savePreferences: (preferences: StreamingPreferences, userId?: string) => {
+    try {
+      localStorage.setItem(getKey(userId), JSON.stringify(preferences));
+    } catch (e) {
+      console.error("Failed to save streaming preferences", e);
+    }
+  }
+};
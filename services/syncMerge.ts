@@ -0,0 +1,56 @@
+import { SyncRecord } from './storageBackend';
+
+export interface MergeResult {
+  records: SyncRecord[];
+  // Keys edited on both sides since the last sync
+  conflicts: string[];
+}
+
+const byKey = (records: SyncRecord[]) => new Map(records.map(record => [record.key, record]));
+
+const isSame = (a?: SyncRecord, b?: SyncRecord) =>
+  a === b || (!!a && !!b && a.updatedAt === b.updatedAt && a.data === b.data);
+
+// Three-way merge against `base`, the copy both sides agreed on at the last
+// sync, so deletions can be told apart from records the other side never had.
+// - changed on one side only: that side wins, deletions included
+// - changed on both: the newer `updatedAt` wins; an edit beats a delete
+// Without a base (first sync) this is a union where the newer record wins.
+export const mergeRecords = (base: SyncRecord[], local: SyncRecord[], remote: SyncRecord[]): MergeResult => {
+  const baseMap = byKey(base);
+  const localMap = byKey(local);
+  const remoteMap = byKey(remote);
+  const keys = new Set([...baseMap.keys(), ...localMap.keys(), ...remoteMap.keys()]);
+
+  const records: SyncRecord[] = [];
+  const conflicts: string[] = [];
+
+  keys.forEach(key => {
+    const b = baseMap.get(key);
+    const l = localMap.get(key);
+    const r = remoteMap.get(key);
+    const localChanged = !isSame(b, l);
+    const remoteChanged = !isSame(b, r);
+
+    let winner: SyncRecord | undefined;
+    if (!localChanged) {
+      winner = r;
+    } else if (!remoteChanged) {
+      winner = l;
+    } else {
+      if (l && r && !isSame(l, r)) conflicts.push(key);
+      if (!l) winner = r;
+      else if (!r) winner = l;
+      else winner = r.updatedAt > l.updatedAt ? r : l;
+    }
+    if (winner) records.push(winner);
+  });
+
+  return { records, conflicts };
+};
+
+export const recordsEqual = (a: SyncRecord[], b: SyncRecord[]): boolean => {
+  if (a.length !== b.length) return false;
+  const map = byKey(b);
+  return a.every(record => isSame(record, map.get(record.key)));
+};
@@ -0,0 +1,110 @@
+import { Movie, TasteProfile, TitleRef } from '../types';
+
+const BASE_KEY = 'moviesgpt_taste_profile';
+const MAX_TITLES = 50;
+
+// Explicit thumbs plus implicit interest signals
+export type TasteSignal = 'like' | 'dislike' | 'watchlist' | 'trailer';
+export type TasteRating = Extract<TasteSignal, 'like' | 'dislike'>;
+
+// Implicit signals are weaker evidence than a thumbs up
+const SIGNAL_WEIGHTS: Record<TasteSignal, number> = {
+  like: 3,
+  dislike: 0,
+  watchlist: 2,
+  trailer: 1,
+};
+
+const getKey = (userId?: string) => userId ? `${BASE_KEY}_${userId}` : `${BASE_KEY}_guest`;
+
+export const createEmptyProfile = (): TasteProfile => ({
+  likedTitles: [],
+  dislikedTitles: [],
+  favoriteGenres: [],
+  favoriteIndustries: [],
+  favoriteLanguages: [],
+  preferredRuntime: 'any',
+  avoid: [],
+  affinity: { genres: {}, industries: {}, languages: {} },
+  updatedAt: 0,
+});
+
+const sameTitle = (a: TitleRef, b: TitleRef) => a.title === b.title && a.year === b.year;
+
+// Negative weights take back an earlier signal; names that drop to zero are removed
+const bump = (counts: Record<string, number>, key: string | undefined, weight: number) => {
+  if (!key || weight === 0) return;
+  const next = (counts[key] || 0) + weight;
+  if (next > 0) counts[key] = next;
+  else delete counts[key];
+};
+
+const applyWeight = (profile: TasteProfile, movie: Movie, weight: number) => {
+  movie.genres.forEach(genre => bump(profile.affinity.genres, genre, weight));
+  bump(profile.affinity.industries, movie.industry, weight);
+  bump(profile.affinity.languages, movie.language, weight);
+};
+
+const ratingWeight = (rating: TasteRating | null) => rating ? SIGNAL_WEIGHTS[rating] : 0;
+
+// Names with the highest implicit scores, strongest first
+export const topAffinities = (counts: Record<string, number>, limit = 3): string[] =>
+  Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([name]) => name);
+
+export const tasteProfileService = {
+  getProfile: (userId?: string): TasteProfile => {
+    try {
+      const stored = localStorage.getItem(getKey(userId));
+      if (!stored) return createEmptyProfile();
+      const parsed = JSON.parse(stored);
+      const empty = createEmptyProfile();
+      return { ...empty, ...parsed, affinity: { ...empty.affinity, ...parsed.affinity } };
+    } catch (e) {
+      console.error("Failed to parse taste profile", e);
+      return createEmptyProfile();
+    }
+  },
+
+  saveProfile: (profile: TasteProfile, userId?: string) => {
+    try {
+      localStorage.setItem(getKey(userId), JSON.stringify({ ...profile, updatedAt: Date.now() }));
+    } catch (e) {
+      console.error("Failed to save taste profile", e);
+    }
+  },
+
+  recordSignal: (signal: Exclude<TasteSignal, TasteRating>, movie: Movie, userId?: string) => {
+    const profile = tasteProfileService.getProfile(userId);
+    applyWeight(profile, movie, SIGNAL_WEIGHTS[signal]);
+    tasteProfileService.saveProfile(profile, userId);
+  },
+
+  // Sets or clears (null) the thumbs up/down on a title. Only the change from the previous
+  // rating is weighed, so toggling a like or switching it to a dislike can't inflate affinity.
+  changeRating: (movie: Movie, rating: TasteRating | null, previous: TasteRating | null, userId?: string) => {
+    const profile = tasteProfileService.getProfile(userId);
+    const ref: TitleRef = { title: movie.title, year: movie.year };
+
+    // Thumbs are mutually exclusive
+    profile.likedTitles = profile.likedTitles.filter(t => !sameTitle(t, ref));
+    profile.dislikedTitles = profile.dislikedTitles.filter(t => !sameTitle(t, ref));
+    if (rating === 'like') profile.likedTitles = [ref, ...profile.likedTitles].slice(0, MAX_TITLES);
+    if (rating === 'dislike') profile.dislikedTitles = [ref, ...profile.dislikedTitles].slice(0, MAX_TITLES);
+
+    applyWeight(profile, movie, ratingWeight(rating) - ratingWeight(previous));
+    tasteProfileService.saveProfile(profile, userId);
+  },
+
+  isEmpty: (profile: TasteProfile): boolean =>
+    profile.likedTitles.length === 0 &&
+    profile.dislikedTitles.length === 0 &&
+    profile.favoriteGenres.length === 0 &&
+    profile.favoriteIndustries.length === 0 &&
+    profile.favoriteLanguages.length === 0 &&
+    profile.preferredRuntime === 'any' &&
+    profile.avoid.length === 0 &&
+    Object.keys(profile.affinity.genres).length === 0,
+};
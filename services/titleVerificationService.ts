@@ -0,0 +1,153 @@
+import { Movie, TitleMetadata, VerificationStatus } from '../types';
+import { metadataService, getMetadataConfig } from './metadataService';
+import { isMockMode } from './geminiService';
+import { normalizeTitle, releaseYear } from './metadataProvider';
+
+const STATS_KEY = 'moviesgpt_verification_stats';
+// A slow catalog shouldn't hold the answer back; titles not checked in time are shown unmarked
+const VERIFY_TIMEOUT_MS = 6000;
+const MAX_RECENT = 10;
+
+// flag: keep titles the catalog doesn't know, with a warning on the card
+// drop: remove them before display
+// off: skip the check
+export type VerificationMode = 'flag' | 'drop' | 'off';
+
+export interface VerificationStats {
+  total: number;
+  outcomes: Record<VerificationStatus, number>;
+  dropped: number;
+  // Lookups that failed, timed out or missed the demo-only catalog, so nothing could be said either way
+  unchecked: number;
+  lastUnverified: string[];
+  lastCorrections: string[];
+  updatedAt: number;
+}
+
+const emptyStats = (): VerificationStats => ({
+  total: 0,
+  outcomes: { verified: 0, corrected: 0, unverified: 0 },
+  dropped: 0,
+  unchecked: 0,
+  lastUnverified: [],
+  lastCorrections: [],
+  updatedAt: 0,
+});
+
+// Values are injected at build time by vite.config.ts
+export const getVerificationMode = (): VerificationMode => {
+  const mode = (process.env.VERIFY_TITLES || '').toLowerCase();
+  return mode === 'drop' || mode === 'off' ? mode : 'flag';
+};
+
+// The bundled catalog only knows the demo fixtures. Against a live model a miss there says nothing
+// about the title, so it is left unchecked rather than flagged as a possible hallucination.
+export const canFlagMisses = (): boolean => getMetadataConfig().provider !== 'mock' || isMockMode;
+
+const isCatalogMiss = (movie: Movie, metadata: TitleMetadata | null) =>
+  !metadata || normalizeTitle(metadata.title) !== normalizeTitle(movie.title);
+
+// "Joel Coen, Ethan Coen" matches a claim of "Ethan Coen"
+const hasCommonName = (claimed: string, catalog: string) => {
+  const known = catalog.split(',').map(normalizeTitle);
+  return claimed.split(/,|&|\band\b/).map(normalizeTitle).some(name => name && known.includes(name));
+};
+
+// Compares a recommendation with its catalog entry; the catalog's year and director win
+export const verifyMovie = (movie: Movie, metadata: TitleMetadata | null): Movie => {
+  const source = metadataService.providerName;
+  if (isCatalogMiss(movie, metadata)) {
+    return { ...movie, verification: { status: 'unverified', source } };
+  }
+
+  const checked: Movie = { ...movie };
+  const corrections: string[] = [];
+  const claimedYear = releaseYear(movie.year);
+  if (metadata.year && claimedYear && claimedYear !== metadata.year) {
+    // Keeps a show's range format, e.g. "2009–2013" becomes "2008–2013"
+    checked.year = movie.year.replace(claimedYear, metadata.year);
+    corrections.push(`year: ${claimedYear} → ${metadata.year}`);
+  }
+  if (metadata.director) {
+    if (!movie.director) {
+      checked.director = metadata.director;
+    } else if (!hasCommonName(movie.director, metadata.director)) {
+      checked.director = metadata.director;
+      corrections.push(`director: ${movie.director} → ${metadata.director}`);
+    }
+  }
+
+  checked.verification = corrections.length > 0
+    ? { status: 'corrected', corrections, source }
+    : { status: 'verified', source };
+  return checked;
+};
+
+const withTimeout = <T>(promise: Promise<T>): Promise<T | undefined> =>
+  Promise.race([promise, new Promise<undefined>(resolve => setTimeout(() => resolve(undefined), VERIFY_TIMEOUT_MS))]);
+
+export const titleVerificationService = {
+  // Checks every title against the catalog before it is shown
+  verifyRecommendations: async (movies: Movie[], mode: VerificationMode = getVerificationMode()): Promise<Movie[]> => {
+    if (mode === 'off' || movies.length === 0) return movies;
+    const flagMisses = canFlagMisses();
+
+    const checked = await Promise.all(movies.map(async movie => {
+      try {
+        const metadata = await withTimeout(metadataService.lookup(movie));
+        if (metadata === undefined || (!flagMisses && isCatalogMiss(movie, metadata))) return movie;
+        return verifyMovie(movie, metadata);
+      } catch (e) {
+        console.error(`Could not verify ${movie.title}`, e);
+        return movie;
+      }
+    }));
+
+    const kept = mode === 'drop' ? checked.filter(movie => movie.verification?.status !== 'unverified') : checked;
+    titleVerificationService.record(checked, checked.length - kept.length);
+    return kept;
+  },
+
+  getStats: (): VerificationStats => {
+    try {
+      const stored = localStorage.getItem(STATS_KEY);
+      return stored ? { ...emptyStats(), ...JSON.parse(stored) } : emptyStats();
+    } catch {
+      return emptyStats();
+    }
+  },
+
+  record: (checked: Movie[], droppedCount: number) => {
+    try {
+      const stats = titleVerificationService.getStats();
+      checked.forEach(movie => {
+        stats.total++;
+        if (!movie.verification) {
+          stats.unchecked++;
+          return;
+        }
+        stats.outcomes[movie.verification.status]++;
+        const label = `${movie.title} (${movie.year})`;
+        if (movie.verification.status === 'unverified') {
+          stats.lastUnverified = [label, ...stats.lastUnverified].slice(0, MAX_RECENT);
+        }
+        (movie.verification.corrections || []).forEach(correction => {
+          stats.lastCorrections = [`${label}: ${correction}`, ...stats.lastCorrections].slice(0, MAX_RECENT);
+        });
+      });
+      stats.dropped += droppedCount;
+      stats.updatedAt = Date.now();
+      localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+    } catch (e) {
+      console.error("Failed to record verification stats", e);
+    }
+  },
+
+  resetStats: () => {
+    try {
+      localStorage.removeItem(STATS_KEY);
+    } catch (e) {
+      console.error("Failed to reset verification stats", e);
+    }
+  }
+};
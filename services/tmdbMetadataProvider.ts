@@ -0,0 +1,95 @@
+import { Movie, TitleMetadata } from "../types";
+import { MetadataProvider, isSameTitle, normalizeTitle, releaseYear } from "./metadataProvider";
+
+const TMDB_API_URL = 'https://api.themoviedb.org/3';
+const TMDB_IMAGE_URL = 'https://image.tmdb.org/t/p';
+const CAST_LIMIT = 5;
+
+// The fields we read from TMDB search and detail responses; movies and shows name them differently
+interface TmdbTitle {
+  id: number;
+  title?: string;
+  name?: string;
+  original_title?: string;
+  original_name?: string;
+  release_date?: string;
+  first_air_date?: string;
+  poster_path?: string | null;
+  backdrop_path?: string | null;
+  runtime?: number | null;
+  episode_run_time?: number[];
+  credits?: { cast?: { name: string }[]; crew?: { name: string; job: string }[] };
+  created_by?: { name: string }[];
+  videos?: { results?: { key: string; site: string; type: string; official?: boolean }[] };
+  external_ids?: { imdb_id?: string | null };
+  imdb_id?: string | null;
+}
+
+// Models use either the English or the original title
+const titlesOf = (r: TmdbTitle) => [r.title, r.original_title, r.name, r.original_name].filter((t): t is string => !!t);
+
+// Resolves titles against The Movie Database (https://developer.themoviedb.org)
+export class TmdbMetadataProvider implements MetadataProvider {
+  readonly name = 'tmdb';
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  private async request<T>(path: string, params: Record<string, string>): Promise<T> {
+    const query = new URLSearchParams({ ...params, api_key: this.apiKey });
+    const response = await fetch(`${TMDB_API_URL}${path}?${query}`);
+    if (!response.ok) {
+      throw new Error(`TMDB request failed: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  private async search(kind: 'movie' | 'tv', title: string, year?: string): Promise<TmdbTitle[]> {
+    const search = await this.request<{ results: TmdbTitle[] }>(`/search/${kind}`, {
+      query: title,
+      ...(year ? { [kind === 'tv' ? 'first_air_date_year' : 'year']: year } : {}),
+    });
+    return search.results || [];
+  }
+
+  async lookup(movie: Movie): Promise<TitleMetadata | null> {
+    const kind = movie.type === 'tv' ? 'tv' : 'movie';
+    const year = releaseYear(movie.year);
+    const results = await this.search(kind, movie.title, year);
+
+    // Exact title and year first, then the same title in another year, since
+    // the model's year may be off. A merely similar title is not a match.
+    let match = results.find(r => titlesOf(r).some(title => isSameTitle(movie, title, r.release_date || r.first_air_date || '')));
+    if (!match && year) {
+      match = (await this.search(kind, movie.title)).find(r => titlesOf(r).some(title => normalizeTitle(title) === normalizeTitle(movie.title)));
+    }
+    if (!match) return null;
+
+    const details = await this.request<TmdbTitle>(`/${kind}/${match.id}`, { append_to_response: 'credits,external_ids,videos' });
+    const imdb = details.external_ids?.imdb_id || details.imdb_id;
+    // Report the name the model used when it was the original title
+    const title = titlesOf(details).find(t => normalizeTitle(t) === normalizeTitle(movie.title)) || details.title || details.name || movie.title;
+    // Official trailers first, then teasers
+    const trailerIds = (details.videos?.results || [])
+      .filter(video => video.site === 'YouTube' && (video.type === 'Trailer' || video.type === 'Teaser'))
+      .sort((a, b) => Number(b.type === 'Trailer') - Number(a.type === 'Trailer') || Number(!!b.official) - Number(!!a.official))
+      .map(video => video.key);
+    const directors = kind === 'tv'
+      ? (details.created_by || []).map(person => person.name)
+      : (details.credits?.crew || []).filter(person => person.job === 'Director').map(person => person.name);
+    return {
+      title,
+      year: releaseYear(details.release_date || details.first_air_date || '') || year,
+      posterUrl: details.poster_path ? `${TMDB_IMAGE_URL}/w500${details.poster_path}` : undefined,
+      backdropUrl: details.backdrop_path ? `${TMDB_IMAGE_URL}/w1280${details.backdrop_path}` : undefined,
+      runtimeMinutes: details.runtime || details.episode_run_time?.[0] || undefined,
+      director: directors.length > 0 ? directors.join(', ') : undefined,
+      cast: (details.credits?.cast || []).slice(0, CAST_LIMIT).map(person => person.name),
+      trailerIds,
+      externalIds: { tmdb: `${kind}/${details.id}`, ...(imdb ? { imdb } : {}) },
+      source: this.name,
+    };
+  }
+}
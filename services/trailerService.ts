@@ -0,0 +1,241 @@
+import { Movie } from "../types";
+import { metadataService } from "./metadataService";
+import { normalizeTitle, releaseYear } from "./metadataProvider";
+
+const CACHE_KEY = 'moviesgpt_trailer_cache';
+const GOOD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Videos come back (region locks lift, uploads get restored), so dead IDs are retried eventually
+const DEAD_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// "Nothing found" is retried sooner; a search or catalog may have it tomorrow
+const MISS_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 300;
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+// Checks whether a YouTube video exists and may be embedded.
+// true: playable, false: gone or not embeddable, null: couldn't tell (e.g. offline)
+export interface TrailerValidator {
+  readonly name: string;
+  check(videoId: string): Promise<boolean | null>;
+}
+
+// Where candidate video IDs come from, tried in order
+export interface TrailerSource {
+  readonly name: string;
+  candidates(movie: Movie): Promise<string[]>;
+}
+
+interface CacheEntry {
+  // Last ID that validated, or null when every candidate failed
+  videoId: string | null;
+  // When the candidates were last checked; 0 forces a fresh check
+  checkedAt: number;
+  // Video ID -> when it was found dead
+  dead: Record<string, number>;
+}
+
+// Handles watch, short, embed and share links; returns null for anything that isn't an 11-character ID
+export const extractYouTubeId = (url?: string): string | null => {
+  if (!url) return null;
+  const match = url.trim().match(/^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=|shorts\/|live\/)([^#&?]*).*/);
+  return match && YOUTUBE_ID.test(match[2]) ? match[2] : null;
+};
+
+// enablejsapi=1 lets the modal control the player and hear its errors over postMessage
+export const buildEmbedUrl = (videoId: string): string => {
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  return `https://www.youtube.com/embed/${videoId}?autoplay=1&mute=1&enablejsapi=1&controls=1&origin=${encodeURIComponent(origin)}&modestbranding=1&rel=0&playsinline=1`;
+};
+
+export const getWatchUrl = (videoId: string) => `https://www.youtube.com/watch?v=${videoId}`;
+
+export const getTrailerSearchUrl = (movie: Movie) =>
+  `https://www.youtube.com/results?search_query=${encodeURIComponent(`${movie.title} ${movie.year} trailer`)}`;
+
+// YouTube's oEmbed endpoint answers 401/403 for private or non-embeddable videos and 404 for removed ones
+export class YouTubeOEmbedValidator implements TrailerValidator {
+  readonly name = 'oembed';
+
+  async check(videoId: string): Promise<boolean | null> {
+    try {
+      const response = await fetch(`https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(getWatchUrl(videoId))}`);
+      if (response.ok) return true;
+      return [400, 401, 403, 404].includes(response.status) ? false : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// The link the model suggested
+export const modelTrailerSource: TrailerSource = {
+  name: 'model',
+  candidates: async (movie) => {
+    const id = extractYouTubeId(movie.trailerUrl);
+    return id ? [id] : [];
+  }
+};
+
+// Trailers listed by the metadata catalog (TMDB lists official uploads)
+export const catalogTrailerSource: TrailerSource = {
+  name: 'catalog',
+  candidates: async (movie) => {
+    const metadata = await metadataService.getMetadata(movie);
+    return (metadata?.trailerIds || []).filter(id => YOUTUBE_ID.test(id));
+  }
+};
+
+// Top results of a YouTube Data API search (https://developers.google.com/youtube/v3)
+export class YouTubeSearchTrailerSource implements TrailerSource {
+  readonly name = 'youtube-search';
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  async candidates(movie: Movie): Promise<string[]> {
+    const query = new URLSearchParams({
+      part: 'snippet',
+      type: 'video',
+      videoEmbeddable: 'true',
+      maxResults: '3',
+      q: `${movie.title} ${releaseYear(movie.year)} official trailer`,
+      key: this.apiKey,
+    });
+    const response = await fetch(`https://www.googleapis.com/youtube/v3/search?${query}`);
+    if (!response.ok) {
+      throw new Error(`YouTube search failed: ${response.status}`);
+    }
+    const data: { items?: { id?: { videoId?: string } }[] } = await response.json();
+    return (data.items || []).map(item => item.id?.videoId).filter((id): id is string => !!id && YOUTUBE_ID.test(id));
+  }
+}
+
+// Values are injected at build time by vite.config.ts
+export const createTrailerSources = (): TrailerSource[] => {
+  const apiKey = process.env.YOUTUBE_API_KEY || undefined;
+  return [modelTrailerSource, catalogTrailerSource, ...(apiKey ? [new YouTubeSearchTrailerSource(apiKey)] : [])];
+};
+
+const readCache = (): Record<string, CacheEntry> => {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to parse trailer cache", e);
+    return {};
+  }
+};
+
+const lastTouched = (entry: CacheEntry) => Math.max(entry.checkedAt, ...Object.values(entry.dead));
+
+// Keeps only the most recently used titles
+const writeCache = (cache: Record<string, CacheEntry>) => {
+  try {
+    const entries = Object.entries(cache)
+      .sort(([, a], [, b]) => lastTouched(b) - lastTouched(a))
+      .slice(0, MAX_CACHE_ENTRIES);
+    localStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (e) {
+    console.error("Failed to save trailer cache", e);
+  }
+};
+
+class TrailerService {
+  private validator: TrailerValidator;
+  private sources: TrailerSource[];
+  private cache: Record<string, CacheEntry> | null = null;
+  // Reopening the modal while a check is running reuses it
+  private pending = new Map<string, Promise<string | null>>();
+
+  constructor(validator: TrailerValidator, sources: TrailerSource[]) {
+    this.validator = validator;
+    this.sources = sources;
+  }
+
+  private cacheKey(movie: Movie): string {
+    return `${movie.type || 'movie'}:${normalizeTitle(movie.title)}|${releaseYear(movie.year)}`;
+  }
+
+  private getCache(): Record<string, CacheEntry> {
+    if (!this.cache) this.cache = readCache();
+    return this.cache;
+  }
+
+  private getEntry(key: string): CacheEntry {
+    const entry = this.getCache()[key] || { videoId: null, checkedAt: 0, dead: {} };
+    const now = Date.now();
+    // Forget dead IDs once they're old enough to deserve another try
+    entry.dead = Object.fromEntries(Object.entries(entry.dead).filter(([, at]) => now - at < DEAD_TTL_MS));
+    return entry;
+  }
+
+  private saveEntry(key: string, entry: CacheEntry) {
+    const cache = this.getCache();
+    cache[key] = entry;
+    writeCache(cache);
+  }
+
+  // The first candidate that passes validation; null when none does.
+  // Never rejects: a failing source is skipped and the next one tried.
+  resolve(movie: Movie): Promise<string | null> {
+    const key = this.cacheKey(movie);
+    const entry = this.getEntry(key);
+    const age = Date.now() - entry.checkedAt;
+    if (entry.videoId && !entry.dead[entry.videoId] && age < GOOD_TTL_MS) return Promise.resolve(entry.videoId);
+    // A remembered miss still lets a newly suggested link through
+    const suggested = extractYouTubeId(movie.trailerUrl);
+    const hasNewSuggestion = !!suggested && !entry.dead[suggested];
+    if (entry.checkedAt && !entry.videoId && !hasNewSuggestion && age < MISS_TTL_MS) return Promise.resolve(null);
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const request = this.findTrailer(movie, entry)
+      .then(videoId => {
+        this.saveEntry(key, { ...entry, videoId, checkedAt: Date.now() });
+        return videoId;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  private async findTrailer(movie: Movie, entry: CacheEntry): Promise<string | null> {
+    const tried = new Set(Object.keys(entry.dead));
+    for (const source of this.sources) {
+      let candidates: string[] = [];
+      try {
+        candidates = await source.candidates(movie);
+      } catch (e) {
+        console.error(`Trailer source ${source.name} failed for ${movie.title}`, e);
+      }
+      for (const videoId of candidates) {
+        if (tried.has(videoId)) continue;
+        tried.add(videoId);
+        const playable = await this.validator.check(videoId);
+        // An inconclusive check isn't held against the video; the player reports it if it's really broken
+        if (playable !== false) return videoId;
+        entry.dead[videoId] = Date.now();
+      }
+    }
+    return null;
+  }
+
+  // Called when the player fails or the user reports a broken trailer; the next resolve skips this ID
+  markDead(movie: Movie, videoId: string) {
+    const key = this.cacheKey(movie);
+    const entry = this.getEntry(key);
+    entry.dead[videoId] = Date.now();
+    if (entry.videoId === videoId) entry.videoId = null;
+    this.saveEntry(key, { ...entry, checkedAt: 0 });
+  }
+
+  clearCache() {
+    this.cache = {};
+    localStorage.removeItem(CACHE_KEY);
+  }
+}
+
+export const trailerService = new TrailerService(new YouTubeOEmbedValidator(), createTrailerSources());
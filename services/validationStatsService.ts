@@ -0,0 +1,60 @@
+const STORAGE_KEY = 'moviesgpt_validation_stats';
+
+// valid: matched the contract as-is
+// coerced: usable after type coercion / dropping bad entries
+// repaired: fixed by the automatic repair re-prompt
+// failed: unusable even after repair
+export type ValidationOutcome = 'valid' | 'coerced' | 'repaired' | 'failed';
+
+export interface ValidationStats {
+  total: number;
+  outcomes: Record<ValidationOutcome, number>;
+  droppedRecommendations: number;
+  repairAttempts: number;
+  lastIssues: string[];
+  updatedAt: number;
+}
+
+const emptyStats = (): ValidationStats => ({
+  total: 0,
+  outcomes: { valid: 0, coerced: 0, repaired: 0, failed: 0 },
+  droppedRecommendations: 0,
+  repairAttempts: 0,
+  lastIssues: [],
+  updatedAt: 0,
+});
+
+export const validationStatsService = {
+  getStats: (): ValidationStats => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? { ...emptyStats(), ...JSON.parse(stored) } : emptyStats();
+    } catch {
+      return emptyStats();
+    }
+  },
+
+  record: (outcome: ValidationOutcome, details: { droppedCount?: number; repairAttempted?: boolean; issues?: string[] } = {}) => {
+    try {
+      const stats = validationStatsService.getStats();
+      stats.total++;
+      stats.outcomes[outcome]++;
+      stats.droppedRecommendations += details.droppedCount || 0;
+      if (details.repairAttempted) stats.repairAttempts++;
+      if (details.issues && details.issues.length > 0) stats.lastIssues = details.issues.slice(0, 10);
+      stats.updatedAt = Date.now();
+
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+    } catch (e) {
+      console.error("Failed to record validation stats", e);
+    }
+  },
+
+  resetStats: () => {
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (e) {
+      console.error("Failed to reset validation stats", e);
+    }
+  }
+};
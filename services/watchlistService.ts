@@ -1,51 +1,270 @@
-import { Movie } from '../types';
+import { Collection, Movie, SharedCollection, WatchlistEntry, WatchStatus } from '../types';
+import { storageEvents } from './storageEvents';
 
 const BASE_STORAGE_KEY = 'moviesgpt_watchlist';
 
+// v1 stored a bare Movie[], v2 a single list of tracking entries,
+// v3 any number of named collections
+const STORAGE_VERSION = 3;
+
+// The original watchlist; it can be renamed but never deleted
+export const DEFAULT_COLLECTION_ID = 'default';
+
+interface StoredWatchlist {
+  version: number;
+  items?: WatchlistEntry[];
+  collections?: Collection[];
+}
+
+export type WatchlistUpdate = Partial<Pick<WatchlistEntry,
+  'status' | 'watchedAt' | 'userRating' | 'notes' | 'currentSeason' | 'currentEpisode'
+>>;
+
+export type CollectionDetails = Pick<Collection, 'name' | 'description' | 'cover'>;
+
 const getKey = (userId?: string) => {
     return userId ? `${BASE_STORAGE_KEY}_${userId}` : `${BASE_STORAGE_KEY}_guest`;
 };
 
+const createCollectionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`;
+
+const isSameTitle = (a: Movie, b: Movie) => a.title === b.title && a.year === b.year;
+
+// Verification and constraint checks describe one reply; a saved title shouldn't carry their badges
+export const withoutReplyChecks = <T extends Movie>(movie: T): T => {
+  const { verification, constraintViolations, ...rest } = movie;
+  return rest as T;
+};
+
+const cleanCollections = (collections: Collection[]): Collection[] =>
+  collections.map(c => ({ ...c, items: c.items.map(withoutReplyChecks) }));
+
+const createEntry = (movie: Movie, addedAt = Date.now()): WatchlistEntry => ({
+  ...withoutReplyChecks(movie),
+  status: 'plan',
+  addedAt,
+  updatedAt: addedAt,
+  ...(movie.type === 'tv' ? { currentSeason: 1, currentEpisode: 1 } : {}),
+});
+
+const createDefaultCollection = (items: WatchlistEntry[] = []): Collection => ({
+  id: DEFAULT_COLLECTION_ID,
+  name: '',
+  items,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+// Old lists had no timestamps; spread fake ones so "recently added" keeps their order
+const migrateLegacy = (movies: Movie[]): WatchlistEntry[] => {
+  const now = Date.now();
+  return movies.map((movie, idx) => createEntry(movie, now - (movies.length - idx) * 1000));
+};
+
+const write = (collections: Collection[], userId?: string) => {
+  const stored: StoredWatchlist = { version: STORAGE_VERSION, collections: cleanCollections(collections) };
+  localStorage.setItem(getKey(userId), JSON.stringify(stored));
+  storageEvents.emit('watchlist', userId);
+};
+
+const read = (userId?: string): Collection[] => {
+  const stored = localStorage.getItem(getKey(userId));
+  if (!stored) return [createDefaultCollection()];
+
+  const parsed = JSON.parse(stored);
+  let collections: Collection[];
+  if (Array.isArray(parsed)) {
+    collections = [createDefaultCollection(migrateLegacy(parsed))];
+  } else if (!(parsed as StoredWatchlist).collections) {
+    collections = [createDefaultCollection((parsed as StoredWatchlist).items || [])];
+  } else {
+    // Lists saved before the checks were stripped may still carry them
+    return cleanCollections((parsed as StoredWatchlist).collections!);
+  }
+  write(collections, userId);
+  return collections;
+};
+
+// Applies `update` to one collection and saves the result
+const modify = (collectionId: string, userId: string | undefined, update: (collection: Collection) => Collection) => {
+  write(read(userId).map(c => c.id === collectionId ? { ...update(c), updatedAt: Date.now() } : c), userId);
+};
+
+const clampRating = (value: number) => Math.min(10, Math.max(1, Math.round(value)));
+
 export const watchlistService = {
-  getWatchlist: (userId?: string): Movie[] => {
+  // localStorage key holding this user's lists, for matching cross-tab `storage` events
+  getStorageKey: (userId?: string) => getKey(userId),
+
+  getCollections: (userId?: string): Collection[] => {
     try {
-      const stored = localStorage.getItem(getKey(userId));
-      return stored ? JSON.parse(stored) : [];
+      return read(userId);
     } catch (e) {
       console.error("Failed to parse watchlist", e);
-      return [];
+      return [createDefaultCollection()];
     }
   },
 
-  addToWatchlist: (movie: Movie, userId?: string) => {
+  getCollection: (collectionId: string, userId?: string): Collection | undefined => {
+    return watchlistService.getCollections(userId).find(c => c.id === collectionId);
+  },
+
+  getWatchlist: (userId?: string, collectionId = DEFAULT_COLLECTION_ID): WatchlistEntry[] => {
+    return watchlistService.getCollection(collectionId, userId)?.items || [];
+  },
+
+  getEntry: (movie: Movie, userId?: string, collectionId = DEFAULT_COLLECTION_ID): WatchlistEntry | undefined => {
+    return watchlistService.getWatchlist(userId, collectionId).find(m => isSameTitle(m, movie));
+  },
+
+  addToWatchlist: (movie: Movie, userId?: string, collectionId = DEFAULT_COLLECTION_ID) => {
     try {
-      const list = watchlistService.getWatchlist(userId);
       // Check for duplicates based on Title + Year
-      if (!list.some(m => m.title === movie.title && m.year === movie.year)) {
-        const newList = [...list, movie];
-        localStorage.setItem(getKey(userId), JSON.stringify(newList));
-      }
+      modify(collectionId, userId, c => c.items.some(m => isSameTitle(m, movie))
+        ? c
+        : { ...c, items: [...c.items, createEntry(movie)] });
     } catch (e) {
       console.error("Failed to add to watchlist", e);
     }
   },
 
-  removeFromWatchlist: (movie: Movie, userId?: string) => {
+  updateEntry: (movie: Movie, changes: WatchlistUpdate, userId?: string, collectionId = DEFAULT_COLLECTION_ID) => {
     try {
-      let list = watchlistService.getWatchlist(userId);
-      list = list.filter(m => !(m.title === movie.title && m.year === movie.year));
-      localStorage.setItem(getKey(userId), JSON.stringify(list));
+      modify(collectionId, userId, c => ({
+        ...c,
+        items: c.items.map(entry => {
+          if (!isSameTitle(entry, movie)) return entry;
+          const next: WatchlistEntry = { ...entry, ...changes, updatedAt: Date.now() };
+          if (changes.userRating !== undefined) next.userRating = clampRating(changes.userRating);
+          // Marking as watched stamps today unless a date was given
+          if (changes.status === 'watched' && !next.watchedAt) next.watchedAt = Date.now();
+          return next;
+        }),
+      }));
+    } catch (e) {
+      console.error("Failed to update watchlist entry", e);
+    }
+  },
+
+  removeFromWatchlist: (movie: Movie, userId?: string, collectionId = DEFAULT_COLLECTION_ID) => {
+    try {
+      modify(collectionId, userId, c => ({ ...c, items: c.items.filter(m => !isSameTitle(m, movie)) }));
     } catch (e) {
       console.error("Failed to remove from watchlist", e);
     }
   },
 
-  isInWatchlist: (movie: Movie, userId?: string): boolean => {
+  isInWatchlist: (movie: Movie, userId?: string, collectionId = DEFAULT_COLLECTION_ID): boolean => {
     try {
-      const list = watchlistService.getWatchlist(userId);
-      return list.some(m => m.title === movie.title && m.year === movie.year);
+      return watchlistService.getWatchlist(userId, collectionId).some(m => isSameTitle(m, movie));
     } catch (e) {
       return false;
     }
+  },
+
+  // Carries tracking data along; if the target already has the title, its entry wins
+  moveEntry: (movie: Movie, fromId: string, toId: string, userId?: string) => {
+    if (fromId === toId) return;
+    try {
+      const collections = read(userId);
+      const entry = collections.find(c => c.id === fromId)?.items.find(m => isSameTitle(m, movie));
+      if (!entry) return;
+      write(collections.map(c => {
+        if (c.id === fromId) return { ...c, items: c.items.filter(m => !isSameTitle(m, movie)), updatedAt: Date.now() };
+        if (c.id === toId && !c.items.some(m => isSameTitle(m, movie))) return { ...c, items: [...c.items, entry], updatedAt: Date.now() };
+        return c;
+      }), userId);
+    } catch (e) {
+      console.error("Failed to move watchlist entry", e);
+    }
+  },
+
+  // Drag-and-drop: places `movie` where `target` currently sits
+  reorderEntry: (movie: Movie, target: Movie, userId?: string, collectionId = DEFAULT_COLLECTION_ID) => {
+    try {
+      modify(collectionId, userId, c => {
+        const from = c.items.findIndex(m => isSameTitle(m, movie));
+        const to = c.items.findIndex(m => isSameTitle(m, target));
+        if (from === -1 || to === -1 || from === to) return c;
+        const items = [...c.items];
+        const [moved] = items.splice(from, 1);
+        items.splice(to, 0, moved);
+        return { ...c, items };
+      });
+    } catch (e) {
+      console.error("Failed to reorder watchlist", e);
+    }
+  },
+
+  createCollection: (details: CollectionDetails, userId?: string, items: WatchlistEntry[] = []): Collection => {
+    const collection: Collection = {
+      id: createCollectionId(),
+      name: details.name.trim(),
+      description: details.description?.trim() || undefined,
+      cover: details.cover?.trim() || undefined,
+      items,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    try {
+      write([...read(userId), collection], userId);
+    } catch (e) {
+      console.error("Failed to create collection", e);
+    }
+    return collection;
+  },
+
+  updateCollection: (collectionId: string, details: CollectionDetails, userId?: string) => {
+    try {
+      modify(collectionId, userId, c => ({
+        ...c,
+        name: details.name.trim() || c.name,
+        description: details.description?.trim() || undefined,
+        cover: details.cover?.trim() || undefined,
+      }));
+    } catch (e) {
+      console.error("Failed to update collection", e);
+    }
+  },
+
+  deleteCollection: (collectionId: string, userId?: string) => {
+    if (collectionId === DEFAULT_COLLECTION_ID) return;
+    try {
+      write(read(userId).filter(c => c.id !== collectionId), userId);
+    } catch (e) {
+      console.error("Failed to delete collection", e);
+    }
+  },
+
+  // Saves a shared list as a new collection of the user's own
+  importCollection: (shared: SharedCollection, userId?: string): Collection => {
+    const now = Date.now();
+    const items = shared.items.map((movie, idx) => createEntry(movie, now - (shared.items.length - idx) * 1000));
+    return watchlistService.createCollection(shared, userId, items);
+  },
+
+  // Overwrites every collection at once; used when applying synced data
+  replaceCollections: (collections: Collection[], userId?: string) => {
+    try {
+      write(collections.some(c => c.id === DEFAULT_COLLECTION_ID) ? collections : [createDefaultCollection(), ...collections], userId);
+    } catch (e) {
+      console.error("Failed to replace watchlist", e);
+    }
+  },
+
+  // Removes every list; used once guest data has been moved into an account
+  clearWatchlist: (userId?: string) => {
+    try {
+      localStorage.removeItem(getKey(userId));
+      storageEvents.emit('watchlist', userId);
+    } catch (e) {
+      console.error("Failed to clear watchlist", e);
+    }
+  },
+
+  countByStatus: (entries: WatchlistEntry[]): Record<WatchStatus, number> => {
+    const counts: Record<WatchStatus, number> = { plan: 0, watching: 0, watched: 0, dropped: 0 };
+    entries.forEach(entry => { counts[entry.status]++; });
+    return counts;
   }
-};
\ No newline at end of file
+};
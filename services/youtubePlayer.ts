@@ -0,0 +1,185 @@
+// Two-way link to an embedded YouTube player (an iframe with enablejsapi=1), speaking the
+// same postMessage protocol the IFrame API script uses, without loading that script.
+
+export const PLAYER_STATE = {
+  UNSTARTED: -1,
+  ENDED: 0,
+  PLAYING: 1,
+  PAUSED: 2,
+  BUFFERING: 3,
+  CUED: 5,
+} as const;
+
+export interface PlayerSnapshot {
+  ready: boolean;
+  state: number;
+  // Seconds
+  currentTime: number;
+  duration: number;
+  // 0-100
+  volume: number;
+  muted: boolean;
+  playbackRate: number;
+  availablePlaybackRates: number[];
+}
+
+export interface PlayerHandlers {
+  onChange: (snapshot: PlayerSnapshot) => void;
+  onError: (code: number) => void;
+}
+
+export const initialPlayerSnapshot = (): PlayerSnapshot => ({
+  ready: false,
+  state: PLAYER_STATE.UNSTARTED,
+  currentTime: 0,
+  duration: 0,
+  volume: 100,
+  muted: true,
+  playbackRate: 1,
+  availablePlaybackRates: [1],
+});
+
+const YOUTUBE_ORIGIN = /^https:\/\/www\.youtube(-nocookie)?\.com$/;
+const SUBSCRIBED_EVENTS = ['onReady', 'onStateChange', 'onError', 'onPlaybackRateChange'];
+// The player only answers once its own script has started, which can be after the iframe's load event
+const HANDSHAKE_INTERVAL_MS = 250;
+const HANDSHAKE_ATTEMPTS = 40;
+
+let nextChannelId = 1;
+
+// Messages come from another window, so nothing about their shape is taken on trust
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export class YouTubePlayerChannel {
+  private frame: HTMLIFrameElement;
+  private handlers: PlayerHandlers;
+  private snapshot: PlayerSnapshot = initialPlayerSnapshot();
+  private id = `moviesgpt-player-${nextChannelId++}`;
+  private handshake: ReturnType<typeof setInterval> | null = null;
+
+  constructor(frame: HTMLIFrameElement, handlers: PlayerHandlers) {
+    this.frame = frame;
+    this.handlers = handlers;
+    window.addEventListener('message', this.handleMessage);
+  }
+
+  // Call from the iframe's load event; repeats until the player first answers
+  connect() {
+    this.stopHandshake();
+    let attempts = 0;
+    const hello = () => {
+      if (++attempts > HANDSHAKE_ATTEMPTS) return this.stopHandshake();
+      this.post({ event: 'listening', id: this.id, channel: 'widget' });
+      SUBSCRIBED_EVENTS.forEach(name => this.command('addEventListener', [name]));
+    };
+    hello();
+    this.handshake = setInterval(hello, HANDSHAKE_INTERVAL_MS);
+  }
+
+  dispose() {
+    this.stopHandshake();
+    window.removeEventListener('message', this.handleMessage);
+  }
+
+  getSnapshot(): PlayerSnapshot {
+    return this.snapshot;
+  }
+
+  command(func: string, args: unknown[] = []) {
+    this.post({ event: 'command', func, args, id: this.id, channel: 'widget' });
+  }
+
+  play() { this.command('playVideo'); }
+  pause() { this.command('pauseVideo'); }
+  mute() { this.command('mute'); }
+  unMute() { this.command('unMute'); }
+
+  seekTo(seconds: number) {
+    const duration = this.snapshot.duration || Infinity;
+    this.command('seekTo', [Math.max(0, Math.min(seconds, duration)), true]);
+  }
+
+  setVolume(volume: number) {
+    const clamped = Math.max(0, Math.min(100, Math.round(volume)));
+    this.command('setVolume', [clamped]);
+    // Dragging the volume up from zero should be audible
+    if (clamped > 0 && this.snapshot.muted) this.unMute();
+  }
+
+  setPlaybackRate(rate: number) {
+    this.command('setPlaybackRate', [rate]);
+  }
+
+  // The captions module follows the viewer's YouTube settings for the track
+  setCaptions(enabled: boolean) {
+    this.command(enabled ? 'loadModule' : 'unloadModule', ['captions']);
+  }
+
+  private post(message: Record<string, unknown>) {
+    this.frame.contentWindow?.postMessage(JSON.stringify(message), '*');
+  }
+
+  private stopHandshake() {
+    if (this.handshake) clearInterval(this.handshake);
+    this.handshake = null;
+  }
+
+  private update(patch: Partial<PlayerSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.handlers.onChange(this.snapshot);
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    if (!YOUTUBE_ORIGIN.test(event.origin) || event.source !== this.frame.contentWindow) return;
+    let data: unknown;
+    try {
+      data = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+    } catch {
+      return;
+    }
+    if (!isRecord(data) || typeof data.event !== 'string') return;
+    this.stopHandshake();
+
+    switch (data.event) {
+      case 'onReady':
+        this.update({ ready: true });
+        break;
+      case 'initialDelivery':
+      case 'infoDelivery':
+        if (isRecord(data.info)) this.update(this.readInfo(data.info));
+        break;
+      case 'onStateChange':
+        this.update({ state: Number(data.info) });
+        break;
+      case 'onPlaybackRateChange':
+        this.update({ playbackRate: Number(data.info) || 1 });
+        break;
+      case 'onError':
+        this.handlers.onError(Number(data.info));
+        break;
+    }
+  };
+
+  // Info messages carry only what changed
+  private readInfo(info: Record<string, unknown>): Partial<PlayerSnapshot> {
+    const patch: Partial<PlayerSnapshot> = {};
+    if (typeof info.playerState === 'number') patch.state = info.playerState;
+    if (typeof info.currentTime === 'number') patch.currentTime = info.currentTime;
+    if (typeof info.duration === 'number') patch.duration = info.duration;
+    if (typeof info.volume === 'number') patch.volume = info.volume;
+    if (typeof info.muted === 'boolean') patch.muted = info.muted;
+    if (typeof info.playbackRate === 'number') patch.playbackRate = info.playbackRate;
+    if (Array.isArray(info.availablePlaybackRates)) patch.availablePlaybackRates = info.availablePlaybackRates.filter((r): r is number => typeof r === 'number');
+    return patch;
+  }
+}
+
+// 83 -> "1:23", 3723 -> "1:02:03"
+export const formatPlayerTime = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds || 0));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
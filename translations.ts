@@ -80,7 +80,177 @@ export const translations: Record<Language, { [key: string]: string }> = {
     genericError: "Something went wrong.",
     retry: "Retry Connection",
     reload: "Reload Page",
-    coldStartError: "Failed to initialize movies. Please check your connection."
+    coldStartError: "Failed to initialize movies. Please check your connection.",
+    stopGenerating: "Stop generating",
+    offlineDemo: "Offline Demo",
+    offlineDemoMessage: "No API key configured. Recommendations come from recorded sample answers.",
+    conversations: "Conversations",
+    renameConversation: "Rename conversation",
+    deleteConversation: "Delete conversation",
+    emptyConversations: "No saved conversations yet.",
+    save: "Save",
+    newChat: "New chat",
+    rateThis: "Your take",
+    like: "Like",
+    dislike: "Dislike",
+    tasteProfile: "Taste Profile",
+    tasteProfileHint: "MoviesGPT remembers these preferences and uses them to personalise every recommendation.",
+    favoriteGenres: "Favourite Genres",
+    favoriteIndustries: "Favourite Industries",
+    favoriteLanguages: "Preferred Languages",
+    inferredFromActivity: "Inferred from your activity",
+    preferredRuntime: "Preferred Runtime",
+    runtimeAny: "Any",
+    runtimeShort: "Short",
+    runtimeMedium: "Medium",
+    runtimeLong: "Long",
+    avoidContent: "Content to Avoid",
+    avoidPlaceholder: "e.g. gore, jump scares",
+    likedTitles: "Liked",
+    dislikedTitles: "Disliked",
+    noRatedTitles: "Rate titles with thumbs up or down to see them here.",
+    resetProfile: "Reset Profile",
+    add: "Add",
+    remove: "Remove",
+    alreadySeen: "Already seen",
+    dislikeReason: "Why didn't this fit?",
+    dislikeReasonPlaceholder: "Why not? (optional)",
+    hiddenFromFuturePicks: "Won't be suggested again",
+    statusPlan: "Plan",
+    statusWatching: "Watching",
+    statusWatched: "Watched",
+    statusDropped: "Dropped",
+    allStatuses: "All",
+    myRating: "My rating",
+    progress: "Progress",
+    season: "Season",
+    episode: "Episode",
+    dateWatched: "Watched on",
+    notes: "Notes",
+    notesPlaceholder: "Add a note...",
+    sortAdded: "Recently added",
+    sortStatus: "Status",
+    sortMyRating: "My rating",
+    sortWatchedDate: "Date watched",
+    newList: "New list",
+    editList: "Edit list",
+    deleteList: "Delete",
+    deleteListConfirm: "Delete this list and everything in it?",
+    listName: "Name",
+    listNamePlaceholder: "e.g. Date night",
+    listDescription: "Description",
+    listCover: "Cover image URL",
+    shareList: "Share",
+    linkCopied: "Link copied",
+    sharedList: "Shared list",
+    importToMyLists: "Import to my lists",
+    moveToList: "Move to list...",
+    removeFromList: "Remove from this list",
+    customOrder: "My order",
+    syncLocal: "Saved on this device",
+    syncSyncing: "Syncing…",
+    syncSynced: "Synced across devices",
+    syncOffline: "Offline – changes will sync later",
+    syncError: "Sync failed",
+    guestDataTitle: "Bring your guest data along?",
+    guestDataBody: "You saved these on this device before signing in. Add them to your account? Titles you already have are skipped.",
+    guestTitles: "Saved titles",
+    guestLists: "Custom lists",
+    guestSearches: "Recent searches",
+    guestMerge: "Add to my account",
+    guestKeepSeparate: "Not now",
+    guestMigrated: "Moved to your account",
+    guestMoved: "Titles added",
+    guestDuplicates: "Already in your lists",
+    guestNewLists: "New lists",
+    guestSearchesAdded: "Searches added",
+    done: "Done",
+    starring: "Starring",
+    unverified: "Unverified",
+    unverifiedHint: "We couldn't find this title in the movie catalog. It may not exist, so double-check before watching.",
+    corrected: "Corrected",
+    correctedHint: "Details fixed to match the movie catalog:",
+    findingTrailer: "Finding a working trailer...",
+    noTrailerFound: "We couldn't find a trailer that plays here.",
+    upNext: "Up next",
+    playAll: "Play all",
+    whereToWatch: "Where to watch",
+    offerSubscription: "Stream",
+    offerFree: "Free",
+    offerRent: "Rent",
+    offerBuy: "Buy",
+    notStreaming: "Not streaming in your country",
+    streamableOnly: "Can stream",
+    streamableOnlyHint: "Only show what I can stream",
+    whereYouWatch: "Where you watch",
+    streamingCountry: "Country",
+    myServices: "Services you subscribe to",
+    viewDetails: "View details",
+    backToResults: "Back",
+    addToWatchlist: "Add to watchlist",
+    yourStatus: "Your status",
+    sourcesLabel: "Sources",
+    moreLikeThis: "More like this",
+    findSimilar: "Find similar titles",
+    noSimilarFound: "Couldn't find similar titles right now. Try again in a moment.",
+    loadingTitle: "Looking up this title...",
+    titleNotFound: "We couldn't find this title. The link may be incomplete.",
+    moreLike: "More like",
+    similarVia: "from",
+    closeCarousel: "Close",
+    tryAgain: "Try again",
+    requestBuilder: "Build my request",
+    requestBuilderHint: "Set exactly what you're after. Limits are sent to MoviesGPT with your request, and titles that break them are flagged.",
+    moodLabel: "Mood",
+    moodTone: "Tone",
+    moodLight: "Light",
+    moodDark: "Dark",
+    moodPace: "Pace",
+    moodSlow: "Slow",
+    moodFast: "Fast",
+    runtimeRange: "Movie length (minutes)",
+    minMinutes: "Min",
+    maxMinutes: "Max",
+    maxSeasonsLabel: "Max seasons",
+    languagesLabel: "Languages",
+    industriesLabel: "Industries",
+    eraLabel: "Release years",
+    fromYear: "From",
+    toYear: "To",
+    ratingCeiling: "Highest age rating",
+    similarToLabel: "Similar to",
+    similarToPlaceholder: "e.g. Arrival (2016)",
+    builderNote: "Anything else?",
+    builderNotePlaceholder: "Optional, e.g. something to watch with my parents",
+    builderDefaultQuery: "Recommend titles that match my preferences",
+    findTitles: "Find titles",
+    clearAll: "Clear",
+    preferencesActive: "Preferences on",
+    offBrief: "Doesn't match",
+    offBriefHint: "This title breaks a limit set in the preference builder",
+    violationType: "Type",
+    violationRuntime: "Length",
+    violationSeasons: "Seasons",
+    violationLanguage: "Language",
+    violationIndustry: "Industry",
+    violationEra: "Year",
+    violationContentRating: "Rated",
+    violationSimilarTo: "One of your reference titles",
+    findMoreMatching: "Find more matching these filters",
+    loadMore: "Load more",
+    loadingMore: "Finding more titles...",
+    noMoreMatches: "No more titles match these filters.",
+    noMoreResults: "That's everything for this search.",
+    latestAnswer: "Latest answer",
+    wholeConversation: "Whole conversation",
+    feedModeHint: "Show the latest answer's titles, or every title recommended in this conversation",
+    downloadCsv: "Download CSV",
+    downloadMarkdown: "Download Markdown",
+    downloadJson: "Download JSON (re-importable)",
+    downloadLetterboxd: "Letterboxd import CSV",
+    downloadImdb: "IMDb list CSV",
+    importList: "Import a JSON export",
+    importFailed: "That file isn't a MoviesGPT JSON export."
   },
   Hindi: {
     title: "MoviesGPT",
@@ -161,7 +331,177 @@ export const translations: Record<Language, { [key: string]: string }> = {
     genericError: "कुछ गलत हो गया।",
     retry: "पुनः प्रयास करें",
     reload: "पेज रीलोड करें",
-    coldStartError: "फिल्में लोड करने में विफल। अपना कनेक्शन जांचें।"
+    coldStartError: "फिल्में लोड करने में विफल। अपना कनेक्शन जांचें।",
+    stopGenerating: "जनरेट करना रोकें",
+    offlineDemo: "ऑफ़लाइन डेमो",
+    offlineDemoMessage: "कोई API कुंजी सेट नहीं है। सुझाव रिकॉर्ड किए गए नमूना उत्तरों से आते हैं।",
+    conversations: "बातचीत",
+    renameConversation: "बातचीत का नाम बदलें",
+    deleteConversation: "बातचीत हटाएं",
+    emptyConversations: "अभी तक कोई सहेजी गई बातचीत नहीं।",
+    save: "सहेजें",
+    newChat: "नई चैट",
+    rateThis: "आपकी राय",
+    like: "पसंद",
+    dislike: "नापसंद",
+    tasteProfile: "रुचि प्रोफ़ाइल",
+    tasteProfileHint: "MoviesGPT इन पसंदों को याद रखता है और हर सुझाव को व्यक्तिगत बनाने के लिए इनका उपयोग करता है।",
+    favoriteGenres: "पसंदीदा शैलियाँ",
+    favoriteIndustries: "पसंदीदा इंडस्ट्री",
+    favoriteLanguages: "पसंदीदा भाषाएँ",
+    inferredFromActivity: "आपकी गतिविधि से अनुमानित",
+    preferredRuntime: "पसंदीदा अवधि",
+    runtimeAny: "कोई भी",
+    runtimeShort: "छोटी",
+    runtimeMedium: "मध्यम",
+    runtimeLong: "लंबी",
+    avoidContent: "जिस सामग्री से बचना है",
+    avoidPlaceholder: "जैसे हिंसा, जंप स्केयर",
+    likedTitles: "पसंद किए गए",
+    dislikedTitles: "नापसंद किए गए",
+    noRatedTitles: "यहाँ देखने के लिए शीर्षकों को पसंद या नापसंद करें।",
+    resetProfile: "प्रोफ़ाइल रीसेट करें",
+    add: "जोड़ें",
+    remove: "हटाएँ",
+    alreadySeen: "पहले से देखी",
+    dislikeReason: "यह क्यों पसंद नहीं आया?",
+    dislikeReasonPlaceholder: "क्यों नहीं? (वैकल्पिक)",
+    hiddenFromFuturePicks: "दोबारा सुझाया नहीं जाएगा",
+    statusPlan: "योजना",
+    statusWatching: "देख रहे",
+    statusWatched: "देख ली",
+    statusDropped: "छोड़ दी",
+    allStatuses: "सभी",
+    myRating: "मेरी रेटिंग",
+    progress: "प्रगति",
+    season: "सीज़न",
+    episode: "एपिसोड",
+    dateWatched: "देखने की तारीख",
+    notes: "नोट्स",
+    notesPlaceholder: "नोट जोड़ें...",
+    sortAdded: "हाल ही में जोड़ी गई",
+    sortStatus: "स्थिति",
+    sortMyRating: "मेरी रेटिंग",
+    sortWatchedDate: "देखने की तारीख",
+    newList: "नई सूची",
+    editList: "सूची संपादित करें",
+    deleteList: "हटाएँ",
+    deleteListConfirm: "यह सूची और इसमें सब कुछ हटाएँ?",
+    listName: "नाम",
+    listNamePlaceholder: "जैसे डेट नाइट",
+    listDescription: "विवरण",
+    listCover: "कवर इमेज URL",
+    shareList: "साझा करें",
+    linkCopied: "लिंक कॉपी हुआ",
+    sharedList: "साझा की गई सूची",
+    importToMyLists: "मेरी सूचियों में जोड़ें",
+    moveToList: "सूची में ले जाएँ...",
+    removeFromList: "इस सूची से हटाएँ",
+    customOrder: "मेरा क्रम",
+    syncLocal: "इस डिवाइस पर सहेजा गया",
+    syncSyncing: "सिंक हो रहा है…",
+    syncSynced: "सभी डिवाइस पर सिंक",
+    syncOffline: "ऑफ़लाइन – बदलाव बाद में सिंक होंगे",
+    syncError: "सिंक विफल",
+    guestDataTitle: "अपना अतिथि डेटा साथ लाएँ?",
+    guestDataBody: "साइन इन करने से पहले आपने इस डिवाइस पर ये सहेजे थे। इन्हें अपने खाते में जोड़ें? जो टाइटल पहले से हैं, वे छोड़ दिए जाएँगे।",
+    guestTitles: "सहेजे गए टाइटल",
+    guestLists: "कस्टम सूचियाँ",
+    guestSearches: "हाल की खोजें",
+    guestMerge: "मेरे खाते में जोड़ें",
+    guestKeepSeparate: "अभी नहीं",
+    guestMigrated: "आपके खाते में ले जाया गया",
+    guestMoved: "जोड़े गए टाइटल",
+    guestDuplicates: "पहले से आपकी सूचियों में",
+    guestNewLists: "नई सूचियाँ",
+    guestSearchesAdded: "जोड़ी गई खोजें",
+    done: "हो गया",
+    starring: "कलाकार",
+    unverified: "असत्यापित",
+    unverifiedHint: "यह टाइटल मूवी कैटलॉग में नहीं मिला। हो सकता है यह मौजूद न हो, देखने से पहले जाँच लें।",
+    corrected: "सुधारा गया",
+    correctedHint: "मूवी कैटलॉग के अनुसार सुधारे गए विवरण:",
+    findingTrailer: "चलने वाला ट्रेलर खोजा जा रहा है...",
+    noTrailerFound: "हमें यहाँ चलने वाला कोई ट्रेलर नहीं मिला।",
+    upNext: "अगला",
+    playAll: "सभी चलाएँ",
+    whereToWatch: "कहाँ देखें",
+    offerSubscription: "स्ट्रीम",
+    offerFree: "मुफ़्त",
+    offerRent: "किराया",
+    offerBuy: "खरीदें",
+    notStreaming: "आपके देश में स्ट्रीम नहीं हो रही",
+    streamableOnly: "स्ट्रीम योग्य",
+    streamableOnlyHint: "केवल वही दिखाएँ जो मैं स्ट्रीम कर सकता हूँ",
+    whereYouWatch: "आप कहाँ देखते हैं",
+    streamingCountry: "देश",
+    myServices: "आपकी सदस्यता वाली सेवाएँ",
+    viewDetails: "विवरण देखें",
+    backToResults: "वापस",
+    addToWatchlist: "वॉचलिस्ट में जोड़ें",
+    yourStatus: "आपकी स्थिति",
+    sourcesLabel: "स्रोत",
+    moreLikeThis: "ऐसी ही और",
+    findSimilar: "मिलते-जुलते टाइटल खोजें",
+    noSimilarFound: "अभी मिलते-जुलते टाइटल नहीं मिले। थोड़ी देर में फिर कोशिश करें।",
+    loadingTitle: "यह टाइटल खोजा जा रहा है...",
+    titleNotFound: "यह टाइटल नहीं मिला। लिंक अधूरा हो सकता है।",
+    moreLike: "इसके जैसी और:",
+    similarVia: "से",
+    closeCarousel: "बंद करें",
+    tryAgain: "फिर कोशिश करें",
+    requestBuilder: "मेरा अनुरोध बनाएं",
+    requestBuilderHint: "ठीक-ठीक बताएं कि आप क्या चाहते हैं। सीमाएं आपके अनुरोध के साथ MoviesGPT को भेजी जाती हैं, और उन्हें तोड़ने वाले टाइटल चिह्नित किए जाते हैं।",
+    moodLabel: "मूड",
+    moodTone: "टोन",
+    moodLight: "हल्का",
+    moodDark: "गहरा",
+    moodPace: "रफ़्तार",
+    moodSlow: "धीमा",
+    moodFast: "तेज़",
+    runtimeRange: "फ़िल्म की लंबाई (मिनट)",
+    minMinutes: "न्यूनतम",
+    maxMinutes: "अधिकतम",
+    maxSeasonsLabel: "अधिकतम सीज़न",
+    languagesLabel: "भाषाएं",
+    industriesLabel: "इंडस्ट्री",
+    eraLabel: "रिलीज़ वर्ष",
+    fromYear: "से",
+    toYear: "तक",
+    ratingCeiling: "अधिकतम आयु रेटिंग",
+    similarToLabel: "इनके जैसी",
+    similarToPlaceholder: "जैसे Arrival (2016)",
+    builderNote: "और कुछ?",
+    builderNotePlaceholder: "वैकल्पिक, जैसे माता-पिता के साथ देखने लायक",
+    builderDefaultQuery: "मेरी पसंद के अनुसार टाइटल सुझाएं",
+    findTitles: "टाइटल खोजें",
+    clearAll: "साफ़ करें",
+    preferencesActive: "पसंद लागू",
+    offBrief: "मेल नहीं खाता",
+    offBriefHint: "यह टाइटल पसंद बिल्डर में तय सीमा तोड़ता है",
+    violationType: "प्रकार",
+    violationRuntime: "लंबाई",
+    violationSeasons: "सीज़न",
+    violationLanguage: "भाषा",
+    violationIndustry: "इंडस्ट्री",
+    violationEra: "वर्ष",
+    violationContentRating: "रेटिंग",
+    violationSimilarTo: "आपके संदर्भ टाइटल में से एक",
+    findMoreMatching: "इन फ़िल्टर से मेल खाते और टाइटल खोजें",
+    loadMore: "और दिखाएँ",
+    loadingMore: "और टाइटल खोजे जा रहे हैं...",
+    noMoreMatches: "इन फ़िल्टर से मेल खाते और टाइटल नहीं मिले।",
+    noMoreResults: "इस खोज के लिए बस इतना ही।",
+    latestAnswer: "नवीनतम जवाब",
+    wholeConversation: "पूरी बातचीत",
+    feedModeHint: "नवीनतम जवाब के टाइटल दिखाएँ, या इस बातचीत में सुझाए गए सभी टाइटल",
+    downloadCsv: "CSV डाउनलोड करें",
+    downloadMarkdown: "Markdown डाउनलोड करें",
+    downloadJson: "JSON डाउनलोड करें (फिर से इम्पोर्ट योग्य)",
+    downloadLetterboxd: "Letterboxd इम्पोर्ट CSV",
+    downloadImdb: "IMDb सूची CSV",
+    importList: "JSON एक्सपोर्ट इम्पोर्ट करें",
+    importFailed: "यह फ़ाइल MoviesGPT का JSON एक्सपोर्ट नहीं है।"
   },
   Marathi: {
     title: "MoviesGPT",
@@ -242,7 +582,177 @@ export const translations: Record<Language, { [key: string]: string }> = {
     genericError: "काहीतरी चूक झाली.",
     retry: "पुन्हा प्रयत्न करा",
     reload: "पेज रीलोड करा",
-    coldStartError: "चित्रपट लोड करण्यात अयशस्वी. कृपया कनेक्शन तपासा."
+    coldStartError: "चित्रपट लोड करण्यात अयशस्वी. कृपया कनेक्शन तपासा.",
+    stopGenerating: "निर्मिती थांबवा",
+    offlineDemo: "ऑफलाइन डेमो",
+    offlineDemoMessage: "API की सेट केलेली नाही. शिफारसी रेकॉर्ड केलेल्या नमुना उत्तरांमधून येतात.",
+    conversations: "संभाषणे",
+    renameConversation: "संभाषणाचे नाव बदला",
+    deleteConversation: "संभाषण हटवा",
+    emptyConversations: "अद्याप कोणतीही जतन केलेली संभाषणे नाहीत.",
+    save: "जतन करा",
+    newChat: "नवीन चॅट",
+    rateThis: "तुमचे मत",
+    like: "आवडले",
+    dislike: "नावडले",
+    tasteProfile: "आवड प्रोफाइल",
+    tasteProfileHint: "MoviesGPT ही आवड लक्षात ठेवते आणि प्रत्येक शिफारस वैयक्तिक करण्यासाठी वापरते.",
+    favoriteGenres: "आवडते प्रकार",
+    favoriteIndustries: "आवडती इंडस्ट्री",
+    favoriteLanguages: "आवडत्या भाषा",
+    inferredFromActivity: "तुमच्या क्रियाकलापांवरून अनुमानित",
+    preferredRuntime: "आवडता कालावधी",
+    runtimeAny: "कोणताही",
+    runtimeShort: "लहान",
+    runtimeMedium: "मध्यम",
+    runtimeLong: "मोठा",
+    avoidContent: "टाळायची सामग्री",
+    avoidPlaceholder: "उदा. हिंसा, जंप स्केअर",
+    likedTitles: "आवडलेले",
+    dislikedTitles: "नावडलेले",
+    noRatedTitles: "येथे पाहण्यासाठी शीर्षकांना आवडले किंवा नावडले द्या.",
+    resetProfile: "प्रोफाइल रीसेट करा",
+    add: "जोडा",
+    remove: "काढा",
+    alreadySeen: "आधीच पाहिले",
+    dislikeReason: "हे का आवडले नाही?",
+    dislikeReasonPlaceholder: "का नाही? (पर्यायी)",
+    hiddenFromFuturePicks: "पुन्हा सुचवले जाणार नाही",
+    statusPlan: "योजना",
+    statusWatching: "पाहत आहे",
+    statusWatched: "पाहिले",
+    statusDropped: "सोडले",
+    allStatuses: "सर्व",
+    myRating: "माझे रेटिंग",
+    progress: "प्रगती",
+    season: "सीझन",
+    episode: "भाग",
+    dateWatched: "पाहिल्याची तारीख",
+    notes: "नोंदी",
+    notesPlaceholder: "नोंद जोडा...",
+    sortAdded: "अलीकडे जोडलेले",
+    sortStatus: "स्थिती",
+    sortMyRating: "माझे रेटिंग",
+    sortWatchedDate: "पाहिल्याची तारीख",
+    newList: "नवीन यादी",
+    editList: "यादी संपादित करा",
+    deleteList: "हटवा",
+    deleteListConfirm: "ही यादी आणि त्यातील सर्व काही हटवायचे?",
+    listName: "नाव",
+    listNamePlaceholder: "उदा. डेट नाइट",
+    listDescription: "वर्णन",
+    listCover: "कव्हर इमेज URL",
+    shareList: "शेअर करा",
+    linkCopied: "लिंक कॉपी झाली",
+    sharedList: "शेअर केलेली यादी",
+    importToMyLists: "माझ्या याद्यांमध्ये आयात करा",
+    moveToList: "यादीत हलवा...",
+    removeFromList: "या यादीतून काढा",
+    customOrder: "माझा क्रम",
+    syncLocal: "या डिव्हाइसवर जतन केले",
+    syncSyncing: "सिंक होत आहे…",
+    syncSynced: "सर्व डिव्हाइसवर सिंक",
+    syncOffline: "ऑफलाइन – बदल नंतर सिंक होतील",
+    syncError: "सिंक अयशस्वी",
+    guestDataTitle: "तुमचा अतिथी डेटा सोबत आणायचा?",
+    guestDataBody: "साइन इन करण्यापूर्वी तुम्ही या डिव्हाइसवर हे जतन केले होते. ते तुमच्या खात्यात जोडायचे? आधीच असलेली शीर्षके वगळली जातील.",
+    guestTitles: "जतन केलेली शीर्षके",
+    guestLists: "सानुकूल याद्या",
+    guestSearches: "अलीकडील शोध",
+    guestMerge: "माझ्या खात्यात जोडा",
+    guestKeepSeparate: "आता नाही",
+    guestMigrated: "तुमच्या खात्यात हलवले",
+    guestMoved: "जोडलेली शीर्षके",
+    guestDuplicates: "आधीच तुमच्या याद्यांमध्ये",
+    guestNewLists: "नवीन याद्या",
+    guestSearchesAdded: "जोडलेले शोध",
+    done: "झाले",
+    starring: "कलाकार",
+    unverified: "असत्यापित",
+    unverifiedHint: "हे शीर्षक चित्रपट कॅटलॉगमध्ये सापडले नाही. ते अस्तित्वात नसू शकते, पाहण्यापूर्वी तपासा.",
+    corrected: "दुरुस्त केले",
+    correctedHint: "चित्रपट कॅटलॉगनुसार दुरुस्त केलेले तपशील:",
+    findingTrailer: "चालणारा ट्रेलर शोधत आहे...",
+    noTrailerFound: "येथे चालणारा ट्रेलर सापडला नाही.",
+    upNext: "पुढील",
+    playAll: "सर्व चालवा",
+    whereToWatch: "कुठे पाहावे",
+    offerSubscription: "स्ट्रीम",
+    offerFree: "मोफत",
+    offerRent: "भाड्याने",
+    offerBuy: "विकत घ्या",
+    notStreaming: "तुमच्या देशात स्ट्रीम होत नाही",
+    streamableOnly: "स्ट्रीम करता येईल",
+    streamableOnlyHint: "फक्त मी स्ट्रीम करू शकतो तेच दाखवा",
+    whereYouWatch: "तुम्ही कुठे पाहता",
+    streamingCountry: "देश",
+    myServices: "तुमच्या सदस्यत्वाच्या सेवा",
+    viewDetails: "तपशील पहा",
+    backToResults: "मागे",
+    addToWatchlist: "यादीत जोडा",
+    yourStatus: "तुमची स्थिती",
+    sourcesLabel: "स्रोत",
+    moreLikeThis: "असेच आणखी",
+    findSimilar: "समान शीर्षके शोधा",
+    noSimilarFound: "आत्ता समान शीर्षके सापडली नाहीत. थोड्या वेळाने पुन्हा प्रयत्न करा.",
+    loadingTitle: "हे शीर्षक शोधत आहे...",
+    titleNotFound: "हे शीर्षक सापडले नाही. लिंक अपूर्ण असू शकते.",
+    moreLike: "यासारखे आणखी:",
+    similarVia: "पासून",
+    closeCarousel: "बंद करा",
+    tryAgain: "पुन्हा प्रयत्न करा",
+    requestBuilder: "माझी विनंती तयार करा",
+    requestBuilderHint: "तुम्हाला नेमके काय हवे ते ठरवा. मर्यादा तुमच्या विनंतीसोबत MoviesGPT ला पाठवल्या जातात आणि त्या न पाळणारी शीर्षके चिन्हांकित केली जातात.",
+    moodLabel: "मूड",
+    moodTone: "टोन",
+    moodLight: "हलके",
+    moodDark: "गडद",
+    moodPace: "वेग",
+    moodSlow: "संथ",
+    moodFast: "वेगवान",
+    runtimeRange: "चित्रपटाची लांबी (मिनिटे)",
+    minMinutes: "किमान",
+    maxMinutes: "कमाल",
+    maxSeasonsLabel: "कमाल सीझन",
+    languagesLabel: "भाषा",
+    industriesLabel: "इंडस्ट्री",
+    eraLabel: "प्रदर्शन वर्षे",
+    fromYear: "पासून",
+    toYear: "पर्यंत",
+    ratingCeiling: "कमाल वय रेटिंग",
+    similarToLabel: "यांच्यासारखे",
+    similarToPlaceholder: "उदा. Arrival (2016)",
+    builderNote: "आणखी काही?",
+    builderNotePlaceholder: "ऐच्छिक, उदा. आई-वडिलांसोबत पाहण्यासारखे",
+    builderDefaultQuery: "माझ्या आवडीनुसार शीर्षके सुचवा",
+    findTitles: "शीर्षके शोधा",
+    clearAll: "साफ करा",
+    preferencesActive: "पसंती लागू",
+    offBrief: "जुळत नाही",
+    offBriefHint: "हे शीर्षक पसंती बिल्डरमधील मर्यादा पाळत नाही",
+    violationType: "प्रकार",
+    violationRuntime: "लांबी",
+    violationSeasons: "सीझन",
+    violationLanguage: "भाषा",
+    violationIndustry: "इंडस्ट्री",
+    violationEra: "वर्ष",
+    violationContentRating: "रेटिंग",
+    violationSimilarTo: "तुमच्या संदर्भ शीर्षकांपैकी एक",
+    findMoreMatching: "या फिल्टरशी जुळणारे आणखी शोधा",
+    loadMore: "आणखी दाखवा",
+    loadingMore: "आणखी शीर्षके शोधत आहे...",
+    noMoreMatches: "या फिल्टरशी जुळणारी आणखी शीर्षके नाहीत.",
+    noMoreResults: "या शोधासाठी एवढेच.",
+    latestAnswer: "नवीनतम उत्तर",
+    wholeConversation: "संपूर्ण संभाषण",
+    feedModeHint: "नवीनतम उत्तरातील शीर्षके दाखवा, किंवा या संभाषणात सुचवलेली सर्व शीर्षके",
+    downloadCsv: "CSV डाउनलोड करा",
+    downloadMarkdown: "Markdown डाउनलोड करा",
+    downloadJson: "JSON डाउनलोड करा (पुन्हा इम्पोर्ट करता येते)",
+    downloadLetterboxd: "Letterboxd इम्पोर्ट CSV",
+    downloadImdb: "IMDb यादी CSV",
+    importList: "JSON एक्सपोर्ट इम्पोर्ट करा",
+    importFailed: "ही फाइल MoviesGPT चे JSON एक्सपोर्ट नाही."
   },
   Spanish: {
     title: "MoviesGPT",
@@ -323,7 +833,177 @@ export const translations: Record<Language, { [key: string]: string }> = {
     genericError: "Algo salió mal.",
     retry: "Reintentar",
     reload: "Recargar página",
-    coldStartError: "Error al cargar películas. Verifica tu conexión."
+    coldStartError: "Error al cargar películas. Verifica tu conexión.",
+    stopGenerating: "Detener generación",
+    offlineDemo: "Demo sin conexión",
+    offlineDemoMessage: "No hay clave de API configurada. Las recomendaciones provienen de respuestas de ejemplo grabadas.",
+    conversations: "Conversaciones",
+    renameConversation: "Renombrar conversación",
+    deleteConversation: "Eliminar conversación",
+    emptyConversations: "Aún no hay conversaciones guardadas.",
+    save: "Guardar",
+    newChat: "Nuevo chat",
+    rateThis: "Tu opinión",
+    like: "Me gusta",
+    dislike: "No me gusta",
+    tasteProfile: "Perfil de gustos",
+    tasteProfileHint: "MoviesGPT recuerda estas preferencias y las usa para personalizar cada recomendación.",
+    favoriteGenres: "Géneros favoritos",
+    favoriteIndustries: "Industrias favoritas",
+    favoriteLanguages: "Idiomas preferidos",
+    inferredFromActivity: "Deducido de tu actividad",
+    preferredRuntime: "Duración preferida",
+    runtimeAny: "Cualquiera",
+    runtimeShort: "Corta",
+    runtimeMedium: "Media",
+    runtimeLong: "Larga",
+    avoidContent: "Contenido a evitar",
+    avoidPlaceholder: "p. ej. gore, sustos repentinos",
+    likedTitles: "Te gustaron",
+    dislikedTitles: "No te gustaron",
+    noRatedTitles: "Valora títulos con el pulgar para verlos aquí.",
+    resetProfile: "Restablecer perfil",
+    add: "Añadir",
+    remove: "Quitar",
+    alreadySeen: "Ya la vi",
+    dislikeReason: "¿Por qué no encaja?",
+    dislikeReasonPlaceholder: "¿Por qué no? (opcional)",
+    hiddenFromFuturePicks: "No se volverá a sugerir",
+    statusPlan: "Pendiente",
+    statusWatching: "Viendo",
+    statusWatched: "Vista",
+    statusDropped: "Abandonada",
+    allStatuses: "Todas",
+    myRating: "Mi nota",
+    progress: "Progreso",
+    season: "Temporada",
+    episode: "Episodio",
+    dateWatched: "Vista el",
+    notes: "Notas",
+    notesPlaceholder: "Añade una nota...",
+    sortAdded: "Añadidas recientemente",
+    sortStatus: "Estado",
+    sortMyRating: "Mi nota",
+    sortWatchedDate: "Fecha vista",
+    newList: "Nueva lista",
+    editList: "Editar lista",
+    deleteList: "Eliminar",
+    deleteListConfirm: "¿Eliminar esta lista y todo su contenido?",
+    listName: "Nombre",
+    listNamePlaceholder: "p. ej. Noche de cita",
+    listDescription: "Descripción",
+    listCover: "URL de la portada",
+    shareList: "Compartir",
+    linkCopied: "Enlace copiado",
+    sharedList: "Lista compartida",
+    importToMyLists: "Importar a mis listas",
+    moveToList: "Mover a lista...",
+    removeFromList: "Quitar de esta lista",
+    customOrder: "Mi orden",
+    syncLocal: "Guardado en este dispositivo",
+    syncSyncing: "Sincronizando…",
+    syncSynced: "Sincronizado entre dispositivos",
+    syncOffline: "Sin conexión: los cambios se sincronizarán luego",
+    syncError: "Error de sincronización",
+    guestDataTitle: "¿Traer tus datos de invitado?",
+    guestDataBody: "Guardaste esto en este dispositivo antes de iniciar sesión. ¿Añadirlo a tu cuenta? Se omiten los títulos que ya tienes.",
+    guestTitles: "Títulos guardados",
+    guestLists: "Listas personalizadas",
+    guestSearches: "Búsquedas recientes",
+    guestMerge: "Añadir a mi cuenta",
+    guestKeepSeparate: "Ahora no",
+    guestMigrated: "Movido a tu cuenta",
+    guestMoved: "Títulos añadidos",
+    guestDuplicates: "Ya estaban en tus listas",
+    guestNewLists: "Listas nuevas",
+    guestSearchesAdded: "Búsquedas añadidas",
+    done: "Listo",
+    starring: "Reparto",
+    unverified: "Sin verificar",
+    unverifiedHint: "No encontramos este título en el catálogo. Puede que no exista; compruébalo antes de verlo.",
+    corrected: "Corregido",
+    correctedHint: "Datos corregidos según el catálogo:",
+    findingTrailer: "Buscando un tráiler disponible...",
+    noTrailerFound: "No encontramos un tráiler que se pueda reproducir aquí.",
+    upNext: "A continuación",
+    playAll: "Reproducir todo",
+    whereToWatch: "Dónde ver",
+    offerSubscription: "Suscripción",
+    offerFree: "Gratis",
+    offerRent: "Alquiler",
+    offerBuy: "Compra",
+    notStreaming: "No disponible en tu país",
+    streamableOnly: "Disponible",
+    streamableOnlyHint: "Mostrar solo lo que puedo ver",
+    whereYouWatch: "Dónde ves",
+    streamingCountry: "País",
+    myServices: "Servicios a los que estás suscrito",
+    viewDetails: "Ver detalles",
+    backToResults: "Volver",
+    addToWatchlist: "Añadir a mi lista",
+    yourStatus: "Tu estado",
+    sourcesLabel: "Fuentes",
+    moreLikeThis: "Más como este",
+    findSimilar: "Buscar títulos similares",
+    noSimilarFound: "No se encontraron títulos similares. Inténtalo de nuevo en un momento.",
+    loadingTitle: "Buscando este título...",
+    titleNotFound: "No encontramos este título. Puede que el enlace esté incompleto.",
+    moreLike: "Más como",
+    similarVia: "desde",
+    closeCarousel: "Cerrar",
+    tryAgain: "Reintentar",
+    requestBuilder: "Crear mi petición",
+    requestBuilderHint: "Indica exactamente lo que buscas. Los límites se envían a MoviesGPT con tu petición y se marcan los títulos que no los cumplen.",
+    moodLabel: "Ánimo",
+    moodTone: "Tono",
+    moodLight: "Ligero",
+    moodDark: "Oscuro",
+    moodPace: "Ritmo",
+    moodSlow: "Lento",
+    moodFast: "Rápido",
+    runtimeRange: "Duración de la película (minutos)",
+    minMinutes: "Mín.",
+    maxMinutes: "Máx.",
+    maxSeasonsLabel: "Máximo de temporadas",
+    languagesLabel: "Idiomas",
+    industriesLabel: "Industrias",
+    eraLabel: "Años de estreno",
+    fromYear: "Desde",
+    toYear: "Hasta",
+    ratingCeiling: "Clasificación máxima",
+    similarToLabel: "Parecido a",
+    similarToPlaceholder: "p. ej. Arrival (2016)",
+    builderNote: "¿Algo más?",
+    builderNotePlaceholder: "Opcional, p. ej. algo para ver con mis padres",
+    builderDefaultQuery: "Recomiéndame títulos que encajen con mis preferencias",
+    findTitles: "Buscar títulos",
+    clearAll: "Borrar",
+    preferencesActive: "Preferencias activas",
+    offBrief: "No encaja",
+    offBriefHint: "Este título no cumple un límite del creador de peticiones",
+    violationType: "Tipo",
+    violationRuntime: "Duración",
+    violationSeasons: "Temporadas",
+    violationLanguage: "Idioma",
+    violationIndustry: "Industria",
+    violationEra: "Año",
+    violationContentRating: "Clasificación",
+    violationSimilarTo: "Uno de tus títulos de referencia",
+    findMoreMatching: "Buscar más que coincidan con estos filtros",
+    loadMore: "Cargar más",
+    loadingMore: "Buscando más títulos...",
+    noMoreMatches: "No hay más títulos que coincidan con estos filtros.",
+    noMoreResults: "Eso es todo para esta búsqueda.",
+    latestAnswer: "Última respuesta",
+    wholeConversation: "Toda la conversación",
+    feedModeHint: "Muestra los títulos de la última respuesta o todos los recomendados en esta conversación",
+    downloadCsv: "Descargar CSV",
+    downloadMarkdown: "Descargar Markdown",
+    downloadJson: "Descargar JSON (reimportable)",
+    downloadLetterboxd: "CSV para importar en Letterboxd",
+    downloadImdb: "CSV de lista de IMDb",
+    importList: "Importar una exportación JSON",
+    importFailed: "Ese archivo no es una exportación JSON de MoviesGPT."
   },
   French: {
     title: "MoviesGPT",
@@ -404,6 +1084,176 @@ export const translations: Record<Language, { [key: string]: string }> = {
     genericError: "Quelque chose s'est mal passé.",
     retry: "Réessayer",
     reload: "Recharger la page",
-    coldStartError: "Échec du chargement. Vérifiez votre connexion."
+    coldStartError: "Échec du chargement. Vérifiez votre connexion.",
+    stopGenerating: "Arrêter la génération",
+    offlineDemo: "Démo hors ligne",
+    offlineDemoMessage: "Aucune clé API configurée. Les recommandations proviennent de réponses d'exemple enregistrées.",
+    conversations: "Conversations",
+    renameConversation: "Renommer la conversation",
+    deleteConversation: "Supprimer la conversation",
+    emptyConversations: "Aucune conversation enregistrée pour le moment.",
+    save: "Enregistrer",
+    newChat: "Nouvelle discussion",
+    rateThis: "Votre avis",
+    like: "J'aime",
+    dislike: "Je n'aime pas",
+    tasteProfile: "Profil de goûts",
+    tasteProfileHint: "MoviesGPT mémorise ces préférences et les utilise pour personnaliser chaque recommandation.",
+    favoriteGenres: "Genres favoris",
+    favoriteIndustries: "Industries favorites",
+    favoriteLanguages: "Langues préférées",
+    inferredFromActivity: "Déduit de votre activité",
+    preferredRuntime: "Durée préférée",
+    runtimeAny: "Toutes",
+    runtimeShort: "Courte",
+    runtimeMedium: "Moyenne",
+    runtimeLong: "Longue",
+    avoidContent: "Contenu à éviter",
+    avoidPlaceholder: "ex. gore, jump scares",
+    likedTitles: "Aimés",
+    dislikedTitles: "Pas aimés",
+    noRatedTitles: "Notez des titres avec le pouce pour les voir ici.",
+    resetProfile: "Réinitialiser le profil",
+    add: "Ajouter",
+    remove: "Retirer",
+    alreadySeen: "Déjà vu",
+    dislikeReason: "Pourquoi ça ne convient pas ?",
+    dislikeReasonPlaceholder: "Pourquoi ? (facultatif)",
+    hiddenFromFuturePicks: "Ne sera plus suggéré",
+    statusPlan: "À voir",
+    statusWatching: "En cours",
+    statusWatched: "Vu",
+    statusDropped: "Abandonné",
+    allStatuses: "Tous",
+    myRating: "Ma note",
+    progress: "Progression",
+    season: "Saison",
+    episode: "Épisode",
+    dateWatched: "Vu le",
+    notes: "Notes",
+    notesPlaceholder: "Ajouter une note...",
+    sortAdded: "Ajoutés récemment",
+    sortStatus: "Statut",
+    sortMyRating: "Ma note",
+    sortWatchedDate: "Date de visionnage",
+    newList: "Nouvelle liste",
+    editList: "Modifier la liste",
+    deleteList: "Supprimer",
+    deleteListConfirm: "Supprimer cette liste et tout son contenu ?",
+    listName: "Nom",
+    listNamePlaceholder: "ex. Soirée en amoureux",
+    listDescription: "Description",
+    listCover: "URL de l'image de couverture",
+    shareList: "Partager",
+    linkCopied: "Lien copié",
+    sharedList: "Liste partagée",
+    importToMyLists: "Importer dans mes listes",
+    moveToList: "Déplacer vers...",
+    removeFromList: "Retirer de cette liste",
+    customOrder: "Mon ordre",
+    syncLocal: "Enregistré sur cet appareil",
+    syncSyncing: "Synchronisation…",
+    syncSynced: "Synchronisé sur vos appareils",
+    syncOffline: "Hors ligne – synchronisation plus tard",
+    syncError: "Échec de la synchronisation",
+    guestDataTitle: "Récupérer vos données invité ?",
+    guestDataBody: "Vous avez enregistré ceci sur cet appareil avant de vous connecter. L'ajouter à votre compte ? Les titres déjà présents sont ignorés.",
+    guestTitles: "Titres enregistrés",
+    guestLists: "Listes personnalisées",
+    guestSearches: "Recherches récentes",
+    guestMerge: "Ajouter à mon compte",
+    guestKeepSeparate: "Pas maintenant",
+    guestMigrated: "Transféré sur votre compte",
+    guestMoved: "Titres ajoutés",
+    guestDuplicates: "Déjà dans vos listes",
+    guestNewLists: "Nouvelles listes",
+    guestSearchesAdded: "Recherches ajoutées",
+    done: "Terminé",
+    starring: "Avec",
+    unverified: "Non vérifié",
+    unverifiedHint: "Titre introuvable dans le catalogue. Il n'existe peut-être pas : vérifiez avant de le regarder.",
+    corrected: "Corrigé",
+    correctedHint: "Détails corrigés d'après le catalogue :",
+    findingTrailer: "Recherche d'une bande-annonce disponible...",
+    noTrailerFound: "Nous n'avons trouvé aucune bande-annonce lisible ici.",
+    upNext: "À suivre",
+    playAll: "Tout lire",
+    whereToWatch: "Où regarder",
+    offerSubscription: "Abonnement",
+    offerFree: "Gratuit",
+    offerRent: "Location",
+    offerBuy: "Achat",
+    notStreaming: "Indisponible dans votre pays",
+    streamableOnly: "Disponible",
+    streamableOnlyHint: "N'afficher que ce que je peux regarder",
+    whereYouWatch: "Où vous regardez",
+    streamingCountry: "Pays",
+    myServices: "Services auxquels vous êtes abonné",
+    viewDetails: "Voir les détails",
+    backToResults: "Retour",
+    addToWatchlist: "Ajouter à ma liste",
+    yourStatus: "Votre statut",
+    sourcesLabel: "Sources",
+    moreLikeThis: "Dans le même genre",
+    findSimilar: "Trouver des titres similaires",
+    noSimilarFound: "Aucun titre similaire trouvé pour l'instant. Réessayez dans un moment.",
+    loadingTitle: "Recherche de ce titre...",
+    titleNotFound: "Titre introuvable. Le lien est peut-être incomplet.",
+    moreLike: "Plus comme",
+    similarVia: "depuis",
+    closeCarousel: "Fermer",
+    tryAgain: "Réessayer",
+    requestBuilder: "Composer ma demande",
+    requestBuilderHint: "Précisez ce que vous cherchez. Les limites sont envoyées à MoviesGPT avec votre demande, et les titres qui ne les respectent pas sont signalés.",
+    moodLabel: "Ambiance",
+    moodTone: "Ton",
+    moodLight: "Léger",
+    moodDark: "Sombre",
+    moodPace: "Rythme",
+    moodSlow: "Lent",
+    moodFast: "Rapide",
+    runtimeRange: "Durée du film (minutes)",
+    minMinutes: "Min.",
+    maxMinutes: "Max.",
+    maxSeasonsLabel: "Saisons max.",
+    languagesLabel: "Langues",
+    industriesLabel: "Industries",
+    eraLabel: "Années de sortie",
+    fromYear: "De",
+    toYear: "À",
+    ratingCeiling: "Classification maximale",
+    similarToLabel: "Dans l'esprit de",
+    similarToPlaceholder: "ex. Premier Contact (2016)",
+    builderNote: "Autre chose ?",
+    builderNotePlaceholder: "Facultatif, ex. à regarder avec mes parents",
+    builderDefaultQuery: "Recommande-moi des titres qui correspondent à mes préférences",
+    findTitles: "Trouver des titres",
+    clearAll: "Effacer",
+    preferencesActive: "Préférences actives",
+    offBrief: "Ne correspond pas",
+    offBriefHint: "Ce titre ne respecte pas une limite de votre demande",
+    violationType: "Type",
+    violationRuntime: "Durée",
+    violationSeasons: "Saisons",
+    violationLanguage: "Langue",
+    violationIndustry: "Industrie",
+    violationEra: "Année",
+    violationContentRating: "Classification",
+    violationSimilarTo: "Un de vos titres de référence",
+    findMoreMatching: "Trouver d'autres titres correspondant à ces filtres",
+    loadMore: "Charger plus",
+    loadingMore: "Recherche d'autres titres...",
+    noMoreMatches: "Aucun autre titre ne correspond à ces filtres.",
+    noMoreResults: "C'est tout pour cette recherche.",
+    latestAnswer: "Dernière réponse",
+    wholeConversation: "Toute la conversation",
+    feedModeHint: "Affiche les titres de la dernière réponse ou tous ceux recommandés dans cette conversation",
+    downloadCsv: "Télécharger en CSV",
+    downloadMarkdown: "Télécharger en Markdown",
+    downloadJson: "Télécharger en JSON (réimportable)",
+    downloadLetterboxd: "CSV d'import Letterboxd",
+    downloadImdb: "CSV de liste IMDb",
+    importList: "Importer un export JSON",
+    importFailed: "Ce fichier n'est pas un export JSON de MoviesGPT."
   }
 };
\ No newline at end of file
@@ -17,6 +17,71 @@ export interface Movie {
   industry?: string;
   type?: 'movie' | 'tv';
   totalSeasons?: string;
+  // Age rating as the model reported it, e.g. "PG-13", "TV-MA" or "UA"
+  contentRating?: string;
+  // Set once the title was checked against the catalog
+  verification?: TitleVerification;
+  // Set when the request came from the preference builder; empty means the title fits
+  constraintViolations?: ConstraintViolation[];
+}
+
+export type VerificationStatus = 'verified' | 'corrected' | 'unverified';
+
+export interface TitleVerification {
+  status: VerificationStatus;
+  // What was fixed to match the catalog, e.g. "year: 2011 → 2010"
+  corrections?: string[];
+  // Catalog that was checked, e.g. 'tmdb' or 'fixtures'
+  source: string;
+}
+
+// Catalog details for a recommended title, resolved by a metadata provider
+export interface TitleMetadata {
+  title: string;
+  // Release (or first air) year, four digits
+  year: string;
+  posterUrl?: string;
+  backdropUrl?: string;
+  runtimeMinutes?: number;
+  // Director(s), or the creators of a show
+  director?: string;
+  cast: string[];
+  // YouTube video IDs of trailers, best first
+  trailerIds?: string[];
+  externalIds: {
+    tmdb?: string;
+    imdb?: string;
+  };
+  // Provider that resolved it, e.g. 'tmdb' or 'fixtures'
+  source: string;
+}
+
+export type OfferType = 'subscription' | 'free' | 'rent' | 'buy';
+
+// One way to watch a title, e.g. included with Netflix or rentable on Apple TV
+export interface StreamingOffer {
+  // Service id from STREAMING_SERVICES, e.g. 'netflix'
+  service: string;
+  type: OfferType;
+  // Deep link when the provider knows one
+  url?: string;
+}
+
+// Where a title can be watched in one country, resolved by an availability provider
+export interface TitleAvailability {
+  title: string;
+  year: string;
+  // ISO 3166-1 alpha-2 country code, e.g. 'IN'
+  region: string;
+  offers: StreamingOffer[];
+  // Provider that resolved it, e.g. 'fixtures'
+  source: string;
+}
+
+// The user's country and the services they pay for
+export interface StreamingPreferences {
+  country: string;
+  services: string[];
 }
 
 export interface Source {
@@ -24,11 +89,104 @@ export interface Source {
   uri: string;
 }
 
+// One-tap follow-up offered by the model
+export interface QuickReply {
+  label: string;
+  // Full text sent as the user's next message
+  message: string;
+  // Index into clarifyingQuestions when this answers one of them
+  questionIndex?: number;
+}
+
 export interface RecommendationResponse {
   summary: string;
   clarifyingQuestions?: string[];
+  quickReplies?: QuickReply[];
   recommendations: Movie[];
   sources?: Source[];
+  // Set when the summary is an error message standing in for a failed request
+  error?: boolean;
+}
+
+// Age rating ceilings offered in the preference builder, least to most permissive
+export type ContentRating = 'G' | 'PG' | 'PG-13' | 'R';
+
+// A request put together in the preference builder. Unset fields mean "no preference".
+export interface RequestConstraints {
+  type?: 'movie' | 'tv';
+  // -2 (light) to 2 (dark); 0 means no preference
+  tone: number;
+  // -2 (slow) to 2 (fast); 0 means no preference
+  pace: number;
+  // Movie length in minutes
+  minRuntime?: number;
+  maxRuntime?: number;
+  maxSeasons?: number;
+  languages: string[];
+  industries: string[];
+  // Release years, inclusive
+  fromYear?: number;
+  toYear?: number;
+  maxContentRating?: ContentRating;
+  similarTo: TitleRef[];
+}
+
+export type ConstraintKey = 'type' | 'runtime' | 'seasons' | 'language' | 'industry' | 'era' | 'contentRating' | 'similarTo';
+
+// A returned title that breaks one of the request's hard constraints
+export interface ConstraintViolation {
+  constraint: ConstraintKey;
+  // What the title has instead, e.g. "2h 58m" or "R"
+  actual: string;
+}
+
+// "More like this": what the model should match about a title, outside the conversation
+export interface SimilarityRequest {
+  title: string;
+  year: string;
+  type?: 'movie' | 'tv';
+  genres: string[];
+  emotionalTone?: string;
+  director?: string;
+  industry?: string;
+  language?: string;
+  // Titles already on screen, which should not come back
+  exclude: TitleRef[];
+}
+
+// Grid filters in effect; a missing field is not filtered on
+export interface ResultFilters {
+  type?: 'movie' | 'tv';
+  genre?: string;
+  // First year of the decade, e.g. "1990", or "older" for anything before 1980
+  decade?: string;
+  industry?: string;
+  // Only titles free or included with the user's services
+  streamableOnly?: boolean;
+}
+
+// "Find more": another page of titles for the current results, outside the conversation
+export interface MoreResultsRequest {
+  // The user's latest query, so new titles stay on topic
+  query?: string;
+  filters: ResultFilters;
+  // Everything already recommended in the conversation
+  exclude: TitleRef[];
+  // Page size; providers default to six
+  count?: number;
+}
+
+// Results grid: the latest reply only, or every title recommended in the conversation
+export type FeedMode = 'latest' | 'all';
+
+// One "More like this" carousel, shown beside the main results
+export interface SimilarThread {
+  id: string;
+  source: Movie;
+  // Title of the carousel this one was started from, when it was
+  via?: string;
+  status: 'loading' | 'done' | 'error';
+  results: Movie[];
 }
 
 export interface Message {
@@ -38,6 +196,110 @@ export interface Message {
   timestamp: number;
 }
 
+// Provider-neutral model context, used to rebuild a chat after reload
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: Message[];
+  recommendations: Movie[];
+  modelHistory: ChatTurn[];
+  language: Language;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TitleRef {
+  title: string;
+  year: string;
+}
+
+export type WatchStatus = 'plan' | 'watching' | 'watched' | 'dropped';
+
+// A watchlist item: the recommended title plus the user's own tracking data
+export interface WatchlistEntry extends Movie {
+  status: WatchStatus;
+  addedAt: number;
+  updatedAt: number;
+  watchedAt?: number;
+  // Personal score, 1-10
+  userRating?: number;
+  notes?: string;
+  // TV progress: the next episode to watch
+  currentSeason?: number;
+  currentEpisode?: number;
+}
+
+// A named list of watchlist entries; item order is the user's manual order
+export interface Collection {
+  id: string;
+  name: string;
+  description?: string;
+  // Image URL; a generated tile is shown when unset
+  cover?: string;
+  items: WatchlistEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What a share link carries: the list without anyone's tracking data
+export interface SharedCollection {
+  name: string;
+  description?: string;
+  cover?: string;
+  items: Movie[];
+}
+
+export type ExportFormat = 'pdf' | 'docx' | 'csv' | 'json' | 'markdown' | 'letterboxd' | 'imdb';
+
+// One exported title with everything known about it on this device
+export interface ExportItem {
+  movie: Movie;
+  // The user's tracking data, when the title is in one of their lists
+  entry?: WatchlistEntry;
+  // Sources of the reply that recommended it
+  sources: Source[];
+}
+
+export interface ExportDocument {
+  title: string;
+  exportedAt: number;
+  items: ExportItem[];
+}
+
+export type FeedbackVerdict = 'like' | 'dislike' | 'seen';
+
+// Per-title verdict from the card controls; genres are kept for re-ranking
+export interface TitleFeedback extends TitleRef {
+  verdict: FeedbackVerdict;
+  reason?: string;
+  genres: string[];
+  createdAt: number;
+}
+
+export type RuntimePreference = 'any' | 'short' | 'medium' | 'long';
+
+export interface TasteProfile {
+  likedTitles: TitleRef[];
+  dislikedTitles: TitleRef[];
+  favoriteGenres: string[];
+  favoriteIndustries: string[];
+  favoriteLanguages: string[];
+  preferredRuntime: RuntimePreference;
+  avoid: string[];
+  // Implicit signal counts (watchlist adds, trailer plays), keyed by name
+  affinity: {
+    genres: Record<string, number>;
+    industries: Record<string, number>;
+    languages: Record<string, number>;
+  };
+  updatedAt: number;
+}
+
 export interface HistoryItem {
   query: string;
   timestamp: number;
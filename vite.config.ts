@@ -1,18 +1,73 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Dev-only endpoint that saves exchanges captured in record mode (LLM_RECORD=true)
+// to fixtures/recorded, where the mock provider picks them up for replay.
+const fixtureRecorder = (): Plugin => ({
+  name: 'moviesgpt-fixture-recorder',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/__fixtures', (req, res) => {
+      if (req.method !== 'POST') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        try {
+          const fixture = JSON.parse(body);
+          const fileName = String(fixture.id || Date.now()).replace(/[^a-z0-9-]/gi, '-');
+          const dir = path.resolve(__dirname, 'fixtures/recorded');
+          fs.mkdirSync(dir, { recursive: true });
+          fs.writeFileSync(path.join(dir, `${fileName}.json`), JSON.stringify(fixture, null, 2) + '\n');
+          res.statusCode = 201;
+          res.end();
+        } catch (e) {
+          console.error('Failed to record fixture', e);
+          res.statusCode = 400;
+          res.end();
+        }
+      });
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const isRecording = env.LLM_RECORD === 'true';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: isRecording ? [react(), fixtureRecorder()] : [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Recommendation provider: 'gemini' (default), 'openai' for any OpenAI-compatible server, or 'mock' for offline fixtures
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER || 'gemini'),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL || ''),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL || ''),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY || ''),
+        'process.env.LLM_RECORD': JSON.stringify(isRecording ? 'true' : ''),
+        // Poster and catalog lookups: TMDB when a key is set, otherwise the bundled fixtures
+        'process.env.METADATA_PROVIDER': JSON.stringify(env.METADATA_PROVIDER || ''),
+        'process.env.TMDB_API_KEY': JSON.stringify(env.TMDB_API_KEY || ''),
+        // Titles the catalog doesn't know: 'flag' (default) marks them, 'drop' hides them, 'off' skips the check
+        'process.env.VERIFY_TITLES': JSON.stringify(env.VERIFY_TITLES || 'flag'),
+        // Optional YouTube Data API key, used to search for a trailer when the suggested ones are broken
+        'process.env.YOUTUBE_API_KEY': JSON.stringify(env.YOUTUBE_API_KEY || ''),
+        // Firebase project; without these the app runs in local demo mode
+        'process.env.FIREBASE_API_KEY': JSON.stringify(env.FIREBASE_API_KEY || ''),
+        'process.env.FIREBASE_AUTH_DOMAIN': JSON.stringify(env.FIREBASE_AUTH_DOMAIN || ''),
+        'process.env.FIREBASE_PROJECT_ID': JSON.stringify(env.FIREBASE_PROJECT_ID || ''),
+        'process.env.FIREBASE_APP_ID': JSON.stringify(env.FIREBASE_APP_ID || ''),
+        'process.env.FIREBASE_EMULATOR_HOST': JSON.stringify(env.FIREBASE_EMULATOR_HOST || '')
       },
       resolve: {
         alias: {